@@ -5,75 +5,26 @@ import { Header } from './components/Header';
 import { Sun, Moon, Clock, Brain } from 'lucide-react';
 import { ImageUploader } from './components/ImageUploader';
 import { ResultCard } from './components/ResultCard';
+import { TranslatedResult } from './components/TranslatedResult';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { UrgencyBadge } from './components/UrgencyBadge';
+import { ProvenanceDetails } from './components/ProvenanceDetails';
+import { AnalysisProgress, stageLabel } from './components/AnalysisProgress';
+import { SeriesTimeline } from './components/SeriesTimeline';
 import { Spinner } from './components/Spinner';
 import { LandingPage } from './components/LandingPage';
-import { analyzeSkinCondition, compareLesions } from './services/geminiService';
-import type { AnalysisResult, Patient, LesionImage, ComparisonResult, User, PatientMessage } from './types';
+import { analyzeSkinConditionBatch } from './services/geminiService';
+import { fetchPatients, fetchPatient, createPatient, addLesionImage, addMessage, reviewLesionImage, recordPatientExport } from './services/patientService';
+import { submitAnalysisJob, submitComparisonJob, submitSeriesJob, fetchActiveJobs, waitForJob } from './services/jobService';
+import { fetchCurrentUser, login, signUp, logout, updatePreferences, createPractitioner } from './services/authService';
+import type { AnalysisJob, AnalysisResult, AnalysisStage, BatchAnalysisItem, Patient, LesionImage, ComparisonResult, SeriesComparisonResult, User, PatientMessage, Locale } from './types';
+import { I18nProvider, detectLocale, rememberLocale, useI18n } from './i18n/I18nProvider';
 import { exportPatientPDF } from './utils/pdfExport';
+import { buildWorklist } from './utils/triage';
 import { InteractiveCanvas } from './components/InteractiveCanvas';
 import { PatientPortal } from './components/PatientPortal';
-
-// --- DATA PERSISTENCE HELPERS ---
-const saveState = (key: string, state: unknown) => {
-    try {
-        const serializedState = JSON.stringify(state);
-        localStorage.setItem(key, serializedState);
-    } catch (e) {
-        console.warn(`Error saving state for key "${key}":`, e);
-    }
-};
-
-const loadState = <T,>(key: string, defaultState: T): T => {
-    try {
-        const serializedState = localStorage.getItem(key);
-        if (serializedState === null) {
-            return defaultState;
-        }
-        const state = JSON.parse(serializedState);
-        // Dates need to be re-hydrated from strings
-        if (key === 'patients' && Array.isArray(state)) {
-            state.forEach(p => {
-                if (p.lesionImages && Array.isArray(p.lesionImages)) {
-                    p.lesionImages.forEach((img: any) => {
-                        img.timestamp = new Date(img.timestamp);
-                    });
-                }
-            });
-        }
-        return state;
-    } catch (e) {
-        console.warn(`Error loading state for key "${key}":`, e);
-        return defaultState;
-    }
-};
-
-// --- MOCK DATA ---
-const initialPatients: Patient[] = [
-    {
-        id: 'p1',
-        name: 'John Doe',
-        dob: '1985-05-23',
-        lesionImages: [],
-        patientId: 'JD-001',
-        gender: 'Male',
-        bloodType: 'O+',
-        existingConditions: 'None reported',
-        email: 'john@patient.com',
-        messages: [],
-        symptomLogs: [],
-        careTasks: []
-    },
-    {
-        id: 'p2',
-        name: 'Jane Smith',
-        dob: '1992-11-14',
-        lesionImages: [],
-        email: 'jane@patient.com',
-        messages: [],
-        symptomLogs: [],
-        careTasks: []
-    }
-];
+import { AuditLogView } from './components/AuditLogView';
+import { ErrorNotice, type FailedAction } from './components/ErrorNotice';
 
 // --- UTILITY FUNCTIONS ---
 const fileToDataUrl = (file: File): Promise<string> => {
@@ -85,12 +36,6 @@ const fileToDataUrl = (file: File): Promise<string> => {
     });
 };
 
-const dataUrlToFile = async (dataUrl: string, filename: string): Promise<File> => {
-    const res = await fetch(dataUrl);
-    const blob = await res.blob();
-    return new File([blob], filename, { type: blob.type });
-};
-
 
 // --- ICONS ---
 const AddUserIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" /></svg>;
@@ -105,12 +50,11 @@ const DownloadIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-
 
 const AuthView: React.FC<{
     onLogin: (email: string, password: string) => Promise<string | null>;
-    onSignUp: (name: string, email: string, password: string, role: 'practitioner' | 'patient', dob?: string) => Promise<string | null>;
+    onSignUp: (name: string, email: string, password: string, dob: string) => Promise<string | null>;
 }> = ({ onLogin, onSignUp }) => {
     const [authMode, setAuthMode] = useState<'login' | 'signup'>('login');
     const [error, setError] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
-    const [selectedRole, setSelectedRole] = useState<'practitioner' | 'patient'>('practitioner');
     const [dob, setDob] = useState('');
     const formRef = useRef<HTMLFormElement>(null);
 
@@ -138,10 +82,10 @@ const AuthView: React.FC<{
                 errorMessage = "Passwords do not match.";
             } else if (!name) {
                 errorMessage = "Full name is required.";
-            } else if (selectedRole === 'patient' && !dob) {
+            } else if (!dob) {
                 errorMessage = "Date of birth is required for patient profile creation.";
             } else {
-                errorMessage = await onSignUp(name, email, password, selectedRole, dob);
+                errorMessage = await onSignUp(name, email, password, dob);
             }
         }
 
@@ -173,38 +117,16 @@ const AuthView: React.FC<{
                 <form ref={formRef} className="mt-8 space-y-5 bg-surface dark:bg-[#0f172a] p-8 rounded-2xl shadow-2xl border border-border/80 dark:border-slate-850 transition-colors" onSubmit={handleSubmit}>
                     
                     {!isLogin && (
-                        <div className="space-y-1">
-                            <label className="text-xs font-bold text-text-secondary dark:text-slate-400 uppercase tracking-wider font-mono">Select Onboarding Role</label>
-                            <div className="grid grid-cols-2 gap-3 pb-2">
-                                <button
-                                    type="button"
-                                    onClick={() => setSelectedRole('practitioner')}
-                                    className={`py-2.5 px-3 border rounded-xl font-bold text-xs capitalize transition-all duration-200
-                                        ${selectedRole === 'practitioner' 
-                                            ? 'bg-primary border-primary text-white shadow-sm shadow-primary/20' 
-                                            : 'border-border dark:border-slate-700 bg-transparent text-text-secondary dark:hover:text-white hover:bg-slate-50 dark:hover:bg-slate-800'}`}
-                                >
-                                    Medical Practitioner
-                                </button>
-                                <button
-                                    type="button"
-                                    onClick={() => setSelectedRole('patient')}
-                                    className={`py-2.5 px-3 border rounded-xl font-bold text-xs capitalize transition-all duration-200
-                                        ${selectedRole === 'patient' 
-                                            ? 'bg-primary border-primary text-white shadow-sm shadow-primary/20' 
-                                            : 'border-border dark:border-slate-700 bg-transparent text-text-secondary dark:hover:text-white hover:bg-slate-50 dark:hover:bg-slate-800'}`}
-                                >
-                                    Clinical Patient
-                                </button>
-                            </div>
-                        </div>
+                        <p className="text-xs text-text-secondary dark:text-slate-400 bg-primary-light/60 dark:bg-blue-950/30 p-3 rounded-lg">
+                            Sign up creates a patient account with its own clinical file. Practitioner accounts are added by an existing practitioner from the Patient Dashboard.
+                        </p>
                     )}
 
                     <div className="space-y-4">
                         {!isLogin && <input id="full-name" name="name" type="text" autoComplete="name" required className={inputClasses} placeholder="Full Name (e.g. John Doe)" />}
                         <input id="email-address" name="email" type="email" autoComplete="email" required className={inputClasses} placeholder="Email address" />
                         
-                        {!isLogin && selectedRole === 'patient' && (
+                        {!isLogin && (
                             <div className="space-y-1">
                                 <label className="text-xs font-bold text-text-secondary dark:text-slate-400 uppercase tracking-wider font-mono">Date of Birth</label>
                                 <input 
@@ -308,6 +230,68 @@ const AddPatientModal: React.FC<{ onSave: (data: Omit<Patient, 'id' | 'lesionIma
     );
 };
 
+const AddPractitionerModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const [formData, setFormData] = useState({ name: '', email: '', password: '' });
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [created, setCreated] = useState<string | null>(null);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSave = async () => {
+        setError(null);
+        setIsSaving(true);
+        try {
+            const user = await createPractitioner(formData.name, formData.email, formData.password);
+            setCreated(user.email);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Account creation failed. Please try again.');
+        }
+        setIsSaving(false);
+    };
+
+    const inputClass = "w-full px-4 py-2 border border-border dark:border-slate-700 bg-surface dark:bg-slate-800 text-text-primary dark:text-slate-100 rounded-lg focus:ring-primary focus:border-primary placeholder-text-secondary dark:placeholder-slate-400";
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+            <div className="bg-surface dark:bg-slate-900 rounded-2xl shadow-xl p-6 w-full max-w-lg m-4 animate-slide-up border border-border/80 dark:border-slate-800">
+                <h2 className="text-xl font-bold text-text-primary dark:text-slate-100 mb-2">Add Practitioner</h2>
+                <p className="text-sm text-text-secondary dark:text-slate-400 mb-6">Creates a practitioner account for a colleague. Share the password with them securely; you stay signed in.</p>
+                {created ? (
+                    <p className="text-sm text-success-text dark:text-emerald-400 bg-success-light dark:bg-emerald-950/40 p-3 rounded-lg">The practitioner account for {created} is ready.</p>
+                ) : (
+                    <div className="space-y-4">
+                        <div>
+                            <label className="text-sm font-medium text-text-secondary dark:text-slate-400 mb-1 block">Full Name *</label>
+                            <input type="text" name="name" placeholder="Dr. Jane Doe" value={formData.name} onChange={handleChange} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="text-sm font-medium text-text-secondary dark:text-slate-400 mb-1 block">Email *</label>
+                            <input type="email" name="email" placeholder="jane.doe@clinic.com" value={formData.email} onChange={handleChange} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="text-sm font-medium text-text-secondary dark:text-slate-400 mb-1 block">Initial Password * (at least 8 characters)</label>
+                            <input type="password" name="password" autoComplete="new-password" value={formData.password} onChange={handleChange} className={inputClass} />
+                        </div>
+                        {error && <p className="text-danger-text text-sm bg-danger-light dark:bg-rose-950/40 p-3 rounded-lg border dark:border-rose-900">{error}</p>}
+                    </div>
+                )}
+                <div className="mt-8 flex justify-end gap-4">
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg text-text-secondary dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">{created ? 'Done' : 'Cancel'}</button>
+                    {!created && (
+                        <button onClick={handleSave} className="px-4 py-2 rounded-lg text-white bg-primary hover:bg-primary-hover disabled:bg-blue-300 dark:disabled:bg-slate-700 transition-colors" disabled={isSaving || !formData.name || !formData.email || !formData.password}>
+                            {isSaving ? 'Creating...' : 'Create Account'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
 const PatientCard: React.FC<{ patient: Patient, onSelect: () => void }> = ({ patient, onSelect }) => (
     <div onClick={onSelect} className="bg-surface dark:bg-slate-800 p-6 rounded-2xl shadow-md hover:shadow-xl dark:shadow-slate-950/20 transition-all duration-300 cursor-pointer group border border-transparent dark:border-slate-700/50 hover:border-primary/30 dark:hover:border-primary/40">
         <div className="flex items-center gap-4">
@@ -324,8 +308,39 @@ const PatientCard: React.FC<{ patient: Patient, onSelect: () => void }> = ({ pat
     </div>
 );
 
-const DashboardView: React.FC<{ patients: Patient[], onSelectPatient: (id: string) => void, onAddPatient: (data: Omit<Patient, 'id' | 'lesionImages'>) => void }> = ({ patients, onSelectPatient, onAddPatient }) => {
+const TriageWorklist: React.FC<{ patients: Patient[], onSelectPatient: (id: string) => void }> = ({ patients, onSelectPatient }) => {
+    const worklist = useMemo(() => buildWorklist(patients), [patients]);
+    if (worklist.length === 0) return null;
+
+    return (
+        <div className="mb-10 bg-surface dark:bg-slate-800 rounded-2xl shadow-md p-6 border border-border/60 dark:border-slate-700/60">
+            <h2 className="text-xl font-bold text-text-primary dark:text-slate-100">Triage Worklist</h2>
+            <p className="text-sm text-text-secondary dark:text-slate-400 mt-1 mb-4">Patients ordered by their highest unreviewed AI urgency.</p>
+            <ul className="divide-y divide-border dark:divide-slate-700">
+                {worklist.map(({ patient, urgency, awaitingReview }) => (
+                    <li key={patient.id} onClick={() => onSelectPatient(patient.id)} className="py-3 flex items-center gap-4 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-900/40 rounded-lg px-2 transition-colors">
+                        <div className="w-24 flex-shrink-0">
+                            {urgency ? <UrgencyBadge tier={urgency.tier} /> : <span className="text-xs text-text-secondary dark:text-slate-500 font-medium">Not scanned</span>}
+                        </div>
+                        <div className="min-w-0 flex-grow">
+                            <p className="font-semibold text-text-primary dark:text-slate-100">{patient.name}</p>
+                            {urgency && <p className="text-xs text-text-secondary dark:text-slate-400 truncate">{urgency.reason}</p>}
+                        </div>
+                        {awaitingReview.length > 0 && (
+                            <span className="flex-shrink-0 px-2.5 py-1 text-xs font-semibold rounded-full bg-amber-500/10 text-amber-700 dark:text-amber-400">
+                                {awaitingReview.length} patient upload{awaitingReview.length === 1 ? '' : 's'} awaiting review
+                            </span>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+const DashboardView: React.FC<{ patients: Patient[], onSelectPatient: (id: string) => void, onAddPatient: (data: Omit<Patient, 'id' | 'lesionImages'>) => void, onOpenAudit: () => void }> = ({ patients, onSelectPatient, onAddPatient, onOpenAudit }) => {
     const [showModal, setShowModal] = useState(false);
+    const [showPractitionerModal, setShowPractitionerModal] = useState(false);
     const handleSavePatient = (data: Omit<Patient, 'id' | 'lesionImages'>) => {
         onAddPatient(data);
         setShowModal(false);
@@ -334,15 +349,25 @@ const DashboardView: React.FC<{ patients: Patient[], onSelectPatient: (id: strin
     return (
         <div className="animate-fade-in">
             {showModal && <AddPatientModal onSave={handleSavePatient} onClose={() => setShowModal(false)} />}
+            {showPractitionerModal && <AddPractitionerModal onClose={() => setShowPractitionerModal(false)} />}
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
                 <div>
                     <h1 className="text-4xl font-extrabold text-text-primary dark:text-slate-100 tracking-tight">Patient Dashboard</h1>
                     <p className="text-text-secondary dark:text-slate-400 mt-1">Manage and track all your patient clinical files.</p>
                 </div>
-                <button onClick={() => setShowModal(true)} className="inline-flex items-center justify-center px-5 py-2.5 border border-transparent text-sm font-semibold rounded-lg shadow-sm text-white bg-primary hover:bg-primary-hover transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary shadow-primary/20">
-                    <AddUserIcon /> Add New Patient
-                </button>
+                <div className="flex gap-3">
+                    <button onClick={onOpenAudit} className="inline-flex items-center justify-center px-5 py-2.5 border border-border dark:border-slate-700 text-sm font-semibold rounded-lg text-text-primary dark:text-slate-200 bg-surface dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors focus:outline-none">
+                        Audit Trail
+                    </button>
+                    <button onClick={() => setShowPractitionerModal(true)} className="inline-flex items-center justify-center px-5 py-2.5 border border-border dark:border-slate-700 text-sm font-semibold rounded-lg text-text-primary dark:text-slate-200 bg-surface dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors focus:outline-none">
+                        Add Practitioner
+                    </button>
+                    <button onClick={() => setShowModal(true)} className="inline-flex items-center justify-center px-5 py-2.5 border border-transparent text-sm font-semibold rounded-lg shadow-sm text-white bg-primary hover:bg-primary-hover transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary shadow-primary/20">
+                        <AddUserIcon /> Add New Patient
+                    </button>
+                </div>
             </div>
+            <TriageWorklist patients={patients} onSelectPatient={onSelectPatient} />
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
                 {patients.map(p => <PatientCard key={p.id} patient={p} onSelect={() => onSelectPatient(p.id)} />)}
             </div>
@@ -352,7 +377,14 @@ const DashboardView: React.FC<{ patients: Patient[], onSelectPatient: (id: strin
 
 const ComparisonResultCard: React.FC<{ result: ComparisonResult }> = ({ result }) => (
     <div className="bg-surface dark:bg-slate-800 rounded-2xl shadow-lg p-6 md:p-8 mt-6 animate-fade-in border border-border/60 dark:border-slate-700/60">
-        <h3 className="text-xl font-bold text-text-primary dark:text-slate-100 mb-6">Comparison Analysis</h3>
+        <div className="flex items-center justify-between gap-4 mb-6">
+            <h3 className="text-xl font-bold text-text-primary dark:text-slate-100">Comparison Analysis</h3>
+            {result.urgency && <UrgencyBadge tier={result.urgency.tier} />}
+        </div>
+        {result.urgency && <p className="-mt-4 mb-6 text-sm text-text-secondary dark:text-slate-300">{result.urgency.reason}</p>}
+        {result.elapsedDays !== undefined && (
+            <p className="-mt-4 mb-6 text-xs font-mono text-text-secondary dark:text-slate-400">Interval between captures: {result.elapsedDays} day{result.elapsedDays === 1 ? '' : 's'}</p>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
                 <h4 className="font-semibold text-text-secondary dark:text-slate-400 text-sm uppercase tracking-wider">Updated Assessment</h4>
@@ -368,6 +400,19 @@ const ComparisonResultCard: React.FC<{ result: ComparisonResult }> = ({ result }
                 <h4 className="font-semibold text-text-primary dark:text-slate-100">Change Summary</h4>
                 <p className="text-text-secondary dark:text-slate-300 bg-slate-50 dark:bg-slate-900/60 p-3 rounded-lg mt-1">{result.changeSummary}</p>
             </div>
+            {result.regionComparisons && result.regionComparisons.length > 0 && (
+                <div>
+                    <h4 className="font-semibold text-text-primary dark:text-slate-100">Marked Regions</h4>
+                    <ul className="space-y-2 mt-2">
+                        {result.regionComparisons.map((region, index) => (
+                            <li key={index} className="p-3 rounded-lg bg-indigo-50/50 dark:bg-indigo-950/15 border border-indigo-100/50 dark:border-indigo-900/30 text-sm">
+                                <span className="font-semibold text-indigo-700 dark:text-indigo-300">{region.region}:</span>{' '}
+                                <span className="text-text-secondary dark:text-slate-300">{region.change}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
             <div>
                 <h4 className="font-semibold text-text-primary dark:text-slate-100">Key Observations</h4>
                  <ul className="space-y-2 mt-2">
@@ -384,6 +429,7 @@ const ComparisonResultCard: React.FC<{ result: ComparisonResult }> = ({ result }
                 <p className="text-text-secondary dark:text-slate-300 mt-1">{result.recommendation}</p>
             </div>
         </div>
+        <ProvenanceDetails provenance={result.provenance} />
     </div>
 );
 
@@ -438,38 +484,78 @@ const AnalysisDetailModal: React.FC<{
   patient?: Patient,
   onUpdatePatient?: (updated: Patient) => void
 }> = ({ image, onClose, role = 'practitioner', patient, onUpdatePatient }) => {
-    const [isScanning, setIsScanning] = useState(false);
-    const [scanError, setScanError] = useState<string | null>(null);
+    const { locale } = useI18n();
+    const canScan = role === 'practitioner' && !!patient;
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    // A job queued before a reload or dropped connection is resumed from the image record
+    const [scanJobId, setScanJobId] = useState<string | null>(canScan ? image.analysisJobId ?? null : null);
+    const [scanError, setScanError] = useState<FailedAction | null>(null);
+    const [bypassCache, setBypassCache] = useState(false);
+    const [isReviewing, setIsReviewing] = useState(false);
+    // Live progress of the scan job, read from the job while it is polled
+    const [scanStage, setScanStage] = useState<AnalysisStage | null>(null);
+    const [scanDraft, setScanDraft] = useState('');
     const [, setTriggerUpdate] = useState(0);
+    const isScanning = isSubmitting || !!scanJobId;
+    // Earlier capture the ABCDE Evolution score was measured against
+    const evolutionBaseline = patient?.lesionImages.find(img => img.id === image.analysisResult?.abcde?.evolution.comparedTo?.imageId);
+
+    useEffect(() => {
+        if (!scanJobId || !patient) return;
+        const controller = new AbortController();
+        waitForJob(scanJobId, controller.signal, job => {
+            setScanStage(job.stage ?? null);
+            setScanDraft(job.partialText ?? '');
+        })
+            .then(async job => {
+                // Populate the result immediately on the image model
+                image.analysisResult = job.result as AnalysisResult;
+                delete image.reviewedAt;
+                // Trigger local re-render to update the view instantly
+                setTriggerUpdate(prev => prev + 1);
+                onUpdatePatient?.(await fetchPatient(patient.id));
+            })
+            .catch((err: any) => {
+                if (err.name === 'AbortError') return;
+                setScanError({ error: err, retry: handleRunAIScan });
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setScanJobId(null);
+            });
+        return () => controller.abort();
+    }, [scanJobId]);
+
+    const handleMarkReviewed = async () => {
+        if (!patient) return;
+        setIsReviewing(true);
+        setScanError(null);
+        try {
+            onUpdatePatient?.(await reviewLesionImage(patient.id, image.id));
+            image.reviewedAt = new Date().toISOString();
+        } catch (err: any) {
+            setScanError({ error: err, retry: handleMarkReviewed });
+        } finally {
+            setIsReviewing(false);
+        }
+    };
 
     const handleRunAIScan = async () => {
-        setIsScanning(true);
+        if (!patient) return;
+        setIsSubmitting(true);
         setScanError(null);
+        setScanStage(null);
+        setScanDraft('');
         try {
-            // Run clinician-only AI analysis
-            const result = await analyzeSkinCondition(
-                image.imageDataUrl,
-                image.boundingBox,
-                image.pins,
-                image.practitionerNotes
-            );
-
-            // Populate the result immediately on the image model
-            image.analysisResult = result;
-
-            if (patient && onUpdatePatient) {
-                const updatedImages = patient.lesionImages.map(img => img.id === image.id ? { ...image, analysisResult: result } : img);
-                onUpdatePatient({
-                    ...patient,
-                    lesionImages: updatedImages
-                });
-            }
-            // Trigger local re-render to update the view instantly
-            setTriggerUpdate(prev => prev + 1);
+            // Queue clinician-only AI analysis; the server writes the result onto the stored image, and the job
+            // reports its stages and the description as the model writes it
+            const { job, patient: updated } = await submitAnalysisJob(patient.id, image.id, { bypassCache, locale });
+            onUpdatePatient?.(updated);
+            setScanStage(job.stage ?? null);
+            setScanJobId(job.id);
         } catch (err: any) {
-            setScanError(err.message || 'Dermoscopic scan evaluation failed. Please verify API configurations.');
+            setScanError({ error: err, retry: handleRunAIScan });
         } finally {
-            setIsScanning(false);
+            setIsSubmitting(false);
         }
     };
 
@@ -486,6 +572,16 @@ const AnalysisDetailModal: React.FC<{
                         <p className="text-center text-xs text-text-secondary dark:text-slate-400 mt-2.5 font-mono">
                           Scan date: {image.timestamp.toLocaleString()}
                         </p>
+
+                        {evolutionBaseline && (
+                          <div className="w-full mt-4 p-3.5 bg-[#fbfcfe] dark:bg-slate-950/60 rounded-xl border border-border/50 dark:border-slate-800 text-left flex items-center gap-3">
+                            <img src={evolutionBaseline.imageDataUrl} className="w-14 h-14 object-cover rounded-lg border dark:border-slate-700" alt="Evolution baseline capture" />
+                            <div>
+                              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider font-mono">Evolution Baseline:</h4>
+                              <p className="text-xs text-text-primary dark:text-slate-300 mt-1">{evolutionBaseline.timestamp.toLocaleString()}</p>
+                            </div>
+                          </div>
+                        )}
                         
                         {image.pins && image.pins.length > 0 && (
                           <div className="w-full mt-4 p-3.5 bg-[#fbfcfe] dark:bg-slate-950/60 rounded-xl border border-border/50 dark:border-slate-800 text-left">
@@ -516,8 +612,34 @@ const AnalysisDetailModal: React.FC<{
                         )}
                     </div>
                     <div>
+                        {canScan && (image.analysisResult || image.uploadedBy === 'patient') && (
+                          <div className="mb-4 flex items-center justify-between gap-3 p-3.5 rounded-xl border border-border/60 dark:border-slate-800 bg-[#fbfcfe] dark:bg-slate-950/60">
+                            {image.reviewedAt ? (
+                              <p className="text-xs text-text-secondary dark:text-slate-400">Reviewed {new Date(image.reviewedAt).toLocaleString()}</p>
+                            ) : (
+                              <>
+                                <p className="text-xs text-text-secondary dark:text-slate-400">This scan is on the triage worklist until reviewed.</p>
+                                <button
+                                  onClick={handleMarkReviewed}
+                                  disabled={isReviewing || isScanning}
+                                  className="flex-shrink-0 px-3 py-1.5 text-xs font-semibold rounded-lg text-white bg-primary hover:bg-primary-hover disabled:opacity-50 transition-colors"
+                                >
+                                  {isReviewing ? 'Saving...' : 'Mark Reviewed'}
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        )}
+                        {scanError && image.analysisResult && (
+                          <div className="mb-4">
+                            <ErrorNotice error={scanError.error} onRetry={scanError.retry} onDismiss={() => setScanError(null)} />
+                          </div>
+                        )}
                         {image.analysisResult ? (
-                          <ResultCard result={image.analysisResult} />
+                          <>
+                            {patient ? <TranslatedResult patientId={patient.id} image={{ ...image, analysisResult: image.analysisResult }} role={role} /> : <ResultCard result={image.analysisResult} role={role} />}
+                            <ProvenanceDetails provenance={image.analysisResult.provenance} />
+                          </>
                         ) : (
                           <div className="bg-[#fafbfc] dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl p-6 text-center space-y-6">
                             <div className="mx-auto h-14 w-14 rounded-full bg-indigo-500/10 text-indigo-500 dark:text-indigo-400 flex items-center justify-center">
@@ -558,13 +680,25 @@ const AnalysisDetailModal: React.FC<{
                                     </>
                                   )}
                                 </button>
+                                <label className="mt-3 inline-flex items-center gap-2 text-xs text-text-secondary dark:text-slate-400 cursor-pointer">
+                                  <input
+                                    type="checkbox"
+                                    checked={bypassCache}
+                                    onChange={e => setBypassCache(e.target.checked)}
+                                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                                  />
+                                  Request a fresh analysis instead of a cached result
+                                </label>
+                                {isScanning && (
+                                  <div className="mt-4">
+                                    <AnalysisProgress stage={scanStage} partialText={scanDraft} />
+                                  </div>
+                                )}
                               </div>
                             )}
 
                             {scanError && (
-                              <div className="p-4 text-xs font-semibold rounded-xl bg-rose-50 dark:bg-rose-950/20 border border-rose-200 dark:border-rose-900 text-rose-600 dark:text-rose-400 text-center">
-                                {scanError}
-                              </div>
+                              <ErrorNotice error={scanError.error} onRetry={isSubmitting ? undefined : scanError.retry} onDismiss={() => setScanError(null)} />
                             )}
                           </div>
                         )}
@@ -589,18 +723,36 @@ const getConfidenceClasses = (confidence: string): { bg: string, text: string, b
 }
 
 const PatientDetailView: React.FC<{ patient: Patient, onBack: () => void, onUpdatePatient: (p: Patient) => void, onViewImageDetails: (img: LesionImage) => void }> = ({ patient, onBack, onUpdatePatient, onViewImageDetails }) => {
+    const { locale } = useI18n();
     const [isUploading, setIsUploading] = useState(false);
-    const [error, setError] = useState<string|null>(null);
+    // Latest polled copy of each active scan job, for its live stage and partial description
+    const [jobProgress, setJobProgress] = useState<Record<string, AnalysisJob>>({});
+    const [error, setError] = useState<FailedAction|null>(null);
+    // The stored copy of the annotated upload, so a failed analysis can be retried without uploading it again
+    const [storedUpload, setStoredUpload] = useState<Patient|null>(null);
     const [compareId1, setCompareId1] = useState<string|null>(null);
     const [compareId2, setCompareId2] = useState<string|null>(null);
-    const [isComparing, setIsComparing] = useState(false);
+    const [comparisonJobId, setComparisonJobId] = useState<string|null>(null);
+    const [isSubmittingComparison, setIsSubmittingComparison] = useState(false);
     const [comparisonResult, setComparisonResult] = useState<ComparisonResult|null>(null);
+    const isComparing = isSubmittingComparison || !!comparisonJobId;
+
+    // Multi-timepoint series comparison states
+    const [seriesIds, setSeriesIds] = useState<string[]>([]);
+    const [seriesJobId, setSeriesJobId] = useState<string|null>(null);
+    const [isSubmittingSeries, setIsSubmittingSeries] = useState(false);
+    const [seriesResult, setSeriesResult] = useState<SeriesComparisonResult|null>(null);
+    const isAnalyzingSeries = isSubmittingSeries || !!seriesJobId;
 
     // Interactive canvas image states
     const [selectedFile, setSelectedFile] = useState<File | null>(null);
     const [filePreview, setFilePreview] = useState<string | null>(null);
     const [isAnnotating, setIsAnnotating] = useState(false);
 
+    // Multi-photo batch analysis states
+    const [batchCount, setBatchCount] = useState(0);
+    const [batchItems, setBatchItems] = useState<BatchAnalysisItem[] | null>(null);
+
     // Chat reply state 
     const [replyText, setReplyText] = useState('');
 
@@ -609,7 +761,90 @@ const PatientDetailView: React.FC<{ patient: Patient, onBack: () => void, onUpda
         const dataUrl = await fileToDataUrl(file);
         setFilePreview(dataUrl);
         setIsAnnotating(true);
+        setStoredUpload(null);
+        setError(null);
+    };
+
+    // Poll every image with a queued or running analysis; this also resumes scans after a reload
+    const pendingJobIds = patient.lesionImages.map(img => img.analysisJobId).filter(Boolean).join(',');
+    useEffect(() => {
+        if (!pendingJobIds) return;
+        const controller = new AbortController();
+        const trackProgress = (job: AnalysisJob) => setJobProgress(prev => ({ ...prev, [job.id]: job }));
+        Promise.allSettled(pendingJobIds.split(',').map(jobId => waitForJob(jobId, controller.signal, trackProgress)))
+            .then(async outcomes => {
+                if (controller.signal.aborted) return;
+                const failure = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+                if (failure) setError({ error: failure.reason });
+                onUpdatePatient(await fetchPatient(patient.id));
+            })
+            .catch(err => setError({ error: err }));
+        return () => controller.abort();
+    }, [pendingJobIds, patient.id]);
+
+    // Resume comparisons that were still running when the page was last closed
+    useEffect(() => {
+        let cancelled = false;
+        fetchActiveJobs(patient.id)
+            .then(jobs => {
+                if (cancelled) return;
+                const job = jobs.find(j => j.kind === 'comparison');
+                if (job) {
+                    setCompareId1(job.imageIds[0]);
+                    setCompareId2(job.imageIds[1]);
+                    setComparisonJobId(job.id);
+                }
+                const seriesJob = jobs.find(j => j.kind === 'series');
+                if (seriesJob) {
+                    setSeriesIds(seriesJob.imageIds);
+                    setSeriesJobId(seriesJob.id);
+                }
+            })
+            .catch(() => undefined);
+        return () => { cancelled = true; };
+    }, [patient.id]);
+
+    useEffect(() => {
+        if (!comparisonJobId) return;
+        const controller = new AbortController();
+        waitForJob(comparisonJobId, controller.signal)
+            .then(job => setComparisonResult(job.result as ComparisonResult))
+            .catch(err => {
+                if (err.name !== 'AbortError') setError({ error: err, retry: handleCompare });
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setComparisonJobId(null);
+            });
+        return () => controller.abort();
+    }, [comparisonJobId]);
+
+    useEffect(() => {
+        if (!seriesJobId) return;
+        const controller = new AbortController();
+        waitForJob(seriesJobId, controller.signal)
+            .then(job => setSeriesResult(job.result as SeriesComparisonResult))
+            .catch(err => {
+                if (err.name !== 'AbortError') setError({ error: err, retry: handleAnalyzeSeries });
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setSeriesJobId(null);
+            });
+        return () => controller.abort();
+    }, [seriesJobId]);
+
+    const handleBatchSelect = async (files: File[]) => {
+        setBatchCount(files.length);
+        setBatchItems(null);
         setError(null);
+        try {
+            const { items, patient: updatedPatient } = await analyzeSkinConditionBatch(files.map(file => ({ file })), { patientId: patient.id, locale });
+            if (updatedPatient) onUpdatePatient(updatedPatient);
+            setBatchItems(items);
+        } catch (err) {
+            setError({ error: err, retry: () => handleBatchSelect(files) });
+        } finally {
+            setBatchCount(0);
+        }
     };
 
     const handleAnnotatedConfirm = async (annoData: any) => {
@@ -617,49 +852,51 @@ const PatientDetailView: React.FC<{ patient: Patient, onBack: () => void, onUpda
         setIsUploading(true);
         setError(null);
         try {
-            const analysisResult = await analyzeSkinCondition(
-                selectedFile,
-                annoData.boundingBox,
-                annoData.pins,
-                annoData.practitionerNotes
-            );
-            const dataUrl = filePreview || (await fileToDataUrl(selectedFile));
-            const newLesionImage: LesionImage = {
-                id: `img_${Date.now()}`,
-                file: selectedFile,
-                imageDataUrl: dataUrl,
-                timestamp: new Date(),
-                analysisResult,
-                boundingBox: annoData.boundingBox,
-                pins: annoData.pins,
-                practitionerNotes: annoData.practitionerNotes
-            };
-            const updatedPatient = { ...patient, lesionImages: [newLesionImage, ...patient.lesionImages]};
+            // Store the image first (the server normalizes it), then queue its analysis; the job keeps running
+            // if the connection drops, and the capture history shows its progress
+            let withImage = storedUpload;
+            if (!withImage) {
+                withImage = await addLesionImage(patient.id, selectedFile, {
+                    analysisResult: null,
+                    boundingBox: annoData.boundingBox,
+                    pins: annoData.pins,
+                    practitionerNotes: annoData.practitionerNotes
+                });
+                setStoredUpload(withImage);
+                onUpdatePatient(withImage);
+            }
+            const { patient: updatedPatient } = await submitAnalysisJob(patient.id, withImage.lesionImages[0].id, { locale });
             onUpdatePatient(updatedPatient);
             setIsAnnotating(false);
             setSelectedFile(null);
             setFilePreview(null);
+            setStoredUpload(null);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+            setError({ error: err, retry: () => handleAnnotatedConfirm(annoData) });
         } finally {
             setIsUploading(false);
         }
     };
 
-    const handleSendReply = () => {
+    const handleSendReply = async () => {
         if (!replyText.trim()) return;
-        const newMsg: PatientMessage = {
-            id: `m_${Date.now()}`,
+        const newMsg: Omit<PatientMessage, 'id'> = {
             sender: 'doctor',
             text: replyText.trim(),
             timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
         };
-        const updatedPatient = {
-            ...patient,
-            messages: [...(patient.messages || []), newMsg]
-        };
-        onUpdatePatient(updatedPatient);
-        setReplyText('');
+        try {
+            onUpdatePatient(await addMessage(patient.id, newMsg));
+            setReplyText('');
+        } catch (err) {
+            setError({ error: err, retry: handleSendReply });
+        }
+    };
+
+    const handleExportPDF = async () => {
+        await exportPatientPDF(patient);
+        // The PDF is built in the browser, so report the export for the audit trail
+        recordPatientExport(patient.id).catch(err => console.error('Failed to record the report export:', err));
     };
 
     const handleCompare = async () => {
@@ -668,22 +905,38 @@ const PatientDetailView: React.FC<{ patient: Patient, onBack: () => void, onUpda
         const image2 = patient.lesionImages.find(img => img.id === compareId2);
         if (!image1 || !image2) return;
         
-        setIsComparing(true);
+        setIsSubmittingComparison(true);
         setComparisonResult(null);
         setError(null);
         try {
-            const file1 = image1.file || (await dataUrlToFile(image1.imageDataUrl, `img1_${image1.id}`));
-            const file2 = image2.file || (await dataUrlToFile(image2.imageDataUrl, `img2_${image2.id}`));
-
-            const result = await compareLesions(file1, file2);
-            setComparisonResult(result);
+            const job = await submitComparisonJob(patient.id, [image1.id, image2.id], { locale });
+            setComparisonJobId(job.id);
         } catch(err) {
-             setError(err instanceof Error ? err.message : 'An unknown error occurred during comparison.');
+             setError({ error: err, retry: handleCompare });
         } finally {
-            setIsComparing(false);
+            setIsSubmittingComparison(false);
         }
     };
     
+    const toggleSeriesImage = (imageId: string) => {
+        setSeriesIds(ids => ids.includes(imageId) ? ids.filter(id => id !== imageId) : [...ids, imageId]);
+    };
+
+    const handleAnalyzeSeries = async () => {
+        if (seriesIds.length < 2) return;
+        setIsSubmittingSeries(true);
+        setSeriesResult(null);
+        setError(null);
+        try {
+            const job = await submitSeriesJob(patient.id, seriesIds, { locale });
+            setSeriesJobId(job.id);
+        } catch (err) {
+            setError({ error: err, retry: handleAnalyzeSeries });
+        } finally {
+            setIsSubmittingSeries(false);
+        }
+    };
+
     const compareImg1 = useMemo(() => patient.lesionImages.find(i => i.id === compareId1), [compareId1, patient.lesionImages]);
     const compareImg2 = useMemo(() => patient.lesionImages.find(i => i.id === compareId2), [compareId2, patient.lesionImages]);
     
@@ -702,7 +955,7 @@ const PatientDetailView: React.FC<{ patient: Patient, onBack: () => void, onUpda
                     <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4 pb-4 border-b border-border/60 dark:border-slate-700/65">
                         <h2 className="text-xl font-bold text-text-primary dark:text-slate-100">Patient Profile Details</h2>
                         <button 
-                            onClick={() => exportPatientPDF(patient)}
+                            onClick={handleExportPDF}
                             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-semibold rounded-lg shadow-sm text-white bg-primary hover:bg-primary-hover focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-all duration-200"
                         >
                             <DownloadIcon /> Export Clinical Report PDF
@@ -737,22 +990,49 @@ const PatientDetailView: React.FC<{ patient: Patient, onBack: () => void, onUpda
                                             setSelectedFile(null);
                                             setFilePreview(null);
                                             setIsAnnotating(false);
+                                            setStoredUpload(null);
                                         }}
                                         isProcessing={isUploading}
                                     />
                                     {isUploading && (
                                         <div className="text-center py-4 space-y-2">
                                             <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500" />
-                                            <p className="text-sm text-indigo-500 animate-pulse font-mono uppercase tracking-wider font-semibold">Running precision micro-analysis...</p>
+                                            <p className="text-sm text-indigo-500 animate-pulse font-mono uppercase tracking-wider font-semibold">Uploading and queuing analysis...</p>
                                         </div>
                                     )}
                                 </div>
+                            ) : batchCount > 0 ? (
+                                <div className="text-center py-10 space-y-2">
+                                    <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500" />
+                                    <p className="text-sm text-indigo-500 animate-pulse font-mono uppercase tracking-wider font-semibold">Analyzing {batchCount} photos...</p>
+                                </div>
                             ) : (
-                                <ImageUploader onImageUpload={handleImageSelect} imageDataUrl={null} />
+                                <ImageUploader onImageUpload={handleImageSelect} onMultipleImagesUpload={handleBatchSelect} imageDataUrl={null} />
+                            )}
+
+                            {batchItems && (
+                                <div className="mt-4 p-4 rounded-xl border border-border dark:border-slate-700/60 bg-[#fbfcfe] dark:bg-slate-900/60 text-sm animate-fade-in">
+                                    <div className="flex justify-between items-center">
+                                        <p className="font-semibold text-text-primary dark:text-slate-100">
+                                            Batch complete: {batchItems.filter(item => item.status === 'succeeded').length} of {batchItems.length} photos analyzed
+                                        </p>
+                                        <button onClick={() => setBatchItems(null)} className="text-text-secondary dark:text-slate-400 hover:text-text-primary dark:hover:text-white text-xs font-semibold">Dismiss</button>
+                                    </div>
+                                    {batchItems.some(item => item.status === 'failed') && (
+                                        <ul className="mt-2 space-y-1 text-xs text-danger-text dark:text-rose-450">
+                                            {batchItems.filter(item => item.status === 'failed').map(item => (
+                                                <li key={item.index}>
+                                                    <span className="font-semibold">{item.fileName}:</span> {item.error?.message}
+                                                    {item.imageId && ' (photo saved; run the scan again from its details)'}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
                             )}
                         </div>
                         
-                        {error && <div className="text-center text-danger-text dark:text-rose-450 bg-danger-light dark:bg-rose-950/40 p-3 rounded-lg border dark:border-rose-900 font-semibold text-xs"><p>{error}</p></div>}
+                        {error && <ErrorNotice error={error.error} onRetry={isUploading || isComparing ? undefined : error.retry} onDismiss={() => setError(null)} />}
                         
                         {/* Image History */}
                         <div className="bg-surface dark:bg-slate-800 p-6 rounded-2xl shadow-lg border border-border/40 dark:border-slate-700/40">
@@ -761,12 +1041,18 @@ const PatientDetailView: React.FC<{ patient: Patient, onBack: () => void, onUpda
                                 {patient.lesionImages.length === 0 && <p className="text-text-secondary dark:text-slate-400 text-center py-8">No visual progression files logged for this archive.</p>}
                                 {patient.lesionImages.map(img => {
                                     const confidenceClasses = getConfidenceClasses(img.analysisResult?.confidence || '');
+                                    const progress = img.analysisJobId ? jobProgress[img.analysisJobId] : undefined;
                                     return (
                                         <div key={img.id} onClick={() => onViewImageDetails(img)} className="flex items-center gap-4 p-4 rounded-xl hover:bg-[#eaf0f6]/40 dark:hover:bg-slate-700/40 border border-border dark:border-slate-700/60 cursor-pointer transition-all duration-200 animate-fade-in">
                                             <img src={img.imageDataUrl} className="w-20 h-20 object-cover rounded-lg flex-shrink-0 bg-slate-100 dark:bg-slate-900 border dark:border-slate-700" alt="Lesion thumbnail"/>
                                             <div className="flex-grow overflow-hidden">
-                                                <p className="font-bold text-text-primary dark:text-slate-100 truncate">{img.analysisResult?.conditionName || 'Analysis Pending'}</p>
+                                                <p className="font-bold text-text-primary dark:text-slate-100 truncate">{img.analysisResult?.conditionName || (img.analysisJobId ? 'AI Analysis Running...' : 'Analysis Pending')}</p>
                                                 <p className="text-xs text-text-secondary dark:text-slate-450">{img.timestamp.toLocaleString()}</p>
+                                                {progress?.stage && (
+                                                    <p className="text-xs text-indigo-600 dark:text-indigo-400 font-mono truncate animate-pulse">
+                                                        {stageLabel(progress.stage)}{progress.partialText ? `: ${progress.partialText}` : ''}
+                                                    </p>
+                                                )}
                                             </div>
                                             {img.analysisResult && (
                                                 <span className={`px-3 py-1 text-[10px] uppercase tracking-wide font-extrabold rounded-full whitespace-nowrap ${confidenceClasses.bg} ${confidenceClasses.text}`}>
@@ -803,12 +1089,12 @@ const PatientDetailView: React.FC<{ patient: Patient, onBack: () => void, onUpda
                                         <div className="grid grid-cols-2 gap-4">
                                             <div className="text-center">
                                                 <p className="font-semibold text-text-secondary dark:text-slate-400 mb-2">Image 1 (Before)</p>
-                                                <img src={compareImg1?.imageDataUrl} className="w-full rounded-lg shadow-md border dark:border-slate-700" alt="Comparison image 1" />
+                                                {compareImg1 && <AnnotationPreview image={compareImg1} />}
                                                 <p className="text-sm text-text-secondary dark:text-slate-400 mt-2">{compareImg1?.timestamp.toLocaleString()}</p>
                                             </div>
                                             <div className="text-center">
                                                 <p className="font-semibold text-text-secondary dark:text-slate-400 mb-2">Image 2 (After)</p>
-                                                <img src={compareImg2?.imageDataUrl} className="w-full rounded-lg shadow-md border dark:border-slate-700" alt="Comparison image 2" />
+                                                {compareImg2 && <AnnotationPreview image={compareImg2} />}
                                                 <p className="text-sm text-text-secondary dark:text-slate-400 mt-2">{compareImg2?.timestamp.toLocaleString()}</p>
                                             </div>
                                         </div>
@@ -818,6 +1104,35 @@ const PatientDetailView: React.FC<{ patient: Patient, onBack: () => void, onUpda
                              </div>
                         )}
 
+                        {/* Series Progression */}
+                        {patient.lesionImages.length >= 2 && (
+                            <div className="bg-surface dark:bg-slate-800 p-6 md:p-8 rounded-2xl shadow-lg border border-border/40 dark:border-slate-700/40">
+                                <h2 className="text-xl font-bold text-text-primary dark:text-slate-100 mb-1 font-display">Series Progression Timeline</h2>
+                                <p className="text-xs text-text-secondary dark:text-slate-400 mb-5">Select every capture to follow; they are analyzed in capture order, oldest first.</p>
+                                <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+                                    {[...patient.lesionImages].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()).map(img => {
+                                        const selected = seriesIds.includes(img.id);
+                                        return (
+                                            <button
+                                                key={img.id}
+                                                onClick={() => toggleSeriesImage(img.id)}
+                                                disabled={isAnalyzingSeries}
+                                                className={`relative rounded-lg overflow-hidden border-2 transition-all ${selected ? 'border-primary ring-2 ring-primary/30' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                                            >
+                                                <img src={img.imageDataUrl} className="w-full aspect-square object-cover" alt="Series capture" />
+                                                <span className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-[10px] font-mono py-0.5">{img.timestamp.toLocaleDateString()}</span>
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                                <button onClick={handleAnalyzeSeries} disabled={seriesIds.length < 2 || isAnalyzingSeries} className="mt-5 w-full inline-flex items-center justify-center px-6 py-3 border border-transparent font-semibold rounded-lg shadow-sm text-white bg-primary hover:bg-primary-hover disabled:bg-slate-300 dark:disabled:bg-slate-700 transition-colors focus:outline-none">
+                                    {isAnalyzingSeries ? <Spinner/> : <><CompareIcon /> Analyze {seriesIds.length >= 2 ? `${seriesIds.length} Captures` : 'Series'}</>}
+                                </button>
+                                {isAnalyzingSeries && <p className="text-center mt-4 text-text-secondary dark:text-slate-300 animate-pulse">Following the lesion across {seriesIds.length} captures...</p>}
+                                {seriesResult && <SeriesTimeline result={seriesResult} images={patient.lesionImages} />}
+                            </div>
+                        )}
+
                     </div>
 
                     {/* RIGHT COLUMN SYSTEM: CLINICAL SYMPTOMS & CHAT (Spans 5) */}
@@ -917,12 +1232,14 @@ const PatientDetailView: React.FC<{ patient: Patient, onBack: () => void, onUpda
 
 
 const App: React.FC = () => {
-  const [currentUser, setCurrentUser] = useState<User | null>(() => loadState<User | null>('currentUser', null));
-  const [isLoggedIn, setIsLoggedIn] = useState<boolean>(() => !!loadState<User | null>('currentUser', null));
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [isLoggedIn, setIsLoggedIn] = useState<boolean>(false);
+  const [authChecked, setAuthChecked] = useState<boolean>(false);
   const [showAuthForm, setShowAuthForm] = useState<boolean>(false);
-  const [users, setUsers] = useState<User[]>(() => loadState<User[]>('users', []));
-  const [view, setView] = useState<'dashboard' | 'patientDetail'>('dashboard');
-  const [patients, setPatients] = useState<Patient[]>(() => loadState<Patient[]>('patients', initialPatients));
+  const [view, setView] = useState<'dashboard' | 'patientDetail' | 'audit'>('dashboard');
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [patientsLoaded, setPatientsLoaded] = useState(false);
+  const [registryError, setRegistryError] = useState<string | null>(null);
   const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
   const [viewingImage, setViewingImage] = useState<LesionImage | null>(null);
 
@@ -944,109 +1261,91 @@ const App: React.FC = () => {
     }
   }, [darkMode]);
 
-  // --- ENSURE DEFAULT USER EXISTS ---
-  useEffect(() => {
-    const defaultUserEmail = 'doctor@clinic.com';
-    const defaultPatientEmail = 'john@patient.com';
-    
-    setUsers(prevUsers => {
-      let updated = [...prevUsers];
-      const userExists = updated.some(user => user.email === defaultUserEmail);
-      if (!userExists) {
-        updated.push({
-          id: 'user_default_doctor',
-          name: 'Dr. Clinic',
-          email: defaultUserEmail,
-          password: '12345',
-          role: 'practitioner',
-        });
-      }
-      
-      const patientExists = updated.some(user => user.email === defaultPatientEmail);
-      if (!patientExists) {
-        updated.push({
-          id: 'user_default_patient',
-          name: 'John Doe',
-          email: defaultPatientEmail,
-          password: '12345',
-          role: 'patient',
-        });
-      }
-      return updated;
-    });
-  }, []); // Run only once on mount to seed the default user
+  // Interface and AI output language: the signed-in user's saved choice, else this device's
+  const [locale, setLocale] = useState<Locale>(detectLocale);
 
-  // --- PERSISTENCE EFFECTS ---
   useEffect(() => {
-      saveState('users', users);
-  }, [users]);
+    rememberLocale(locale);
+  }, [locale]);
 
-  useEffect(() => {
-      saveState('currentUser', currentUser);
+  const handleLocaleChange = useCallback(async (next: Locale) => {
+    setLocale(next);
+    if (!currentUser) return;
+    try {
+      setCurrentUser(await updatePreferences({ locale: next }));
+    } catch (err) {
+      console.warn('Could not save the language preference:', err);
+    }
   }, [currentUser]);
-  
+
+  // --- SESSION RESTORE ---
   useEffect(() => {
-      // Create a serializable version of patients by removing the 'file' property, which cannot be stringified
-      const serializablePatients = patients.map(p => ({
-          ...p,
-          lesionImages: p.lesionImages.map(({ file, ...rest }) => rest)
-      }));
-      saveState('patients', serializablePatients);
-  }, [patients]);
-  
+      fetchCurrentUser()
+          .then(user => {
+              if (user) {
+                  setCurrentUser(user);
+                  setIsLoggedIn(true);
+                  if (user.locale) setLocale(user.locale);
+              }
+          })
+          .catch(err => console.warn('Could not restore session:', err))
+          .finally(() => setAuthChecked(true));
+  }, []);
+
+  // --- PATIENT REGISTRY SYNC ---
   useEffect(() => {
-      if (isLoggedIn) {
-          localStorage.setItem('isLoggedIn', 'true');
-      } else {
-          localStorage.removeItem('isLoggedIn');
+      if (!isLoggedIn) {
+          setPatients([]);
+          setPatientsLoaded(false);
+          return;
       }
+      let cancelled = false;
+      fetchPatients()
+          .then(loaded => {
+              if (cancelled) return;
+              setPatients(loaded);
+              setRegistryError(null);
+          })
+          .catch(err => {
+              if (!cancelled) setRegistryError(err instanceof Error ? err.message : 'Failed to load patient records.');
+          })
+          .finally(() => {
+              if (!cancelled) setPatientsLoaded(true);
+          });
+      return () => { cancelled = true; };
   }, [isLoggedIn]);
-
+  
   // --- AUTH HANDLERS ---
   const handleLogin = async (email: string, password: string): Promise<string | null> => {
-    await new Promise(res => setTimeout(res, 500)); // Simulate network delay
-    const user = users.find(u => u.email === email && u.password === password);
-    if (user) {
+    try {
+        const user = await login(email, password);
         setCurrentUser(user);
         setIsLoggedIn(true);
+        if (user.locale) setLocale(user.locale);
         return null;
+    } catch (err) {
+        return err instanceof Error ? err.message : "Invalid credentials. Please try again.";
     }
-    return "Invalid credentials. Please try again.";
   };
   
-  const handleSignUp = async (name: string, email: string, password: string, role: 'practitioner' | 'patient', dob?: string): Promise<string | null> => {
-      await new Promise(res => setTimeout(res, 500)); // Simulate network delay
-      const userExists = users.find(u => u.email === email);
-      if (userExists) {
-          return "An account with this email already exists.";
-      }
-      const newUser: User = { id: `u${Date.now()}`, name, email, password, role };
-      setUsers(prev => [...prev, newUser]);
-
-      if (role === 'patient') {
-          const newPatient: Patient = {
-              id: `p${Date.now()}`,
-              patientId: `PA-${Math.floor(1000 + Math.random() * 9000)}`,
-              name,
-              dob: dob || new Date().toISOString().split('T')[0],
-              gender: 'Prefer not to say',
-              bloodType: 'O+',
-              existingConditions: 'None reported',
-              lesionImages: [],
-              email,
-              messages: [],
-              symptomLogs: [],
-              careTasks: []
-          };
-          setPatients(prev => [newPatient, ...prev]);
+  const handleSignUp = async (name: string, email: string, password: string, dob: string): Promise<string | null> => {
+      try {
+          // The server also creates and links the clinical file for the new patient account
+          // New accounts keep the language picked before signing up
+          setCurrentUser(await signUp(name, email, password, dob, locale));
+          setIsLoggedIn(true); // Auto-login on successful sign up
+          return null;
+      } catch (err) {
+          return err instanceof Error ? err.message : 'Account creation failed. Please try again.';
       }
-
-      setCurrentUser(newUser);
-      setIsLoggedIn(true); // Auto-login on successful sign up
-      return null;
   };
   
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+        await logout();
+    } catch (err) {
+        console.warn('Logout request failed:', err);
+    }
     setCurrentUser(null);
     setIsLoggedIn(false);
     setView('dashboard');
@@ -1055,9 +1354,14 @@ const App: React.FC = () => {
   }
 
   // --- PATIENT HANDLERS ---
-  const handleAddPatient = (patientData: Omit<Patient, 'id' | 'lesionImages'>) => {
-    const newPatient: Patient = { ...patientData, id: `p${Date.now()}`, lesionImages: [] };
-    setPatients(prev => [newPatient, ...prev]);
+  const handleAddPatient = async (patientData: Omit<Patient, 'id' | 'lesionImages'>) => {
+    try {
+      const newPatient = await createPatient(patientData);
+      setPatients(prev => [newPatient, ...prev]);
+      setRegistryError(null);
+    } catch (err) {
+      setRegistryError(err instanceof Error ? err.message : 'Failed to save the new patient.');
+    }
   };
 
   const handleSelectPatient = (id: string) => {
@@ -1084,7 +1388,9 @@ const App: React.FC = () => {
     
     switch (view) {
         case 'dashboard':
-            return <DashboardView patients={patients} onSelectPatient={handleSelectPatient} onAddPatient={handleAddPatient} />;
+            return <DashboardView patients={patients} onSelectPatient={handleSelectPatient} onAddPatient={handleAddPatient} onOpenAudit={() => setView('audit')} />;
+        case 'audit':
+            return <AuditLogView patients={patients} onBack={handleBackToDashboard} />;
         case 'patientDetail':
             if (selectedPatient) {
                 return <PatientDetailView patient={selectedPatient} onBack={handleBackToDashboard} onUpdatePatient={handleUpdatePatient} onViewImageDetails={setViewingImage} />;
@@ -1095,79 +1401,109 @@ const App: React.FC = () => {
     }
   };
 
+  if (!authChecked) {
+    return null;
+  }
+
   // --- MULTI-ROLE ROUTING SPLIT ---
-  if (!isLoggedIn || !currentUser) {
-    if (showAuthForm) {
-      return (
-        <div className="min-h-full flex flex-col bg-background dark:bg-[#0b0f19] text-text-primary dark:text-slate-100 transition-colors duration-300">
-          <header className="bg-surface dark:bg-slate-900 border-b border-border dark:border-slate-800 py-4 px-6 md:px-8 flex justify-between items-center shadow-sm transition-colors duration-300">
-            <button 
-              onClick={() => setShowAuthForm(false)}
-              className="flex items-center gap-2 text-sm font-semibold text-text-secondary dark:text-slate-300 hover:text-text-primary dark:hover:text-white transition-colors focus:outline-none"
-            >
-              <span className="bg-primary-light dark:bg-blue-950 p-1.5 rounded-lg text-primary text-xs">←</span>
-              <span>Back to Home</span>
-            </button>
-            <div className="flex items-center gap-4">
-              <button
-                  onClick={() => setDarkMode(!darkMode)}
-                  className="p-2 rounded-lg border border-border dark:border-slate-700 text-text-secondary dark:text-slate-400 bg-surface dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700/80 focus:outline-none transition-all duration-300"
-                  title={darkMode ? "Switch to Light Mode" : "Dark Mode"}
+  const renderPortal = () => {
+    if (!isLoggedIn || !currentUser) {
+      if (showAuthForm) {
+        return (
+          <div className="min-h-full flex flex-col bg-background dark:bg-[#0b0f19] text-text-primary dark:text-slate-100 transition-colors duration-300">
+            <header className="bg-surface dark:bg-slate-900 border-b border-border dark:border-slate-800 py-4 px-6 md:px-8 flex justify-between items-center shadow-sm transition-colors duration-300">
+              <button 
+                onClick={() => setShowAuthForm(false)}
+                className="flex items-center gap-2 text-sm font-semibold text-text-secondary dark:text-slate-300 hover:text-text-primary dark:hover:text-white transition-colors focus:outline-none"
               >
-                  {darkMode ? <Sun className="h-4 w-4 text-amber-400" /> : <Moon className="h-4 w-4 text-indigo-500" />}
+                <span className="bg-primary-light dark:bg-blue-950 p-1.5 rounded-lg text-primary text-xs">←</span>
+                <span>Back to Home</span>
               </button>
-              <span className="text-lg font-bold text-text-primary dark:text-slate-100 tracking-tight">DermDetect AI Portal</span>
+              <div className="flex items-center gap-4">
+                <LanguageSwitcher />
+                <button
+                    onClick={() => setDarkMode(!darkMode)}
+                    className="p-2 rounded-lg border border-border dark:border-slate-700 text-text-secondary dark:text-slate-400 bg-surface dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700/80 focus:outline-none transition-all duration-300"
+                    title={darkMode ? "Switch to Light Mode" : "Dark Mode"}
+                >
+                    {darkMode ? <Sun className="h-4 w-4 text-amber-400" /> : <Moon className="h-4 w-4 text-indigo-500" />}
+                </button>
+                <span className="text-lg font-bold text-text-primary dark:text-slate-100 tracking-tight">DermDetect AI Portal</span>
+              </div>
+            </header>
+            <div className="flex-grow flex items-center justify-center p-4">
+              <AuthView onLogin={handleLogin} onSignUp={handleSignUp} />
             </div>
-          </header>
-          <div className="flex-grow flex items-center justify-center p-4">
-            <AuthView onLogin={handleLogin} onSignUp={handleSignUp} />
           </div>
+        );
+      }
+      return <LandingPage onLoginClick={() => setShowAuthForm(true)} darkMode={darkMode} onToggleDarkMode={() => setDarkMode(!darkMode)} />;
+    }
+
+    if (!patientsLoaded) {
+      return (
+        <div className="min-h-full flex items-center justify-center bg-background dark:bg-[#0b0f19] text-text-secondary dark:text-slate-400 transition-colors duration-300">
+          <p className="animate-pulse font-mono text-sm uppercase tracking-wider">Loading clinical records...</p>
         </div>
       );
     }
-    return <LandingPage onLoginClick={() => setShowAuthForm(true)} darkMode={darkMode} onToggleDarkMode={() => setDarkMode(!darkMode)} />;
-  }
 
-  // --- RENDERING PATIENT PORTAL PORT ---
-  if (currentUser.role === 'patient') {
-    const patientProfile = patients.find(p => p.email === currentUser.email) || patients.find(p => p.name === currentUser.name) || patients[0];
+    // --- RENDERING PATIENT PORTAL PORT ---
+    if (currentUser.role === 'patient') {
+      const patientProfile = patients.find(p => p.id === currentUser.linkedPatientId) || patients.find(p => p.email === currentUser.email) || patients.find(p => p.name === currentUser.name) || patients[0];
+      if (!patientProfile) {
+        return (
+          <div className="min-h-full flex flex-col items-center justify-center gap-4 bg-background dark:bg-[#070a13] text-text-primary dark:text-slate-100 p-4 text-center">
+            <p className="text-sm text-danger-text">{registryError || 'No clinical file is linked to your account yet.'}</p>
+            <button onClick={handleLogout} className="px-4 py-2 rounded-lg text-white bg-primary hover:bg-primary-hover transition-colors">Sign Out</button>
+          </div>
+        );
+      }
+      return (
+        <div className="min-h-full flex flex-col bg-background dark:bg-[#070a13] text-text-primary dark:text-slate-100 transition-colors duration-300">
+           <PatientPortal 
+             patient={patientProfile}
+             onUpdatePatient={handleUpdatePatient}
+             onLogout={handleLogout}
+             darkMode={darkMode}
+             onToggleDarkMode={() => setDarkMode(!darkMode)}
+           />
+           {viewingImage && (
+             <AnalysisDetailModal 
+               image={viewingImage} 
+               onClose={() => setViewingImage(null)} 
+               role="patient" 
+             />
+           )}
+        </div>
+      );
+    }
+
+    // --- RENDERING PRACTITIONER PORT ---
     return (
-      <div className="min-h-full flex flex-col bg-background dark:bg-[#070a13] text-text-primary dark:text-slate-100 transition-colors duration-300">
-         <PatientPortal 
-           patient={patientProfile}
-           onUpdatePatient={handleUpdatePatient}
-           onLogout={handleLogout}
-           darkMode={darkMode}
-           onToggleDarkMode={() => setDarkMode(!darkMode)}
-         />
+      <div className="min-h-full flex flex-col bg-background dark:bg-[#0b0f19] text-text-primary dark:text-slate-100 transition-colors duration-300">
+        <Header isLoggedIn={isLoggedIn} onLogout={handleLogout} darkMode={darkMode} onToggleDarkMode={() => setDarkMode(!darkMode)} />
+        <main className="flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12">
+          {registryError && <div className="mb-6 text-center text-danger-text dark:text-rose-450 bg-danger-light dark:bg-rose-950/40 p-3 rounded-lg border dark:border-rose-900 font-semibold text-xs"><p>{registryError}</p></div>}
+          {renderContent()}
+        </main>
          {viewingImage && (
            <AnalysisDetailModal 
              image={viewingImage} 
              onClose={() => setViewingImage(null)} 
-             role="patient" 
+             role="practitioner" 
+             patient={selectedPatient || undefined} 
+             onUpdatePatient={handleUpdatePatient}
            />
          )}
       </div>
     );
-  }
+  };
 
-  // --- RENDERING PRACTITIONER PORT ---
   return (
-    <div className="min-h-full flex flex-col bg-background dark:bg-[#0b0f19] text-text-primary dark:text-slate-100 transition-colors duration-300">
-      <Header isLoggedIn={isLoggedIn} onLogout={handleLogout} darkMode={darkMode} onToggleDarkMode={() => setDarkMode(!darkMode)} />
-      <main className="flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12">
-        {renderContent()}
-      </main>
-       {viewingImage && (
-         <AnalysisDetailModal 
-           image={viewingImage} 
-           onClose={() => setViewingImage(null)} 
-           role="practitioner" 
-           patient={selectedPatient || undefined} 
-           onUpdatePatient={handleUpdatePatient}
-         />
-       )}
-    </div>
+    <I18nProvider locale={locale} onLocaleChange={handleLocaleChange}>
+      {renderPortal()}
+    </I18nProvider>
   );
 };
 
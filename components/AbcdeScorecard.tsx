@@ -0,0 +1,75 @@
+import React from 'react';
+import type { AbcdeAssessment, AbcdeCriterion } from '../types';
+import { useI18n, type MessageKey } from '../i18n/I18nProvider';
+
+interface AbcdeScorecardProps {
+  abcde: AbcdeAssessment;
+}
+
+// The letters are the mnemonic clinicians know, so they stay as-is in every language
+const CRITERIA: Array<{ key: keyof Omit<AbcdeAssessment, 'pigmentedLesion'>; letter: string; label: MessageKey }> = [
+    { key: 'asymmetry', letter: 'A', label: 'abcde.asymmetry' },
+    { key: 'border', letter: 'B', label: 'abcde.border' },
+    { key: 'color', letter: 'C', label: 'abcde.color' },
+    { key: 'diameter', letter: 'D', label: 'abcde.diameter' },
+    { key: 'evolution', letter: 'E', label: 'abcde.evolution' },
+];
+
+const SCORE_LABELS: MessageKey[] = ['abcde.score.0', 'abcde.score.1', 'abcde.score.2'];
+
+const getScoreClasses = (score: number | null): string => {
+    switch (score) {
+        case 0:
+            return 'bg-success-light dark:bg-emerald-950/40 text-success-text dark:text-emerald-400';
+        case 1:
+            return 'bg-warning-light dark:bg-amber-950/40 text-warning-text dark:text-amber-400';
+        case 2:
+            return 'bg-danger-light dark:bg-rose-950/40 text-danger-text dark:text-rose-400';
+        default:
+            return 'bg-slate-100 dark:bg-slate-800/80 text-slate-600 dark:text-slate-400';
+    }
+};
+
+/**
+ * ABCDE melanoma checklist laid out like the clinic's paper form: one row per criterion with its score and rationale
+ */
+export const AbcdeScorecard: React.FC<AbcdeScorecardProps> = ({ abcde }) => {
+  const { locale, t } = useI18n();
+  const scored = CRITERIA.map(({ key }) => abcde[key] as AbcdeCriterion).filter(criterion => criterion.score !== null);
+  const total = scored.reduce((sum, criterion) => sum + (criterion.score ?? 0), 0);
+  const comparedTo = abcde.evolution.comparedTo;
+
+  return (
+    <div>
+        <div className="flex items-baseline justify-between mb-3">
+            <h3 className="text-lg font-semibold text-text-primary dark:text-slate-100">{t('abcde.title')}</h3>
+            <span className="text-sm font-mono font-bold text-text-secondary dark:text-slate-400">{total} / {scored.length * 2}</span>
+        </div>
+        {!abcde.pigmentedLesion && (
+            <p className="mb-3 text-xs text-text-secondary dark:text-slate-400 italic">{t('abcde.notPigmented')}</p>
+        )}
+        <div className="divide-y divide-border/60 dark:divide-slate-700/60 rounded-xl border border-border/60 dark:border-slate-700/60 overflow-hidden">
+            {CRITERIA.map(({ key, letter, label }) => {
+                const criterion = abcde[key] as AbcdeCriterion;
+                return (
+                    <div key={key} className="flex items-start gap-3 p-3 bg-[#fbfcfe] dark:bg-slate-900/60">
+                        <span className="h-7 w-7 flex-shrink-0 rounded-lg bg-primary text-white font-extrabold flex items-center justify-center">{letter}</span>
+                        <div className="flex-grow">
+                            <div className="flex items-center justify-between gap-2">
+                                <p className="font-semibold text-text-primary dark:text-slate-100 text-sm">{t(label)}</p>
+                                <span className={`px-2.5 py-0.5 text-[10px] uppercase tracking-wide font-extrabold rounded-full whitespace-nowrap ${getScoreClasses(criterion.score)}`}>
+                                    {criterion.score === null ? t('abcde.notAssessable') : `${criterion.score} · ${t(SCORE_LABELS[criterion.score])}`}
+                                </span>
+                            </div>
+                            <p className="mt-1 text-xs text-text-secondary dark:text-slate-300 leading-relaxed">{criterion.rationale}</p>
+                            {key === 'evolution' && comparedTo && (
+                                <p className="mt-1 text-[10px] text-text-secondary dark:text-slate-500 font-mono">{t('abcde.baseline', { date: new Date(comparedTo.capturedAt).toLocaleString(locale) })}</p>
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
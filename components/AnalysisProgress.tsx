@@ -0,0 +1,53 @@
+import React from 'react';
+import type { AnalysisStage } from '../types';
+
+interface AnalysisProgressProps {
+  stage: AnalysisStage | null; // null until the server has received the upload
+  partialText?: string;
+}
+
+const STAGES: Array<{ stage: AnalysisStage; label: string }> = [
+  { stage: 'received', label: 'Upload received' },
+  { stage: 'preprocessing', label: 'Preparing image' },
+  { stage: 'model', label: 'AI model running' },
+  { stage: 'validating', label: 'Checking output' },
+  { stage: 'done', label: 'Done' },
+];
+
+export const stageLabel = (stage: AnalysisStage) => STAGES.find(step => step.stage === stage)?.label ?? stage;
+
+/**
+ * Live checklist of a streamed or queued analysis, with the description as the model writes it
+ */
+export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ stage, partialText }) => {
+  const current = stage ? STAGES.findIndex(step => step.stage === stage) : -1;
+
+  return (
+    <div className="text-left p-4 rounded-xl border border-indigo-100 dark:border-indigo-900/40 bg-indigo-50/40 dark:bg-indigo-950/20 animate-fade-in" aria-live="polite">
+        <ol className="space-y-1.5 text-xs font-mono">
+            {current === -1 && <li className="text-indigo-600 dark:text-indigo-400 animate-pulse">Uploading image...</li>}
+            {STAGES.map((step, index) => {
+                const complete = index < current || stage === 'done';
+                const active = index === current && !complete;
+                return (
+                    <li
+                        key={step.stage}
+                        className={complete
+                            ? 'text-success-text dark:text-emerald-400'
+                            : active
+                                ? 'text-indigo-600 dark:text-indigo-400 font-bold animate-pulse'
+                                : 'text-slate-400 dark:text-slate-600'}
+                    >
+                        {complete ? '✓' : active ? '›' : '·'} {step.label}
+                    </li>
+                );
+            })}
+        </ol>
+        {partialText && (
+            <p className="mt-3 text-xs text-text-secondary dark:text-slate-300 italic leading-relaxed border-t border-indigo-100 dark:border-indigo-900/40 pt-3">
+                {partialText}
+            </p>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import type { AuditAction, Patient } from '../types';
+import { auditExportUrl, fetchAuditLog, type AuditLogPage, type AuditQuery } from '../services/auditService';
+
+interface AuditLogViewProps {
+  patients: Patient[];
+  onBack: () => void;
+}
+
+const ACTIONS: AuditAction[] = ['view', 'upload', 'analyze', 'compare', 'message', 'export', 'edit'];
+
+const inputClass = 'px-3 py-2 text-sm border border-border dark:border-slate-700 bg-background dark:bg-slate-900 text-text-primary dark:text-slate-100 rounded-lg focus:ring-primary focus:border-primary transition-colors';
+
+/**
+ * Practitioner-only viewer for the server's append-only audit trail, with filters, an integrity check and export
+ */
+export const AuditLogView: React.FC<AuditLogViewProps> = ({ patients, onBack }) => {
+  const [query, setQuery] = useState<AuditQuery>({});
+  const [page, setPage] = useState<AuditLogPage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchAuditLog(query)
+        .then(result => { if (!cancelled) setPage(result); })
+        .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the audit log.'); })
+        .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [query]);
+
+  const updateQuery = (field: keyof AuditQuery, value: string) => setQuery(prev => ({ ...prev, [field]: value || undefined }));
+  const patientName = (patientId?: string) => patients.find(p => p.id === patientId)?.name ?? patientId ?? '—';
+
+  return (
+    <div className="animate-fade-in">
+        <button onClick={onBack} className="inline-flex items-center mb-6 text-primary hover:text-primary-hover font-medium">&larr; Back to Dashboard</button>
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+            <div>
+                <h1 className="text-4xl font-extrabold text-text-primary dark:text-slate-100 tracking-tight">Audit Trail</h1>
+                <p className="text-text-secondary dark:text-slate-400 mt-1">Every view, upload, AI run, message, export and edit, as recorded by the server.</p>
+            </div>
+            <div className="flex gap-2">
+                <a href={auditExportUrl(query, 'csv')} download className="px-4 py-2 text-sm font-semibold rounded-lg text-white bg-primary hover:bg-primary-hover transition-colors">Export CSV</a>
+                <a href={auditExportUrl(query, 'json')} download className="px-4 py-2 text-sm font-semibold rounded-lg text-primary bg-primary-light dark:bg-blue-950/60 hover:opacity-90 transition-opacity">Export JSON</a>
+            </div>
+        </div>
+
+        <div className="flex flex-wrap gap-3 mb-4">
+            <select value={query.patientId ?? ''} onChange={e => updateQuery('patientId', e.target.value)} className={inputClass}>
+                <option value="">All patients</option>
+                {patients.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <select value={query.action ?? ''} onChange={e => updateQuery('action', e.target.value)} className={inputClass}>
+                <option value="">All actions</option>
+                {ACTIONS.map(action => <option key={action} value={action}>{action}</option>)}
+            </select>
+            <input type="date" value={query.from ?? ''} onChange={e => updateQuery('from', e.target.value)} className={inputClass} aria-label="From date" />
+            <input type="date" value={query.to ?? ''} onChange={e => updateQuery('to', e.target.value)} className={inputClass} aria-label="To date" />
+        </div>
+
+        {page && (
+            <div className={`mb-4 p-3 rounded-lg text-xs font-semibold border ${page.integrity.valid
+                ? 'bg-success-light dark:bg-emerald-950/40 text-success-text dark:text-emerald-400 border-success/30'
+                : 'bg-danger-light dark:bg-rose-950/40 text-danger-text dark:text-rose-400 border-danger/30'}`}>
+                {page.integrity.valid
+                    ? `Hash chain verified across all ${page.integrity.checked} entries.`
+                    : `Hash chain broken at entry ${page.integrity.brokenAt}: the log was altered after it was written.`}
+            </div>
+        )}
+        {error && <div className="mb-4 text-center text-danger-text dark:text-rose-450 bg-danger-light dark:bg-rose-950/40 p-3 rounded-lg font-semibold text-xs">{error}</div>}
+
+        <div className="bg-surface dark:bg-slate-800 rounded-2xl shadow-md border border-border/60 dark:border-slate-700/60 overflow-x-auto">
+            <table className="w-full text-sm text-left">
+                <thead className="text-xs uppercase tracking-wider text-text-secondary dark:text-slate-400 border-b border-border dark:border-slate-700">
+                    <tr>
+                        <th className="px-4 py-3">Time</th>
+                        <th className="px-4 py-3">Actor</th>
+                        <th className="px-4 py-3">Action</th>
+                        <th className="px-4 py-3">Patient</th>
+                        <th className="px-4 py-3">Detail</th>
+                        <th className="px-4 py-3">Status</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-border dark:divide-slate-700">
+                    {page?.entries.map(entry => (
+                        <tr key={entry.id} className="text-text-primary dark:text-slate-200">
+                            <td className="px-4 py-2 font-mono text-xs whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                            <td className="px-4 py-2">{entry.actorEmail ?? entry.actorId} <span className="text-xs text-text-secondary dark:text-slate-400">({entry.role})</span></td>
+                            <td className="px-4 py-2 font-semibold">{entry.action}</td>
+                            <td className="px-4 py-2">{patientName(entry.patientId)}</td>
+                            <td className="px-4 py-2 text-text-secondary dark:text-slate-300">{entry.detail}</td>
+                            <td className="px-4 py-2 font-mono text-xs">{entry.request?.status ?? 'job'}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {page && page.entries.length === 0 && <p className="text-center text-text-secondary dark:text-slate-400 py-10">No audit entries match these filters.</p>}
+            {isLoading && !page && <p className="text-center text-text-secondary dark:text-slate-400 py-10 animate-pulse">Loading audit trail...</p>}
+        </div>
+        {page && page.total > page.entries.length && (
+            <p className="mt-3 text-xs text-text-secondary dark:text-slate-400">Showing the newest {page.entries.length} of {page.total} matching entries. Export to see them all.</p>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { describeError } from '../utils/errorGuidance';
+
+// A failed action and, where it can be repeated as-is, how to run it again
+export interface FailedAction {
+  error: unknown;
+  retry?: () => void;
+}
+
+interface ErrorNoticeProps {
+  error: unknown;
+  onRetry?: () => void; // Offered only for error codes where retrying can succeed
+  onDismiss?: () => void;
+}
+
+/**
+ * Error panel with guidance tailored to the error code, the code and request id for support tickets, and a retry option
+ */
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, onDismiss }) => {
+  const { title, guidance, retryable, code, message, requestId } = describeError(error);
+
+  return (
+    <div role="alert" className="p-4 text-xs rounded-xl bg-rose-50 dark:bg-rose-950/20 border border-rose-200 dark:border-rose-900 text-rose-700 dark:text-rose-300 text-left animate-fade-in">
+        <p className="font-bold text-sm">{title}</p>
+        <p className="mt-1">{message}</p>
+        <p className="mt-2 text-rose-600/90 dark:text-rose-300/80">{guidance}</p>
+        <div className="mt-3 flex items-center justify-between gap-3">
+            <span className="font-mono text-[10px] tracking-wider text-rose-500/80 dark:text-rose-400/70">
+                <span className="uppercase">Error code: {code}</span>
+                {requestId && <span className="block select-all">Request ID: {requestId}</span>}
+            </span>
+            <div className="flex gap-2">
+                {onDismiss && (
+                    <button onClick={onDismiss} className="px-3 py-1.5 font-semibold rounded-lg text-rose-700 dark:text-rose-300 hover:bg-rose-100 dark:hover:bg-rose-900/40 transition-colors">Dismiss</button>
+                )}
+                {retryable && onRetry && (
+                    <button onClick={onRetry} className="px-3 py-1.5 font-semibold rounded-lg text-white bg-rose-600 hover:bg-rose-700 transition-colors">Retry</button>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
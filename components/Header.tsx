@@ -1,5 +1,7 @@
 import React from 'react';
 import { Sun, Moon } from 'lucide-react';
+import { useI18n } from '../i18n/I18nProvider';
+import { LanguageSwitcher } from './LanguageSwitcher';
 
 interface HeaderProps {
     isLoggedIn: boolean;
@@ -9,6 +11,7 @@ interface HeaderProps {
 }
 
 export const Header: React.FC<HeaderProps> = ({ isLoggedIn, onLogout, darkMode, onToggleDarkMode }) => {
+  const { t } = useI18n();
   return (
     <header className="bg-surface/85 dark:bg-slate-900/85 backdrop-blur-xl sticky top-0 z-40 border-b border-border/80 dark:border-slate-800 transition-colors duration-300">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between gap-4">
@@ -25,11 +28,13 @@ export const Header: React.FC<HeaderProps> = ({ isLoggedIn, onLogout, darkMode,
         </div>
         
         <div className="flex items-center gap-3">
+          <LanguageSwitcher />
+
           {/* Dark Mode Toggle */}
           <button
               onClick={onToggleDarkMode}
               className="p-2.5 rounded-lg border border-border dark:border-slate-700 text-text-secondary dark:text-slate-400 bg-surface dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700/80 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-all duration-300"
-              title={darkMode ? "Switch to Light Mode" : "Switch to Dark Mode"}
+              title={darkMode ? t('theme.toLight') : t('theme.toDark')}
               aria-label="Toggle theme mode"
           >
               {darkMode ? <Sun className="h-5 w-5 text-amber-400" /> : <Moon className="h-5 w-5 text-indigo-500" />}
@@ -40,7 +45,7 @@ export const Header: React.FC<HeaderProps> = ({ isLoggedIn, onLogout, darkMode,
                   onClick={onLogout}
                   className="px-4 py-2 border border-border dark:border-slate-700 text-sm font-semibold rounded-lg text-text-secondary dark:text-slate-300 bg-surface dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-all"
               >
-                  Logout
+                  {t('header.logout')}
               </button>
           )}
         </div>
@@ -5,6 +5,7 @@ import React, { useState, useCallback, useRef } from 'react';
 interface ImageUploaderProps {
   onImageUpload: (file: File) => void;
   imageDataUrl: string | null;
+  onMultipleImagesUpload?: (files: File[]) => void; // Enables multi-select; single picks still go to onImageUpload
 }
 
 const UploadIcon = () => (
@@ -13,12 +14,14 @@ const UploadIcon = () => (
     </svg>
 );
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imageDataUrl }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imageDataUrl, onMultipleImagesUpload }) => {
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (files: FileList | null) => {
-    if (files && files[0]) {
+    if (files && files.length > 1 && onMultipleImagesUpload) {
+      onMultipleImagesUpload(Array.from(files));
+    } else if (files && files[0]) {
       onImageUpload(files[0]);
     }
   };
@@ -45,7 +48,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, ima
     e.stopPropagation();
     setIsDragging(false);
     handleFileChange(e.dataTransfer.files);
-  }, [onImageUpload]);
+  }, [onImageUpload, onMultipleImagesUpload]);
   
   const onAreaClick = () => {
     fileInputRef.current?.click();
@@ -64,6 +67,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, ima
         <input
             type="file"
             accept="image/png, image/jpeg, image/webp"
+            multiple={!!onMultipleImagesUpload}
             ref={fileInputRef}
             onChange={(e) => handleFileChange(e.target.files)}
             className="hidden"
@@ -83,6 +87,9 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, ima
                     <span className="text-primary">Click to upload</span> or drag and drop
                 </p>
                 <p className="mt-1 text-sm text-text-secondary">PNG, JPG or WEBP</p>
+                {onMultipleImagesUpload && (
+                    <p className="mt-1 text-xs text-text-secondary">Select several photos to analyze them as a batch</p>
+                )}
             </div>
         )}
     </div>
@@ -17,6 +17,8 @@ import {
   Globe,
   TrendingUp
 } from 'lucide-react';
+import { useI18n } from '../i18n/I18nProvider';
+import { LanguageSwitcher } from './LanguageSwitcher';
 
 interface LandingPageProps {
   onLoginClick: () => void;
@@ -47,6 +49,7 @@ const itemVariants = {
 };
 
 export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode, onToggleDarkMode }) => {
+  const { t } = useI18n();
   return (
     <div className="bg-[#f7f9fc] dark:bg-[#070a13] min-h-screen text-text-primary dark:text-slate-100 flex flex-col justify-between transition-colors duration-300 pointer-events-auto">
       
@@ -66,22 +69,24 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
               <h1 className="text-xl font-bold tracking-tight text-text-primary dark:text-slate-100 font-display leading-tight">
                 DermDetect <span className="text-primary">AI</span>
               </h1>
-              <p className="text-[10px] text-text-secondary dark:text-slate-400 font-mono tracking-wider uppercase font-bold">Clinical Companion</p>
+              <p className="text-[10px] text-text-secondary dark:text-slate-400 font-mono tracking-wider uppercase font-bold">{t('landing.tagline')}</p>
             </div>
           </div>
 
           <nav className="hidden md:flex items-center gap-8 text-sm font-semibold text-text-secondary dark:text-slate-300">
-            <a href="#features" className="hover:text-primary dark:hover:text-blue-400 transition-colors">Features</a>
-            <a href="#workflow" className="hover:text-primary dark:hover:text-blue-400 transition-colors">How It Works</a>
-            <a href="#security" className="hover:text-primary dark:hover:text-blue-400 transition-colors">Security Details</a>
+            <a href="#features" className="hover:text-primary dark:hover:text-blue-400 transition-colors">{t('landing.nav.features')}</a>
+            <a href="#workflow" className="hover:text-primary dark:hover:text-blue-400 transition-colors">{t('landing.nav.workflow')}</a>
+            <a href="#security" className="hover:text-primary dark:hover:text-blue-400 transition-colors">{t('landing.nav.security')}</a>
           </nav>
 
           <div className="flex items-center gap-3">
+            <LanguageSwitcher />
+
             {/* Toggle Dark Mode Button */}
             <button
               onClick={onToggleDarkMode}
               className="p-2.5 rounded-lg border border-border dark:border-slate-700 text-text-secondary dark:text-slate-300 bg-surface dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 transition-all duration-300 focus:outline-none"
-              title={darkMode ? "Switch to Light Mode" : "Switch to Dark Mode"}
+              title={darkMode ? t('theme.toLight') : t('theme.toDark')}
             >
               {darkMode ? <Sun className="h-4.5 w-4.5 text-amber-400" /> : <Moon className="h-4.5 w-4.5 text-indigo-500" />}
             </button>
@@ -90,7 +95,7 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
               onClick={onLoginClick}
               className="inline-flex items-center px-4.5 py-2 rounded-xl text-sm font-bold border border-primary/20 hover:border-primary text-primary hover:bg-primary-light dark:hover:bg-slate-800 transition-all duration-300 focus:outline-none"
             >
-              Access Portal
+              {t('landing.accessPortal')}
             </button>
           </div>
         </div>
@@ -109,22 +114,22 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
             className="inline-flex items-center gap-2 px-4 py-1.5 rounded-full bg-white dark:bg-slate-900 border border-border/80 dark:border-slate-800 shadow-sm"
           >
             <Activity className="h-4 w-4 text-emerald-500 animate-pulse" />
-            <span className="text-xs font-semibold text-text-secondary dark:text-slate-300">Advanced Neural Vision Progress Engine</span>
+            <span className="text-xs font-semibold text-text-secondary dark:text-slate-300">{t('landing.hero.badge')}</span>
           </motion.div>
 
           <motion.h2 
             variants={itemVariants}
             className="text-4xl md:text-7xl font-extrabold tracking-tight text-text-primary dark:text-white font-display leading-[1.05]"
           >
-            Intelligent Skin Lesion Tracking, <br />
-            <span className="text-transparent bg-clip-text bg-gradient-to-r from-primary to-blue-500">AI-Powered</span> Clinical Insights.
+            {t('landing.hero.titleStart')} <br />
+            <span className="text-transparent bg-clip-text bg-gradient-to-r from-primary to-blue-500">{t('landing.hero.titleHighlight')}</span> {t('landing.hero.titleEnd')}
           </motion.h2>
 
           <motion.p 
             variants={itemVariants}
             className="text-lg md:text-xl text-text-secondary dark:text-slate-400 max-w-2xl mx-auto leading-relaxed"
           >
-            DermDetect AI provides medical practitioners and research-stage clinics a secure sandbox to map histories, track lesion metrics over time, and safely query advanced Google Gemini multimodal vision layers.
+            {t('landing.hero.body')}
           </motion.p>
 
           <motion.div 
@@ -135,14 +140,14 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
               onClick={onLoginClick}
               className="w-full sm:w-auto inline-flex items-center justify-center px-8 py-4 rounded-xl text-base font-bold shadow-lg shadow-primary/25 text-white bg-primary hover:bg-primary-hover transition-all duration-300 group hover:-translate-y-0.5"
             >
-              Enter Clinic Workspace
+              {t('landing.hero.enter')}
               <ArrowRight className="ml-2 h-5 w-5 transition-transform group-hover:translate-x-1" />
             </button>
             <a
               href="#features"
               className="w-full sm:w-auto inline-flex items-center justify-center px-8 py-4 rounded-xl text-base font-bold border border-border dark:border-slate-700 bg-surface dark:bg-slate-850 hover:bg-background dark:hover:bg-slate-800 transition-all text-text-secondary dark:text-slate-300 hover:text-text-primary dark:hover:text-white"
             >
-              Explore Capabilities
+              {t('landing.hero.explore')}
             </a>
           </motion.div>
         </motion.div>
@@ -155,13 +160,13 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
       <section id="features" className="px-4 py-20 max-w-7xl mx-auto w-full border-t border-border/40 dark:border-slate-800/40">
         <div className="text-center space-y-4 mb-16">
           <div className="inline-flex items-center gap-1.5 px-3 py-1 rounded-md bg-primary-light dark:bg-slate-800 text-xs font-bold text-primary tracking-wide uppercase">
-            <Sparkles className="h-3.5 w-3.5" /> Capabilities
+            <Sparkles className="h-3.5 w-3.5" /> {t('landing.features.badge')}
           </div>
           <h3 className="text-3xl md:text-4.5xl font-extrabold tracking-tight text-text-primary dark:text-slate-100 font-display">
-            Clinical Diagnostic Support Modules
+            {t('landing.features.title')}
           </h3>
           <p className="text-text-secondary dark:text-slate-400 max-w-xl mx-auto leading-relaxed text-sm md:text-base">
-            Engineered to streamline tracking, visual delta comparisons, and high-precision clinician notations.
+            {t('landing.features.subtitle')}
           </p>
         </div>
 
@@ -180,9 +185,9 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
             <div className="bg-primary-light dark:bg-blue-950/60 p-3.5 rounded-xl w-fit text-primary mb-6 shadow-sm transition-colors group-hover:bg-primary group-hover:text-white">
               <Activity className="h-6 w-6" />
             </div>
-            <h4 className="text-xl font-bold text-text-primary dark:text-slate-100 mb-3 font-display">AI Condition Analysis</h4>
+            <h4 className="text-xl font-bold text-text-primary dark:text-slate-100 mb-3 font-display">{t('landing.features.analysis.title')}</h4>
             <p className="text-text-secondary dark:text-slate-300 text-sm leading-relaxed">
-              Verify suspected lesion images against deep vision networks using backend endpoints. Retrieve condition descriptors, calculated confidence metrics, and doctor safety protocols instantly.
+              {t('landing.features.analysis.body')}
             </p>
           </motion.div>
 
@@ -194,9 +199,9 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
             <div className="bg-emerald-50 dark:bg-emerald-950/55 p-3.5 rounded-xl w-fit text-emerald-500 mb-6 shadow-sm transition-colors group-hover:bg-emerald-500 group-hover:text-white">
               <History className="h-6 w-6" />
             </div>
-            <h4 className="text-xl font-bold text-text-primary dark:text-slate-100 mb-3 font-display">Temporal Comparison</h4>
+            <h4 className="text-xl font-bold text-text-primary dark:text-slate-100 mb-3 font-display">{t('landing.features.comparison.title')}</h4>
             <p className="text-text-secondary dark:text-slate-300 text-sm leading-relaxed">
-              Track progression rates with precision. Select dual images captured weeks or months apart to prompt comparative evaluation of change vectors—detailing scale, borders, and color metrics.
+              {t('landing.features.comparison.body')}
             </p>
           </motion.div>
 
@@ -208,9 +213,9 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
             <div className="bg-amber-50 dark:bg-amber-950/50 p-3.5 rounded-xl w-fit text-amber-500 mb-6 shadow-sm transition-colors group-hover:bg-amber-500 group-hover:text-white">
               <UserSquare2 className="h-6 w-6" />
             </div>
-            <h4 className="text-xl font-bold text-text-primary dark:text-slate-100 mb-3 font-display">Digital Patient Registry</h4>
+            <h4 className="text-xl font-bold text-text-primary dark:text-slate-100 mb-3 font-display">{t('landing.features.registry.title')}</h4>
             <p className="text-text-secondary dark:text-slate-300 text-sm leading-relaxed">
-              Consolidate clinic files under an elegant interface. Record dates of birth, specific blood profiles, and underlying chronic sensitivities along with unified medical file archives.
+              {t('landing.features.registry.body')}
             </p>
           </motion.div>
         </motion.div>
@@ -221,13 +226,13 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
         <div className="max-w-7xl mx-auto">
           <div className="text-center space-y-4 mb-20">
             <div className="inline-flex items-center gap-1.5 px-3 py-1 rounded-md bg-emerald-50 dark:bg-emerald-950/50 text-xs font-bold text-emerald-600 dark:text-emerald-400 tracking-wide uppercase">
-              <Zap className="h-3.5 w-3.5" /> Integration Flow
+              <Zap className="h-3.5 w-3.5" /> {t('landing.workflow.badge')}
             </div>
             <h3 className="text-3xl md:text-4.5xl font-extrabold tracking-tight text-text-primary dark:text-slate-100 font-display">
-              Streamlined Medical Workflow
+              {t('landing.workflow.title')}
             </h3>
             <p className="text-text-secondary dark:text-slate-400 max-w-xl mx-auto text-sm md:text-base leading-relaxed">
-              Move effortlessly from indexing patient files to triggering full spatial progression evaluations.
+              {t('landing.workflow.subtitle')}
             </p>
           </div>
 
@@ -245,9 +250,9 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
                 <div className="bg-primary/10 text-primary h-12 w-12 rounded-2xl flex items-center justify-center font-bold text-lg mb-4">
                   <UserSquare2 className="h-5 w-5" />
                 </div>
-                <h5 className="font-bold text-text-primary dark:text-slate-100 text-lg font-display">Index Profile</h5>
+                <h5 className="font-bold text-text-primary dark:text-slate-100 text-lg font-display">{t('landing.workflow.step1.title')}</h5>
                 <p className="text-text-secondary dark:text-slate-350 text-sm leading-relaxed mt-2">
-                  Construct patient demography profiles including clinical notations and past therapeutic histories.
+                  {t('landing.workflow.step1.body')}
                 </p>
               </div>
             </motion.div>
@@ -265,9 +270,9 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
                 <div className="bg-emerald-50 dark:bg-emerald-950/60 text-emerald-500 h-12 w-12 rounded-2xl flex items-center justify-center font-bold text-lg mb-4">
                   <UploadCloud className="h-5 w-5" />
                 </div>
-                <h5 className="font-bold text-text-primary dark:text-slate-100 text-lg font-display">Upload Captures</h5>
+                <h5 className="font-bold text-text-primary dark:text-slate-100 text-lg font-display">{t('landing.workflow.step2.title')}</h5>
                 <p className="text-text-secondary dark:text-slate-350 text-sm leading-relaxed mt-2">
-                  Import close-up macroscopic dermoscopy photographs. Files process securely inside browser memories.
+                  {t('landing.workflow.step2.body')}
                 </p>
               </div>
             </motion.div>
@@ -285,9 +290,9 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
                 <div className="bg-amber-50 dark:bg-amber-950/50 text-amber-500 h-12 w-12 rounded-2xl flex items-center justify-center font-bold text-lg mb-4">
                   <FileCheck2 className="h-5 w-5" />
                 </div>
-                <h5 className="font-bold text-text-primary dark:text-slate-100 text-lg font-display">Trigger API Analysis</h5>
+                <h5 className="font-bold text-text-primary dark:text-slate-100 text-lg font-display">{t('landing.workflow.step3.title')}</h5>
                 <p className="text-text-secondary dark:text-slate-350 text-sm leading-relaxed mt-2">
-                  Query the secure node proxy backend to fetch multimodal diagnostic breakdowns from the Google Gemini vision API.
+                  {t('landing.workflow.step3.body')}
                 </p>
               </div>
             </motion.div>
@@ -305,9 +310,9 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
                 <div className="bg-rose-50 dark:bg-rose-950/50 text-rose-500 h-12 w-12 rounded-2xl flex items-center justify-center font-bold text-lg mb-4">
                   <History className="h-5 w-5" />
                 </div>
-                <h5 className="font-bold text-text-primary dark:text-slate-100 text-lg font-display">Evaluate Growth Delta</h5>
+                <h5 className="font-bold text-text-primary dark:text-slate-100 text-lg font-display">{t('landing.workflow.step4.title')}</h5>
                 <p className="text-text-secondary dark:text-slate-350 text-sm leading-relaxed mt-2">
-                  Select two scans to analyze changes in borders, size, color shifts, and evolution coefficients.
+                  {t('landing.workflow.step4.body')}
                 </p>
               </div>
             </motion.div>
@@ -334,25 +339,25 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
             </div>
             
             <h3 className="text-2xl md:text-4xl font-extrabold tracking-tight font-display">
-              Clinical Security Model
+              {t('landing.security.title')}
             </h3>
             
             <p className="text-white/85 dark:text-slate-300 text-base leading-relaxed">
-              DermDetect AI separates analytical computation from browser endpoints to preserve privacy and safety constraints:
+              {t('landing.security.intro')}
             </p>
             
             <ul className="space-y-4 text-sm text-white/90 dark:text-slate-200">
               <li className="flex items-start gap-3">
                 <span className="text-emerald-300 dark:text-emerald-400 font-bold text-lg">✔</span>
-                <span><strong>No Client Keys</strong>: Unlike standard client prototypes, API tokens reside solely on custom secure container runtimes, making key exposure impossible.</span>
+                <span><strong>{t('landing.security.keys.title')}</strong>: {t('landing.security.keys.body')}</span>
               </li>
               <li className="flex items-start gap-3">
                 <span className="text-emerald-300 dark:text-emerald-400 font-bold text-lg">✔</span>
-                <span><strong>Encrypted Intermediary Transports</strong>: Visual payloads pass through localized proxy servers via end-to-end TLS tunnels.</span>
+                <span><strong>{t('landing.security.transport.title')}</strong>: {t('landing.security.transport.body')}</span>
               </li>
               <li className="flex items-start gap-3">
                 <span className="text-emerald-300 dark:text-emerald-400 font-bold text-lg">✔</span>
-                <span><strong>Browser Demography Vault</strong>: Data is indexed into clinical local vaults, ensuring complete administrator session control.</span>
+                <span><strong>{t('landing.security.vault.title')}</strong>: {t('landing.security.vault.body')}</span>
               </li>
             </ul>
           </div>
@@ -365,7 +370,7 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
           <ShieldAlert className="h-6 w-6 animate-spin" style={{ animationDuration: '6s' }} />
         </div>
         <div className="text-sm text-warning-text dark:text-amber-300 leading-relaxed font-semibold">
-          <strong>Clinical Advisory:</strong> DermDetect AI products, assessments, and comparative progression coefficients serve clinical research and tracking objectives only. These assessments must not serve as verified medical diagnoses. DermDetect AI never bypasses regular dermatological evaluations or professional biopsy protocols.
+          <strong>{t('landing.advisory.title')}</strong> {t('landing.advisory.body')}
         </div>
       </section>
 
@@ -381,20 +386,20 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
                 <span className="text-xl font-bold tracking-tight font-display">DermDetect AI</span>
               </div>
               <p className="text-xs text-white/50 leading-relaxed">
-                Empowering medical clinics with structured progress logs, progression comparison metrics, and secure AI analytical pipelines.
+                {t('landing.footer.about')}
               </p>
             </div>
             <div>
-              <h6 className="font-bold text-xs text-white/95 mb-5 tracking-widest uppercase">Platform features</h6>
+              <h6 className="font-bold text-xs text-white/95 mb-5 tracking-widest uppercase">{t('landing.footer.platform')}</h6>
               <ul className="space-y-3 text-xs text-white/45">
-                <li><a href="#features" className="hover:text-primary transition-colors">AI Lesion Audit</a></li>
-                <li><a href="#features" className="hover:text-primary transition-colors">Temporal Delta Tracking</a></li>
-                <li><a href="#features" className="hover:text-primary transition-colors">Digital Health Registry</a></li>
-                <li><a href="#security" className="hover:text-primary transition-colors">Local Sandbox Encapsulation</a></li>
+                <li><a href="#features" className="hover:text-primary transition-colors">{t('landing.footer.platform.analysis')}</a></li>
+                <li><a href="#features" className="hover:text-primary transition-colors">{t('landing.footer.platform.tracking')}</a></li>
+                <li><a href="#features" className="hover:text-primary transition-colors">{t('landing.footer.platform.registry')}</a></li>
+                <li><a href="#security" className="hover:text-primary transition-colors">{t('landing.footer.platform.sandbox')}</a></li>
               </ul>
             </div>
             <div>
-              <h6 className="font-bold text-xs text-white/95 mb-5 tracking-widest uppercase">Professional Resources</h6>
+              <h6 className="font-bold text-xs text-white/95 mb-5 tracking-widest uppercase">{t('landing.footer.resources')}</h6>
               <ul className="space-y-3 text-xs text-white/45">
                 <li><a href="https://www.aad.org" target="_blank" rel="noreferrer" className="hover:text-primary transition-colors">American Academy of Dermatology</a></li>
                 <li><a href="https://www.skincancer.org" target="_blank" rel="noreferrer" className="hover:text-primary transition-colors">Skin Cancer Foundation</a></li>
@@ -402,17 +407,17 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onLoginClick, darkMode
               </ul>
             </div>
             <div>
-              <h6 className="font-bold text-xs text-white/95 mb-5 tracking-widest uppercase">EHR Compliance</h6>
+              <h6 className="font-bold text-xs text-white/95 mb-5 tracking-widest uppercase">{t('landing.footer.compliance.title')}</h6>
               <p className="text-xs text-white/40 leading-relaxed">
-                Matches structural formats of standard electronic health records. Payload transfers apply secure end-to-end encryption. All medical logs remain inside client administrator sandboxes.
+                {t('landing.footer.compliance.body')}
               </p>
             </div>
           </div>
           <div className="border-t border-white/10 pt-8 mt-8 flex flex-col md:flex-row items-center justify-between gap-4 text-xs text-white/30">
-            <p>© {new Date().getFullYear()} DermDetect AI Inc. All rights reserved. Clinical Research Hub.</p>
+            <p>{t('landing.footer.copyright', { year: new Date().getFullYear() })}</p>
             <div className="flex gap-6">
-              <button onClick={onLoginClick} className="hover:text-white transition-colors">Access Portal</button>
-              <button onClick={onLoginClick} className="hover:text-white transition-colors">License Registration</button>
+              <button onClick={onLoginClick} className="hover:text-white transition-colors">{t('landing.accessPortal')}</button>
+              <button onClick={onLoginClick} className="hover:text-white transition-colors">{t('landing.footer.registration')}</button>
             </div>
           </div>
         </div>
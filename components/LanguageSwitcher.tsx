@@ -0,0 +1,26 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import type { Locale } from '../types';
+import { LOCALE_NAMES, SUPPORTED_LOCALES, useI18n } from '../i18n/I18nProvider';
+
+/**
+ * Picks the interface language; signed-in users keep their choice across devices
+ */
+export const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <label className="flex items-center gap-1.5 px-2.5 py-2 rounded-lg border border-border dark:border-slate-700 text-text-secondary dark:text-slate-400 bg-surface dark:bg-slate-800 transition-colors">
+      <Globe className="h-4 w-4" aria-hidden="true" />
+      <span className="sr-only">{t('language.label')}</span>
+      <select
+        value={locale}
+        onChange={e => setLocale(e.target.value as Locale)}
+        className="bg-transparent text-sm font-semibold focus:outline-none cursor-pointer"
+      >
+        {SUPPORTED_LOCALES.map(option => (
+          <option key={option} value={option} lang={option}>{LOCALE_NAMES[option]}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
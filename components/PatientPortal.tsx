@@ -19,9 +19,12 @@ import {
   Flame,
   UserCheck
 } from 'lucide-react';
-import { InteractiveCanvas, AnnotationData } from './InteractiveCanvas';
-import { analyzeSkinCondition } from '../services/geminiService';
-import { ResultCard } from './ResultCard';
+import { addLesionImage, addMessage, addSymptomLog, replaceCareTasks, updateCareTask } from '../services/patientService';
+import { confidenceLabel } from './ResultCard';
+import { TranslatedResult } from './TranslatedResult';
+import { LanguageSwitcher } from './LanguageSwitcher';
+import { useI18n } from '../i18n/I18nProvider';
+import { ErrorNotice, type FailedAction } from './ErrorNotice';
 import type { Patient, LesionImage, PatientMessage, SymptomLog, CareTask } from '../types';
 
 interface PatientPortalProps {
@@ -48,6 +51,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
   darkMode,
   onToggleDarkMode
 }) => {
+  const { locale, t } = useI18n();
   // Navigation active tab
   const [activeTab, setActiveTab] = useState<'overview' | 'messaging' | 'care' | 'symptoms'>('overview');
   
@@ -56,7 +60,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
   const [filePreview, setFilePreview] = useState<string | null>(null);
   const [isAnnotating, setIsAnnotating] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
-  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<FailedAction | null>(null);
   const [patientNotesInp, setPatientNotesInp] = useState('');
   
   // Selected scan for details modal
@@ -71,18 +75,18 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
   const [colorChange, setColorChange] = useState(false);
   const [symptomNotes, setSymptomNotes] = useState('');
 
-  // Hydrate care plan if empty
+  // Hydrate care plan if empty (written in the patient's language, and saved that way once a task is ticked)
   const defaultTasks: CareTask[] = [
-    { id: 't1', task: "Apply broad-spectrum sunscreen SPF 50+ on exposed areas", completed: false },
-    { id: 't2', task: "Inspect skin areas for asymmetrical growth or border expansion", completed: false },
-    { id: 't3', task: "Keep active lesion site moisturized using gentle hypoallergenic creams", completed: false },
-    { id: 't4', task: "Refrain from scraping or scratching dry/raised skin zones", completed: false },
-    { id: 't5', task: "Hydrate actively (drink 8+ glasses of fluids daily)", completed: false }
+    { id: 't1', task: t('portal.care.default.t1'), completed: false },
+    { id: 't2', task: t('portal.care.default.t2'), completed: false },
+    { id: 't3', task: t('portal.care.default.t3'), completed: false },
+    { id: 't4', task: t('portal.care.default.t4'), completed: false },
+    { id: 't5', task: t('portal.care.default.t5'), completed: false }
   ];
 
   const personalCareTasks = useMemo(() => {
     return patient.careTasks && patient.careTasks.length > 0 ? patient.careTasks : defaultTasks;
-  }, [patient.careTasks]);
+  }, [patient.careTasks, locale]);
 
   // Messages list helper
   const messages = useMemo(() => {
@@ -111,68 +115,16 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
     }
   };
 
-  // Process annotated upload with coordinates mapping
-  const handleAnnotatedConfirm = async (annoData: AnnotationData) => {
-    if (!selectedFile) return;
-    setIsUploading(true);
-    setUploadError(null);
-    try {
-      // Prompt backend using exact coordinate descriptors
-      const result = await analyzeSkinCondition(
-        selectedFile,
-        annoData.boundingBox,
-        annoData.pins,
-        annoData.practitionerNotes
-      );
-
-      const dataUrl = filePreview || (await fileToDataUrl(selectedFile));
-      
-      const newLesion: LesionImage = {
-        id: `img_${Date.now()}`,
-        imageDataUrl: dataUrl,
-        file: selectedFile,
-        analysisResult: result,
-        timestamp: new Date()
-      };
-
-      const updatedPatient: Patient = {
-        ...patient,
-        lesionImages: [newLesion, ...(patient.lesionImages || [])]
-      };
-
-      onUpdatePatient(updatedPatient);
-      
-      // Reset state variables
-      setSelectedFile(null);
-      setFilePreview(null);
-      setIsAnnotating(false);
-    } catch (err: any) {
-      setUploadError(err.message || 'Error occurred while processing skin condition');
-    } finally {
-      setIsUploading(false);
-    }
-  };
-
   // Patient direct upload (No AI scanning or annotation, analysisResult stays null)
   const handlePatientUpload = async () => {
     if (!selectedFile || !filePreview) return;
     setIsUploading(true);
     setUploadError(null);
     try {
-      const dataUrl = filePreview || (await fileToDataUrl(selectedFile));
-      const newLesion: LesionImage = {
-        id: `img_${Date.now()}`,
-        imageDataUrl: dataUrl,
-        file: selectedFile,
+      const updatedPatient = await addLesionImage(patient.id, selectedFile, {
         analysisResult: null, // Analysis and AI scanning pending doctor review
-        timestamp: new Date(),
         patientNotes: patientNotesInp.trim() || undefined
-      };
-
-      const updatedPatient: Patient = {
-        ...patient,
-        lesionImages: [newLesion, ...(patient.lesionImages || [])]
-      };
+      });
 
       onUpdatePatient(updatedPatient);
       
@@ -181,47 +133,48 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
       setFilePreview(null);
       setPatientNotesInp('');
     } catch (err: any) {
-      setUploadError(err.message || 'Error occurred while saving your upload');
+      setUploadError({ error: err, retry: handlePatientUpload });
     } finally {
       setIsUploading(false);
     }
   };
 
   // Messaging trigger
-  const handleSendMessage = () => {
+  const handleSendMessage = async () => {
     if (!chatMessage.trim()) return;
-    const newMsg: PatientMessage = {
-      id: `m_${Date.now()}`,
+    const newMsg: Omit<PatientMessage, 'id'> = {
       sender: 'patient',
       text: chatMessage.trim(),
       timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
     };
 
-    const updatedPatient: Patient = {
-      ...patient,
-      messages: [...messages, newMsg]
-    };
-    onUpdatePatient(updatedPatient);
-    setChatMessage('');
+    try {
+      onUpdatePatient(await addMessage(patient.id, newMsg));
+      setChatMessage('');
+    } catch (err: any) {
+      console.error('Failed to send message:', err);
+    }
   };
 
   // Care tasks toggle helper
-  const handleToggleTask = (taskId: string) => {
-    const updatedTasks = personalCareTasks.map(task => 
-      task.id === taskId ? { ...task, completed: !task.completed } : task
-    );
-    const updatedPatient: Patient = {
-      ...patient,
-      careTasks: updatedTasks
-    };
-    onUpdatePatient(updatedPatient);
+  const handleToggleTask = async (taskId: string) => {
+    const task = personalCareTasks.find(t => t.id === taskId);
+    if (!task) return;
+    try {
+      // Default tasks only exist client-side until the first toggle saves the whole plan
+      const updatedPatient = patient.careTasks && patient.careTasks.length > 0
+        ? await updateCareTask(patient.id, taskId, { completed: !task.completed })
+        : await replaceCareTasks(patient.id, personalCareTasks.map(t => t.id === taskId ? { ...t, completed: !t.completed } : t));
+      onUpdatePatient(updatedPatient);
+    } catch (err: any) {
+      console.error('Failed to update care task:', err);
+    }
   };
 
   // Symptoms logging triggers
-  const handleSaveSymptoms = (e: React.FormEvent) => {
+  const handleSaveSymptoms = async (e: React.FormEvent) => {
     e.preventDefault();
-    const newLog: SymptomLog = {
-      id: `symptom_${Date.now()}`,
+    const newLog: Omit<SymptomLog, 'id'> = {
       timestamp: new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
       itching,
       bleeding,
@@ -229,11 +182,12 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
       notes: symptomNotes.trim()
     };
 
-    const updatedPatient: Patient = {
-      ...patient,
-      symptomLogs: [newLog, ...symptomLogs]
-    };
-    onUpdatePatient(updatedPatient);
+    try {
+      onUpdatePatient(await addSymptomLog(patient.id, newLog));
+    } catch (err: any) {
+      console.error('Failed to save symptom checkpoint:', err);
+      return;
+    }
     
     // Clear Form Fields
     setItching(false);
@@ -255,18 +209,20 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
             <div>
               <div className="flex items-center gap-2">
                 <h1 className="text-xl font-extrabold tracking-tight font-display text-text-primary dark:text-white">
-                  Patient Vault <span className="text-primary font-medium text-sm border border-primary/25 px-2 py-0.5 rounded-full ml-1">Terminal</span>
+                  {t('portal.title')} <span className="text-primary font-medium text-sm border border-primary/25 px-2 py-0.5 rounded-full ml-1">{t('portal.badge')}</span>
                 </h1>
               </div>
-              <p className="text-xs text-text-secondary dark:text-slate-450 font-medium">Logged In: <span className="font-bold text-text-primary dark:text-slate-250">{patient.name}</span></p>
+              <p className="text-xs text-text-secondary dark:text-slate-450 font-medium">{t('portal.loggedIn')} <span className="font-bold text-text-primary dark:text-slate-250">{patient.name}</span></p>
             </div>
           </div>
 
           <div className="flex items-center gap-3">
+            <LanguageSwitcher />
             {/* Dark Mode toggle Button */}
             <button
               onClick={onToggleDarkMode}
               className="p-2.5 rounded-xl border border-border dark:border-slate-750 text-text-secondary dark:text-slate-350 bg-surface dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 transition-all focus:outline-none"
+              title={darkMode ? t('theme.toLight') : t('theme.toDark')}
             >
               {darkMode ? <Sun className="h-4 w-4 text-amber-400" /> : <Moon className="h-4 w-4 text-indigo-500" />}
             </button>
@@ -274,7 +230,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
               onClick={onLogout}
               className="inline-flex items-center gap-2 px-4.5 py-2 rounded-xl text-sm font-bold bg-rose-50 dark:bg-rose-950/20 text-rose-600 dark:text-rose-455 hover:bg-rose-100 dark:hover:bg-rose-950/40 border border-rose-200/40 dark:border-rose-950/60 transition-all focus:outline-none"
             >
-              <LogOut className="h-4 w-4" /> Sign Out
+              <LogOut className="h-4 w-4" /> {t('portal.signOut')}
             </button>
           </div>
         </div>
@@ -298,11 +254,11 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
             <div className="grid grid-cols-2 gap-2 pt-2 border-t border-border/50 dark:border-slate-800">
               <div className="bg-[#f7f9fc] dark:bg-slate-950 p-2.5 rounded-lg">
                 <span className="text-2xl font-extrabold text-primary block">{patient.lesionImages?.length || 0}</span>
-                <span className="text-[10px] uppercase font-bold text-text-secondary dark:text-slate-400">Total Scans</span>
+                <span className="text-[10px] uppercase font-bold text-text-secondary dark:text-slate-400">{t('portal.stats.scans')}</span>
               </div>
               <div className="bg-[#f7f9fc] dark:bg-slate-950 p-2.5 rounded-lg">
                 <span className="text-2xl font-extrabold text-emerald-500 block">{symptomLogs.length}</span>
-                <span className="text-[10px] uppercase font-bold text-text-secondary dark:text-slate-400">Daily Logs</span>
+                <span className="text-[10px] uppercase font-bold text-text-secondary dark:text-slate-400">{t('portal.stats.logs')}</span>
               </div>
             </div>
           </div>
@@ -316,7 +272,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                   : 'text-text-secondary hover:text-text-primary dark:text-slate-350 dark:hover:text-white hover:bg-slate-50 dark:hover:bg-slate-800/60'}`}
             >
               <Activity className="h-4.5 w-4.5" />
-              Overview & Upload Scans
+              {t('portal.nav.overview')}
               <ChevronRight className="h-4 w-4 ml-auto" />
             </button>
 
@@ -328,7 +284,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                   : 'text-text-secondary hover:text-text-primary dark:text-slate-350 dark:hover:text-white hover:bg-slate-50 dark:hover:bg-slate-800/60'}`}
             >
               <ClipboardList className="h-4.5 w-4.5" />
-              Home Monitoring Care Plan
+              {t('portal.nav.care')}
               {completedTasksCount < personalCareTasks.length && (
                 <span className="bg-amber-500 text-white rounded-full flex items-center justify-center text-[9px] font-bold h-4 w-4 ml-1">
                   !
@@ -345,7 +301,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                   : 'text-text-secondary hover:text-text-primary dark:text-slate-350 dark:hover:text-white hover:bg-slate-50 dark:hover:bg-slate-800/60'}`}
             >
               <Flame className="h-4.5 w-4.5" />
-              Symptom Log Journal
+              {t('portal.nav.symptoms')}
               <ChevronRight className="h-4 w-4 ml-auto" />
             </button>
 
@@ -357,7 +313,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                   : 'text-text-secondary hover:text-text-primary dark:text-slate-350 dark:hover:text-white hover:bg-slate-50 dark:hover:bg-slate-800/60'}`}
             >
               <MessageSquare className="h-4.5 w-4.5" />
-              Messaging Thread
+              {t('portal.nav.messaging')}
               {messages.length > 0 && messages[messages.length - 1].sender === 'doctor' && (
                 <span className="bg-rose-500 h-2 w-2 rounded-full ml-1 block animate-ping" />
               )}
@@ -373,30 +329,30 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
           {activeTab === 'overview' && (
             <div className="space-y-8 animate-fade-in">
               <div className="bg-surface dark:bg-slate-900 shadow-sm border border-border/50 dark:border-slate-800/80 p-6 md:p-8 rounded-2xl">
-                <h2 className="text-2xl font-extrabold text-text-primary dark:text-white font-display">Capture & Track New Skin Lesion</h2>
+                <h2 className="text-2xl font-extrabold text-text-primary dark:text-white font-display">{t('portal.upload.title')}</h2>
                 <p className="text-sm text-text-secondary dark:text-slate-400 mt-1 mb-6">
-                  Add high-resolution dermoscopy photos to analyze patterns, isolate suspect boundaries, and catalog lesion growth rate over time.
+                  {t('portal.upload.intro')}
                 </p>
 
                 {filePreview ? (
                   <div className="animate-slide-up max-w-2xl mx-auto space-y-5 bg-[#fafbfd] dark:bg-slate-950/40 border border-slate-205 dark:border-slate-800/80 p-6 rounded-2xl">
                     <div className="flex flex-col items-center">
-                      <p className="text-sm font-bold text-text-primary dark:text-white mb-3">Selected Lesion Image Preview</p>
+                      <p className="text-sm font-bold text-text-primary dark:text-white mb-3">{t('portal.upload.preview')}</p>
                       <img 
                         src={filePreview} 
-                        alt="Selected lesion preview" 
+                        alt={t('portal.upload.previewAlt')} 
                         className="rounded-lg max-h-72 object-contain shadow-md border dark:border-slate-800" 
                       />
                     </div>
                     
                     <div className="space-y-2">
                       <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider font-mono">
-                        Add Optional Comments or Symptoms Description
+                        {t('portal.upload.notesLabel')}
                       </label>
                       <textarea
                         value={patientNotesInp}
                         onChange={(e) => setPatientNotesInp(e.target.value)}
-                        placeholder="I noticed this skin spot a few weeks ago. It is slightly dry and has minor surface roughness..."
+                        placeholder={t('portal.upload.notesPlaceholder')}
                         rows={3}
                         className="w-full text-sm bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 p-3 rounded-xl text-text-primary dark:text-slate-100 placeholder-slate-400 focus:ring-2 focus:ring-primary/20 focus:border-primary outline-none transition-all"
                       />
@@ -413,7 +369,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                         disabled={isUploading}
                         className="px-5 py-2.5 font-bold text-sm text-slate-500 hover:text-slate-800 dark:hover:text-white transition-colors"
                       >
-                        Cancel
+                        {t('portal.upload.cancel')}
                       </button>
                       <button
                         onClick={handlePatientUpload}
@@ -423,18 +379,16 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                         {isUploading ? (
                           <>
                             <span className="animate-spin rounded-full h-4 w-4 border-b-2 border-white" />
-                            Uploading...
+                            {t('portal.upload.uploading')}
                           </>
                         ) : (
-                          'Confirm & Add Lesion'
+                          t('portal.upload.confirm')
                         )}
                       </button>
                     </div>
 
                     {uploadError && (
-                      <div className="p-4 text-xs font-semibold rounded-xl bg-rose-50 dark:bg-rose-950/20 border border-rose-200 dark:border-rose-900 text-rose-600 dark:text-rose-400 text-center">
-                        {uploadError}
-                      </div>
+                      <ErrorNotice error={uploadError.error} onRetry={isUploading ? undefined : uploadError.retry} onDismiss={() => setUploadError(null)} />
                     )}
                   </div>
                 ) : (
@@ -450,10 +404,10 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                       <Plus className="h-7 w-7" />
                     </div>
                     <p className="text-base font-bold text-text-primary dark:text-white text-center">
-                      Click area or drop files here to upload lesion scans
+                      {t('portal.upload.drop')}
                     </p>
                     <p className="text-xs text-text-secondary dark:text-slate-450 text-center mt-1">
-                      Direct photos are stored safely inside your clinical profiles. Supports PNG, JPG, or WEBP files.
+                      {t('portal.upload.dropHint')}
                     </p>
                   </div>
                 )}
@@ -461,11 +415,11 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
 
               {/* Capture History List */}
               <div className="bg-surface dark:bg-slate-900 shadow-sm border border-border/50 dark:border-slate-800/80 p-6 md:p-8 rounded-2xl">
-                <h3 className="text-xl font-bold text-text-primary dark:text-white font-display mb-6">Scan Capture Archives ({patient.lesionImages?.length || 0})</h3>
+                <h3 className="text-xl font-bold text-text-primary dark:text-white font-display mb-6">{t('portal.archive.title', { count: patient.lesionImages?.length || 0 })}</h3>
                 
                 {(!patient.lesionImages || patient.lesionImages.length === 0) ? (
                   <div className="text-center py-10">
-                    <p className="text-text-secondary dark:text-slate-400 font-semibold">No visual scans have been cataloged for your profile yet.</p>
+                    <p className="text-text-secondary dark:text-slate-400 font-semibold">{t('portal.archive.empty')}</p>
                   </div>
                 ) : (
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
@@ -477,26 +431,26 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                       >
                         <img 
                           src={img.imageDataUrl} 
-                          alt="Thumbnail of lesion" 
+                          alt={t('portal.archive.thumbnailAlt')} 
                           className="w-16 h-16 object-cover rounded-lg flex-shrink-0 bg-slate-100 dark:bg-slate-800" 
                         />
                         <div className="overflow-hidden flex-grow flex flex-col justify-between">
                           <div>
                             <h4 className="font-bold text-sm text-text-primary dark:text-slate-100 truncate flex items-center gap-2">
-                              {img.analysisResult?.conditionName || 'Analysis Pending'}
+                              {(img.analysisTranslations?.[locale] ?? img.analysisResult)?.conditionName || t('portal.archive.pending')}
                             </h4>
                             <p className="text-[10px] text-text-secondary dark:text-slate-450 mt-0.5">
-                              {new Date(img.timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                              {new Date(img.timestamp).toLocaleDateString(locale, { month: 'short', day: 'numeric', year: 'numeric' })}
                             </p>
                           </div>
                           {img.analysisResult ? (
                             <span className="text-[10px] font-bold text-primary dark:text-blue-400 mt-2 tracking-wide block uppercase">
-                              Confidence: {img.analysisResult.confidence}
+                              {t('portal.archive.confidence', { level: confidenceLabel(img.analysisResult.confidence, t) })}
                             </span>
                           ) : (
                             <span className="inline-flex items-center gap-1.5 px-2 py-0.5 text-[8.5px] font-extrabold text-amber-600 bg-amber-500/10 dark:text-amber-400 dark:bg-amber-400/5 rounded-md mt-2 max-w-fit uppercase tracking-widest font-mono">
                               <span className="h-1.5 w-1.5 rounded-full bg-amber-500 animate-pulse" />
-                              Under Review
+                              {t('portal.archive.underReview')}
                             </span>
                           )}
                         </div>
@@ -513,11 +467,11 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
             <div className="space-y-6 animate-fade-in bg-surface dark:bg-slate-900 shadow-sm border border-border/50 dark:border-slate-800 p-6 md:p-8 rounded-2xl">
               <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4 pb-4 border-b border-border/50 dark:border-slate-800">
                 <div>
-                  <h2 className="text-2xl font-extrabold text-text-primary dark:text-white font-display">Daily Home Self-Care Plan</h2>
-                  <p className="text-xs text-text-secondary dark:text-slate-400 mt-0.5">Recommended daily hygiene loops to facilitate comfortable lesion monitoring.</p>
+                  <h2 className="text-2xl font-extrabold text-text-primary dark:text-white font-display">{t('portal.care.title')}</h2>
+                  <p className="text-xs text-text-secondary dark:text-slate-400 mt-0.5">{t('portal.care.intro')}</p>
                 </div>
                 <div className="bg-primary/15 dark:bg-blue-956 px-4 py-2 rounded-xl text-primary font-bold text-sm font-mono whitespace-nowrap">
-                  Compliance: {completedTasksCount} / {personalCareTasks.length}
+                  {t('portal.care.compliance', { done: completedTasksCount, total: personalCareTasks.length })}
                 </div>
               </div>
 
@@ -543,9 +497,9 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                 <div className="bg-emerald-50 dark:bg-emerald-950/20 p-5 rounded-2xl border border-emerald-250 dark:border-emerald-900 flex items-start gap-4 text-emerald-800 dark:text-emerald-350">
                   <span className="text-2xl animate-bounce">🏆</span>
                   <div>
-                    <h4 className="font-bold">Perfect Compliance!</h4>
+                    <h4 className="font-bold">{t('portal.care.perfect')}</h4>
                     <p className="text-xs mt-1 text-emerald-700/80 dark:text-emerald-350/80">
-                      You have fully completed your home monitoring care schedule. Keeping regular routines assists in clinical diagnostics. Keep it up!
+                      {t('portal.care.perfectBody')}
                     </p>
                   </div>
                 </div>
@@ -558,9 +512,9 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
             <div className="space-y-8 animate-fade-in">
               {/* Add New Checkpoint Form */}
               <div className="bg-surface dark:bg-slate-900 p-6 md:p-8 rounded-2xl border border-border/50 dark:border-slate-800/80 shadow-sm">
-                <h2 className="text-2xl font-extrabold text-text-primary dark:text-white font-display">New Symptom Progress Entry</h2>
+                <h2 className="text-2xl font-extrabold text-text-primary dark:text-white font-display">{t('portal.symptoms.title')}</h2>
                 <p className="text-sm text-text-secondary dark:text-slate-400 mt-1 mb-6">
-                  Maintain records of any change in lesion physical attributes to assist your clinician.
+                  {t('portal.symptoms.intro')}
                 </p>
 
                 <form onSubmit={handleSaveSymptoms} className="space-y-5">
@@ -572,7 +526,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                         onChange={(e) => setItching(e.target.checked)}
                         className="h-4.5 w-4.5 text-primary border-slate-300 rounded focus:ring-primary" 
                       />
-                      <span className="text-sm font-semibold text-text-primary dark:text-slate-200">Active Itchiness</span>
+                      <span className="text-sm font-semibold text-text-primary dark:text-slate-200">{t('portal.symptoms.itching')}</span>
                     </label>
 
                     <label className="flex items-center gap-3 cursor-pointer p-2.5 rounded-lg hover:bg-white dark:hover:bg-slate-900 transition-colors">
@@ -582,7 +536,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                         onChange={(e) => setBleeding(e.target.checked)}
                         className="h-4.5 w-4.5 text-primary border-slate-300 rounded focus:ring-primary" 
                       />
-                      <span className="text-sm font-semibold text-text-primary dark:text-slate-200">Bleeding or Oozing</span>
+                      <span className="text-sm font-semibold text-text-primary dark:text-slate-200">{t('portal.symptoms.bleeding')}</span>
                     </label>
 
                     <label className="flex items-center gap-3 cursor-pointer p-2.5 rounded-lg hover:bg-white dark:hover:bg-slate-900 transition-colors">
@@ -592,16 +546,16 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                         onChange={(e) => setColorChange(e.target.checked)}
                         className="h-4.5 w-4.5 text-primary border-slate-300 rounded focus:ring-primary" 
                       />
-                      <span className="text-sm font-semibold text-text-primary dark:text-slate-200">Rapid Color Shift</span>
+                      <span className="text-sm font-semibold text-text-primary dark:text-slate-200">{t('portal.symptoms.colorChange')}</span>
                     </label>
                   </div>
 
                   <div className="space-y-2">
-                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider font-mono">Special Comments</label>
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider font-mono">{t('portal.symptoms.comments')}</label>
                     <textarea
                       value={symptomNotes}
                       onChange={(e) => setSymptomNotes(e.target.value)}
-                      placeholder="Detail any observations e.g. Border appears slightly rougher, raised area expanded."
+                      placeholder={t('portal.symptoms.placeholder')}
                       rows={3}
                       className="w-full text-sm bg-[#fcfdfe] dark:bg-slate-950 border border-slate-200 dark:border-slate-800 p-3 rounded-xl focus:ring-2 focus:ring-primary/20 focus:border-primary outline-none"
                     />
@@ -611,17 +565,17 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                     type="submit"
                     className="w-full sm:w-auto inline-flex items-center justify-center px-6 py-3 font-semibold text-white bg-primary hover:bg-primary-hover active:bg-primary rounded-xl transition-all shadow-md focus:outline-none"
                   >
-                    Save Symptom Checkpoint
+                    {t('portal.symptoms.save')}
                   </button>
                 </form>
               </div>
 
               {/* Checkpoint Timeline List */}
               <div className="bg-surface dark:bg-slate-900 p-6 md:p-8 rounded-2xl border border-border/50 dark:border-slate-800/80 shadow-sm">
-                <h3 className="text-xl font-bold text-text-primary dark:text-white font-display mb-6">Historical Logs Archive ({symptomLogs.length})</h3>
+                <h3 className="text-xl font-bold text-text-primary dark:text-white font-display mb-6">{t('portal.symptoms.history', { count: symptomLogs.length })}</h3>
                 {symptomLogs.length === 0 ? (
                   <div className="text-center py-10">
-                    <p className="text-text-secondary dark:text-slate-400 font-medium">No progress checkpoints recorded yet.</p>
+                    <p className="text-text-secondary dark:text-slate-400 font-medium">{t('portal.symptoms.empty')}</p>
                   </div>
                 ) : (
                   <div className="relative border-l border-border dark:border-slate-800 pl-6 space-y-6 ml-3">
@@ -635,10 +589,10 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                             <Calendar className="h-3.5 w-3.5 text-primary" /> {log.timestamp}
                           </span>
                           <div className="flex flex-wrap gap-2">
-                            {log.itching && <span className="bg-amber-100 dark:bg-amber-950/20 text-amber-700 dark:text-amber-400 font-bold text-[10px] uppercase px-2 py-0.5 rounded-full">Itch</span>}
-                            {log.bleeding && <span className="bg-rose-100 dark:bg-rose-950/20 text-rose-700 dark:text-rose-455 font-bold text-[10px] uppercase px-2 py-0.5 rounded-full text-rose-500">Bleed</span>}
-                            {log.colorChange && <span className="bg-indigo-100 dark:bg-indigo-950/20 text-indigo-700 dark:text-indigo-400 font-bold text-[10px] uppercase px-2 py-0.5 rounded-full">Color</span>}
-                            {!log.itching && !log.bleeding && !log.colorChange && <span className="bg-emerald-100 dark:bg-emerald-950/20 text-emerald-750 font-bold text-[10px] uppercase px-2 py-0.5 rounded-full">Stable</span>}
+                            {log.itching && <span className="bg-amber-100 dark:bg-amber-950/20 text-amber-700 dark:text-amber-400 font-bold text-[10px] uppercase px-2 py-0.5 rounded-full">{t('portal.symptoms.tag.itch')}</span>}
+                            {log.bleeding && <span className="bg-rose-100 dark:bg-rose-950/20 text-rose-700 dark:text-rose-455 font-bold text-[10px] uppercase px-2 py-0.5 rounded-full text-rose-500">{t('portal.symptoms.tag.bleed')}</span>}
+                            {log.colorChange && <span className="bg-indigo-100 dark:bg-indigo-950/20 text-indigo-700 dark:text-indigo-400 font-bold text-[10px] uppercase px-2 py-0.5 rounded-full">{t('portal.symptoms.tag.color')}</span>}
+                            {!log.itching && !log.bleeding && !log.colorChange && <span className="bg-emerald-100 dark:bg-emerald-950/20 text-emerald-750 font-bold text-[10px] uppercase px-2 py-0.5 rounded-full">{t('portal.symptoms.tag.stable')}</span>}
                           </div>
                         </div>
                         {log.notes ? (
@@ -646,7 +600,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                             &ldquo;{log.notes}&rdquo;
                           </p>
                         ) : (
-                          <p className="text-[11px] text-slate-400">No additional remarks logged.</p>
+                          <p className="text-[11px] text-slate-400">{t('portal.symptoms.noRemarks')}</p>
                         )}
                       </div>
                     ))}
@@ -661,11 +615,11 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
             <div className="bg-surface dark:bg-slate-900 p-6 md:p-8 rounded-2xl border border-border/50 dark:border-slate-800 shadow-sm flex flex-col h-[550px] animate-fade-in relative">
               <div className="border-b border-border/60 dark:border-slate-800 pb-4 mb-4 flex items-center justify-between">
                 <div>
-                  <h2 className="text-2xl font-extrabold text-text-primary dark:text-white font-display">Dermatological Messaging Thread</h2>
-                  <p className="text-xs text-text-secondary dark:text-slate-400 mt-1">Direct communication portal with your primary medical practitioner.</p>
+                  <h2 className="text-2xl font-extrabold text-text-primary dark:text-white font-display">{t('portal.messaging.title')}</h2>
+                  <p className="text-xs text-text-secondary dark:text-slate-400 mt-1">{t('portal.messaging.intro')}</p>
                 </div>
                 <div className="flex items-center gap-2 text-xs font-bold text-emerald-500 font-mono uppercase bg-emerald-50 dark:bg-emerald-950/20 px-3 py-1 rounded-full">
-                  <span className="h-1.5 w-1.5 bg-emerald-500 rounded-full animate-ping" /> Connection Encrypted
+                  <span className="h-1.5 w-1.5 bg-emerald-500 rounded-full animate-ping" /> {t('portal.messaging.encrypted')}
                 </div>
               </div>
 
@@ -675,7 +629,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                   <div className="h-full flex flex-col items-center justify-center text-center">
                     <MessageSquare className="h-12 w-12 text-slate-350 animate-pulse mb-3" />
                     <p className="text-sm font-semibold text-text-secondary dark:text-slate-400 max-w-sm">
-                      Your query desk is empty. Type your message below to send comments, concerns, or coordinate evaluations to your doctor.
+                      {t('portal.messaging.empty')}
                     </p>
                   </div>
                 ) : (
@@ -695,7 +649,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
                           {msg.text}
                         </div>
                         <span className="text-[9px] text-slate-400 dark:text-slate-500 mt-1 font-mono uppercase tracking-wider">
-                          {isMe ? 'You' : 'Dr. Practitioner'} • {msg.timestamp}
+                          {isMe ? t('portal.messaging.you') : t('portal.messaging.doctor')} • {msg.timestamp}
                         </span>
                       </div>
                     );
@@ -707,7 +661,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
               <div className="flex gap-2.5 items-center border-t border-slate-100 dark:border-slate-800 pt-4 bg-white dark:bg-slate-900 sticky bottom-0">
                 <input
                   type="text"
-                  placeholder="Type message or ask questions about suspicious lesions..."
+                  placeholder={t('portal.messaging.placeholder')}
                   className="flex-grow bg-[#fafbfc] dark:bg-slate-950 border border-slate-205 dark:border-slate-800 text-slate-800 dark:text-slate-100 rounded-xl px-4 py-3.5 text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary outline-none transition-all"
                   value={chatMessage}
                   onChange={(e) => setChatMessage(e.target.value)}
@@ -734,7 +688,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
         <div className="fixed inset-0 bg-black/75 backdrop-blur-md flex items-center justify-center z-50 animate-fade-in p-4">
           <div className="bg-background dark:bg-[#0f172a] rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto animate-slide-up border border-border/65 dark:border-slate-800">
             <div className="p-4 flex justify-between items-center border-b border-border dark:border-slate-800 sticky top-0 bg-background/90 dark:bg-[#0f172a]/95 backdrop-blur-sm z-10">
-              <h2 className="text-xl font-bold text-text-primary dark:text-slate-100">Scan Details & Result Feed</h2>
+              <h2 className="text-xl font-bold text-text-primary dark:text-slate-100">{t('portal.scan.title')}</h2>
               <button 
                 onClick={() => setViewingImage(null)} 
                 className="text-text-secondary dark:text-slate-400 hover:text-text-primary dark:hover:text-white transition-colors"
@@ -744,31 +698,31 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
             </div>
             <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-8">
               <div className="flex flex-col items-center">
-                <img src={viewingImage.imageDataUrl} alt="Lesion condition view" className="rounded-lg w-full max-h-[380px] object-contain shadow-md border dark:border-slate-800" />
+                <img src={viewingImage.imageDataUrl} alt={t('portal.scan.imageAlt')} className="rounded-lg w-full max-h-[380px] object-contain shadow-md border dark:border-slate-800" />
                 <p className="text-center text-xs text-text-secondary dark:text-slate-450 mt-3 font-mono">
-                  Scan date: {new Date(viewingImage.timestamp).toLocaleString()}
+                  {t('portal.scan.date', { date: new Date(viewingImage.timestamp).toLocaleString(locale) })}
                 </p>
               </div>
               <div>
                 {viewingImage.analysisResult ? (
-                  <ResultCard result={viewingImage.analysisResult} />
+                  <TranslatedResult patientId={patient.id} image={{ ...viewingImage, analysisResult: viewingImage.analysisResult }} role="patient" />
                 ) : (
                   <div className="bg-[#fafbfc] dark:bg-slate-900 border border-slate-205 dark:border-slate-800 rounded-2xl p-6 text-center space-y-4">
                     <div className="mx-auto h-12 w-12 rounded-full bg-amber-500/15 flex items-center justify-center text-amber-500 animate-pulse">
                       <Clock className="h-6 w-6" />
                     </div>
                     <div className="space-y-2">
-                      <h3 className="font-extrabold text-base text-text-primary dark:text-white">Review & AI Scan Pending</h3>
+                      <h3 className="font-extrabold text-base text-text-primary dark:text-white">{t('portal.scan.pending.title')}</h3>
                       <p className="text-xs text-text-secondary dark:text-slate-400">
-                        Your uploaded photo is safely stored in your clinical archive.
+                        {t('portal.scan.pending.stored')}
                       </p>
                       <p className="text-xs text-text-secondary/80 dark:text-slate-400/80 leading-relaxed max-w-md mx-auto">
-                        Your clinical practitioner will inspect this lesion, add target boundaries/tags, and run precise dermoscopic AI scanning algorithms during your next consultation session.
+                        {t('portal.scan.pending.body')}
                       </p>
                     </div>
                     {viewingImage.patientNotes && (
                       <div className="bg-white dark:bg-slate-950 p-4 rounded-xl border border-border/80 text-left mt-4">
-                        <h4 className="text-[10px] font-bold text-slate-500 font-mono uppercase tracking-wider mb-1">Your uploaded comments:</h4>
+                        <h4 className="text-[10px] font-bold text-slate-500 font-mono uppercase tracking-wider mb-1">{t('portal.scan.pending.comments')}</h4>
                         <p className="text-xs italic text-text-primary dark:text-slate-300 leading-relaxed">
                           &ldquo;{viewingImage.patientNotes}&rdquo;
                         </p>
@@ -787,7 +741,7 @@ export const PatientPortal: React.FC<PatientPortalProps> = ({
         <div className="max-w-4xl mx-auto flex items-center justify-center gap-3">
           <ShieldAlert className="h-4 w-4 text-warning flex-shrink-0 animate-pulse" />
           <span>
-            <strong>Medical Disclaimer:</strong> DermDetect AI tools and metrics serve only as tracking companions. Consult a primary care clinic or board-certified dermatologist for biopsied medical diagnoses.
+            <strong>{t('portal.footer.disclaimerTitle')}</strong> {t('portal.footer.disclaimer')}
           </span>
         </div>
       </footer>
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { ProvenanceAnnotations, ResultProvenance } from '../types';
+
+interface ProvenanceDetailsProps {
+  provenance?: ResultProvenance;
+}
+
+const describeAnnotations = ({ boundingBox, pins, practitionerNotes }: Partial<ProvenanceAnnotations>): string => {
+  const parts = [
+    boundingBox ? 'bounding box' : null,
+    pins && pins.length > 0 ? `${pins.length} pin${pins.length === 1 ? '' : 's'} (${pins.map(pin => pin.label || 'unlabeled').join(', ')})` : null,
+    practitionerNotes ? 'clinician notes' : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+};
+
+/**
+ * Which model and prompt version produced an AI result, from which inputs and when
+ */
+export const ProvenanceDetails: React.FC<ProvenanceDetailsProps> = ({ provenance }) => (
+  <div className="mt-4 p-3.5 rounded-xl border border-border/60 dark:border-slate-800 bg-[#fbfcfe] dark:bg-slate-950/60 text-xs">
+    <h4 className="font-bold text-slate-500 uppercase tracking-wider font-mono mb-2">Result Provenance:</h4>
+    {provenance ? (
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-text-primary dark:text-slate-300">
+        <dt className="text-text-secondary dark:text-slate-400">Model</dt>
+        <dd className="font-mono">{provenance.model} <span className="text-text-secondary dark:text-slate-500">({provenance.provider})</span></dd>
+        <dt className="text-text-secondary dark:text-slate-400">Prompt version</dt>
+        <dd className="font-mono">v{provenance.promptVersion}</dd>
+        <dt className="text-text-secondary dark:text-slate-400">Generated</dt>
+        <dd className="font-mono">{new Date(provenance.generatedAt).toLocaleString()}</dd>
+        {provenance.annotations && (
+          <>
+            <dt className="text-text-secondary dark:text-slate-400">Annotations</dt>
+            <dd>{describeAnnotations(provenance.annotations)}</dd>
+          </>
+        )}
+        {provenance.captures?.map((capture, index) => (
+          <React.Fragment key={index}>
+            <dt className="text-text-secondary dark:text-slate-400">Capture {index + 1}</dt>
+            <dd>
+              {capture.capturedAt ? new Date(capture.capturedAt).toLocaleDateString() : 'undated'}
+              {/* Series captures are compared whole, so they carry no annotation inputs */}
+              {capture.pins !== undefined && `; annotations: ${describeAnnotations(capture)}`}
+            </dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    ) : (
+      <p className="text-text-secondary dark:text-slate-400">Not recorded. This result was stored before model and prompt provenance was tracked.</p>
+    )}
+  </div>
+);
@@ -1,10 +1,17 @@
-import React from 'react';
+import React, { useState } from 'react';
 import type { AnalysisResult } from '../types';
+import { AbcdeScorecard } from './AbcdeScorecard';
+import { UrgencyBadge } from './UrgencyBadge';
+import { useI18n, type MessageKey } from '../i18n/I18nProvider';
 
 interface ResultCardProps {
   result: AnalysisResult;
+  // Patients only ever see the plain-language view; practitioners can switch between both
+  role?: 'practitioner' | 'patient';
 }
 
+type Audience = 'clinician' | 'patient';
+
 const getConfidenceClasses = (confidence: string): { bg: string, text: string, border: string } => {
     switch(confidence.toLowerCase()) {
         case 'high':
@@ -34,6 +41,18 @@ const getConfidenceClasses = (confidence: string): { bg: string, text: string, b
     }
 }
 
+// Confidence stays an English enum in results; only its display is localized
+const CONFIDENCE_LABELS: Record<string, MessageKey> = {
+    high: 'result.confidence.high',
+    medium: 'result.confidence.medium',
+    low: 'result.confidence.low',
+};
+
+export const confidenceLabel = (confidence: string, t: (key: MessageKey) => string) => {
+    const key = CONFIDENCE_LABELS[confidence.toLowerCase()];
+    return key ? t(key) : confidence;
+};
+
 const InfoIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 inline-block text-text-secondary dark:text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -46,30 +65,118 @@ const CheckCircleIcon = () => (
     </svg>
 )
 
-export const ResultCard: React.FC<ResultCardProps> = ({ result }) => {
+export const ResultCard: React.FC<ResultCardProps> = ({ result, role = 'practitioner' }) => {
+  const { t } = useI18n();
+  const [practitionerView, setPractitionerView] = useState<Audience>('clinician');
+  const audience: Audience = role === 'patient' ? 'patient' : practitionerView;
   const confidenceClasses = getConfidenceClasses(result.confidence);
   return (
     <div className="bg-surface dark:bg-slate-800 rounded-2xl shadow-lg p-6 md:p-8 animate-fade-in border border-border/60 dark:border-slate-700/60 transition-colors">
         <div className="flex flex-col md:flex-row md:items-start md:justify-between border-b border-border dark:border-slate-750 pb-4 mb-6">
             <div>
-                <p className="text-sm font-medium text-text-secondary dark:text-slate-400">Potential Condition</p>
+                <p className="text-sm font-medium text-text-secondary dark:text-slate-400">{t('result.potentialCondition')}</p>
                 <h2 className="text-3xl font-extrabold text-primary mt-1">{result.conditionName}</h2>
             </div>
             <div className="mt-4 md:mt-0 text-left md:text-right">
-                <p className="text-sm font-medium text-text-secondary dark:text-slate-400 mb-2">AI Confidence Level</p>
+                <p className="text-sm font-medium text-text-secondary dark:text-slate-400 mb-2">{t('result.confidenceLevel')}</p>
                 <span className={`px-4 py-1.5 text-sm font-bold rounded-full ${confidenceClasses.bg} ${confidenceClasses.text}`}>
-                    {result.confidence}
+                    {confidenceLabel(result.confidence, t)}
                 </span>
             </div>
         </div>
 
-        <div className="mb-6">
-            <h3 className="text-lg font-semibold text-text-primary dark:text-slate-100 mb-2 flex items-center"><InfoIcon />Description</h3>
-            <p className="text-text-secondary dark:text-slate-300 leading-relaxed">{result.description}</p>
-        </div>
+        {role === 'practitioner' && (
+            <div className="mb-6 flex items-center gap-3">
+                <span className="text-sm font-medium text-text-secondary dark:text-slate-400">{t('result.view.label')}</span>
+                <div className="inline-flex p-1 rounded-lg bg-slate-100 dark:bg-slate-900/60 border border-border/60 dark:border-slate-700/60" role="group">
+                    {(['clinician', 'patient'] as const).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setPractitionerView(option)}
+                            aria-pressed={practitionerView === option}
+                            className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors ${practitionerView === option ? 'bg-surface dark:bg-slate-700 text-primary shadow-sm' : 'text-text-secondary dark:text-slate-400 hover:text-text-primary dark:hover:text-slate-200'}`}
+                        >
+                            {t(option === 'clinician' ? 'result.view.clinician' : 'result.view.patient')}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        {audience === 'clinician' ? (
+            <div className="mb-6">
+                <h3 className="text-lg font-semibold text-text-primary dark:text-slate-100 mb-2 flex items-center"><InfoIcon />{t('result.description')}</h3>
+                <p className="text-text-secondary dark:text-slate-300 leading-relaxed">{result.description}</p>
+                {result.clinicianSummary && (
+                    <dl className="mt-4 space-y-3">
+                        <div>
+                            <dt className="text-sm font-semibold text-text-primary dark:text-slate-200">{t('result.clinician.morphology')}</dt>
+                            <dd className="text-sm text-text-secondary dark:text-slate-300 leading-relaxed">{result.clinicianSummary.morphology}</dd>
+                        </div>
+                        <div>
+                            <dt className="text-sm font-semibold text-text-primary dark:text-slate-200">{t('result.clinician.reasoning')}</dt>
+                            <dd className="text-sm text-text-secondary dark:text-slate-300 leading-relaxed">{result.clinicianSummary.differentialReasoning}</dd>
+                        </div>
+                    </dl>
+                )}
+            </div>
+        ) : (
+            <div className="mb-6">
+                <h3 className="text-lg font-semibold text-text-primary dark:text-slate-100 mb-2 flex items-center"><InfoIcon />{t('result.patient.explanation')}</h3>
+                <p className="text-text-secondary dark:text-slate-300 leading-relaxed">{result.patientSummary?.explanation ?? result.description}</p>
+                {role === 'practitioner' && result.patientSummary?.readingGrade !== undefined && (
+                    <p className="mt-2 text-xs text-text-secondary dark:text-slate-400">{t('result.patient.readingGrade', { grade: result.patientSummary.readingGrade })}</p>
+                )}
+            </div>
+        )}
+
+        {result.urgency && (
+            <div className="mb-6 flex items-start gap-3 p-3.5 rounded-xl border border-border/60 dark:border-slate-700/60 bg-[#fbfcfe] dark:bg-slate-900/60">
+                <UrgencyBadge tier={result.urgency.tier} />
+                <p className="text-sm text-text-secondary dark:text-slate-300">{result.urgency.reason}</p>
+            </div>
+        )}
+
+        {audience === 'clinician' && result.abcde && (
+            <div className="mb-6">
+                <AbcdeScorecard abcde={result.abcde} />
+            </div>
+        )}
+
+        {audience === 'clinician' && result.differentials && result.differentials.length > 0 && (
+            <div className="mb-6">
+                <h3 className="text-lg font-semibold text-text-primary dark:text-slate-100 mb-3">{t('result.differentials')}</h3>
+                <ol className="space-y-3">
+                    {result.differentials.map((candidate, index) => (
+                        <li key={`${candidate.condition}-${index}`} className="p-3.5 rounded-xl border border-border/60 dark:border-slate-700/60 bg-[#fbfcfe] dark:bg-slate-900/60">
+                            <div className="flex items-center justify-between gap-3">
+                                <p className="font-semibold text-text-primary dark:text-slate-100">
+                                    <span className="text-text-secondary dark:text-slate-400 font-mono mr-2">#{index + 1}</span>
+                                    {candidate.condition}
+                                </p>
+                                <span className="text-sm font-bold text-primary font-mono">{Math.round(candidate.likelihood * 100)}%</span>
+                            </div>
+                            <div className="mt-2 h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                                <div className="h-full bg-primary rounded-full" style={{ width: `${Math.min(100, Math.max(0, candidate.likelihood * 100))}%` }} />
+                            </div>
+                            {candidate.supportingFeatures.length > 0 && (
+                                <p className="mt-2 text-sm text-text-secondary dark:text-slate-300">
+                                    <span className="font-medium text-text-primary dark:text-slate-200">{t('result.supportingFeatures')}</span> {candidate.supportingFeatures.join('; ')}
+                                </p>
+                            )}
+                            {index > 0 && candidate.distinguishingFeatures.length > 0 && (
+                                <p className="mt-1 text-sm text-text-secondary dark:text-slate-300">
+                                    <span className="font-medium text-text-primary dark:text-slate-200">{t('result.versus', { condition: result.differentials![0].condition })}</span> {candidate.distinguishingFeatures.join('; ')}
+                                </p>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            </div>
+        )}
 
         <div>
-            <h3 className="text-lg font-semibold text-text-primary dark:text-slate-100 mb-3">Recommendations</h3>
+            <h3 className="text-lg font-semibold text-text-primary dark:text-slate-100 mb-3">{t('result.recommendations')}</h3>
             <ul className="space-y-3">
                 {result.recommendations.map((rec, index) => (
                     <li key={index} className="flex items-start">
@@ -79,6 +186,12 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result }) => {
                 ))}
             </ul>
         </div>
+
+        {result.safety && result.safety.findings.length > 0 && (
+            <p className="mt-6 text-xs text-text-secondary dark:text-slate-400 bg-slate-50 dark:bg-slate-900/60 border border-border/60 dark:border-slate-700/60 rounded-lg p-3">
+                {t(result.safety.findings.length === 1 ? 'result.safetyRemoved.one' : 'result.safetyRemoved.other', { count: result.safety.findings.length })}
+            </p>
+        )}
     </div>
   );
 };
\ No newline at end of file
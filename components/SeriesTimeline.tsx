@@ -0,0 +1,75 @@
+import React from 'react';
+import type { LesionImage, ProgressionTrajectory, SeriesComparisonResult } from '../types';
+import { UrgencyBadge } from './UrgencyBadge';
+
+interface SeriesTimelineProps {
+  result: SeriesComparisonResult;
+  images: LesionImage[]; // Used to show a thumbnail for each capture in the series
+}
+
+const TRAJECTORY_CLASSES: Record<ProgressionTrajectory, string> = {
+    improving: 'bg-success-light dark:bg-emerald-950/40 text-success-text dark:text-emerald-400',
+    stable: 'bg-slate-100 dark:bg-slate-800/80 text-slate-700 dark:text-slate-300',
+    worsening: 'bg-danger-light dark:bg-rose-950/40 text-danger-text dark:text-rose-400',
+    fluctuating: 'bg-warning-light dark:bg-amber-950/40 text-warning-text dark:text-amber-400',
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+/**
+ * Vertical timeline of a series comparison: each capture as a node, with the interval's change between consecutive nodes
+ */
+export const SeriesTimeline: React.FC<SeriesTimelineProps> = ({ result, images }) => {
+  const thumbnail = (imageId?: string) => images.find(img => img.id === imageId)?.imageDataUrl;
+  const captures = [
+    { imageId: result.intervals[0]?.fromImageId, capturedAt: result.intervals[0]?.fromCapturedAt },
+    ...result.intervals.map(interval => ({ imageId: interval.toImageId, capturedAt: interval.toCapturedAt })),
+  ];
+
+  return (
+    <div className="bg-surface dark:bg-slate-800 rounded-2xl shadow-lg p-6 md:p-8 mt-6 animate-fade-in border border-border/60 dark:border-slate-700/60">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h3 className="text-xl font-bold text-text-primary dark:text-slate-100">Series Progression</h3>
+            <div className="flex items-center gap-2">
+                <span className={`px-3 py-1 text-xs font-bold uppercase tracking-wider rounded-full ${TRAJECTORY_CLASSES[result.trajectory]}`}>{result.trajectory}</span>
+                {result.urgency && <UrgencyBadge tier={result.urgency.tier} />}
+            </div>
+        </div>
+        <p className="text-text-secondary dark:text-slate-300 leading-relaxed">{result.trajectorySummary}</p>
+        {result.urgency && <p className="mt-2 text-sm text-text-secondary dark:text-slate-400">{result.urgency.reason}</p>}
+
+        <ol className="relative border-l border-border dark:border-slate-700 ml-7 mt-6 space-y-4">
+            {captures.map((capture, index) => (
+                <React.Fragment key={`${capture.imageId}-${index}`}>
+                    <li className="relative pl-10">
+                        <div className="absolute -left-7 top-0">
+                            {thumbnail(capture.imageId) ? (
+                                <img src={thumbnail(capture.imageId)} className="w-14 h-14 object-cover rounded-lg border-2 border-white dark:border-slate-800 shadow" alt={`Capture ${index + 1}`} />
+                            ) : (
+                                <div className="w-14 h-14 rounded-lg bg-slate-100 dark:bg-slate-900 border-2 border-white dark:border-slate-800" />
+                            )}
+                        </div>
+                        <p className="font-semibold text-text-primary dark:text-slate-100 pt-4">Capture {index + 1}</p>
+                        <p className="text-xs text-text-secondary dark:text-slate-400 font-mono">{capture.capturedAt && formatDate(capture.capturedAt)}</p>
+                    </li>
+                    {index < result.intervals.length && (
+                        <li className="pl-10 pt-2">
+                            <div className="p-3.5 rounded-xl border border-border/60 dark:border-slate-700/60 bg-[#fbfcfe] dark:bg-slate-900/60">
+                                <p className="text-sm font-semibold text-text-primary dark:text-slate-100">{result.intervals[index].changeSummary}</p>
+                                <ul className="mt-1 list-disc list-inside text-sm text-text-secondary dark:text-slate-300 space-y-0.5">
+                                    {result.intervals[index].keyObservations.map((observation, i) => <li key={i}>{observation}</li>)}
+                                </ul>
+                            </div>
+                        </li>
+                    )}
+                </React.Fragment>
+            ))}
+        </ol>
+
+        <div className="mt-6 border-t border-border dark:border-slate-700 pt-4">
+            <h4 className="font-semibold text-text-primary dark:text-slate-100">Recommendation</h4>
+            <p className="text-text-secondary dark:text-slate-300 mt-1">{result.recommendation}</p>
+        </div>
+    </div>
+  );
+};
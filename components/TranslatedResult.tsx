@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { Languages, Loader2 } from 'lucide-react';
+import type { AnalysisResult, LesionImage } from '../types';
+import { translateLesionResult } from '../services/patientService';
+import { useI18n } from '../i18n/I18nProvider';
+import { ResultCard } from './ResultCard';
+import { ErrorNotice } from './ErrorNotice';
+
+interface TranslatedResultProps {
+  patientId: string;
+  image: LesionImage & { analysisResult: AnalysisResult };
+  role?: 'practitioner' | 'patient';
+}
+
+/**
+ * Shows a stored scan result in the reader's language. A stored translation is used when there is one; otherwise
+ * the server translates the result once. The original stays one click away and is shown while translating.
+ */
+export const TranslatedResult: React.FC<TranslatedResultProps> = ({ patientId, image, role }) => {
+  const { locale, t } = useI18n();
+  const source = image.analysisResult;
+  const sourceLocale = source.provenance?.locale ?? 'en';
+  const needsTranslation = sourceLocale !== locale;
+  const [translation, setTranslation] = useState<AnalysisResult | null>(image.analysisTranslations?.[locale] ?? null);
+  const [error, setError] = useState<unknown>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    const stored = image.analysisTranslations?.[locale] ?? null;
+    setTranslation(stored);
+    setError(null);
+    if (!needsTranslation || stored) return;
+    let cancelled = false;
+    translateLesionResult(patientId, image.id, locale)
+      .then(result => { if (!cancelled) setTranslation(result); })
+      .catch(err => { if (!cancelled) setError(err); });
+    return () => { cancelled = true; };
+  }, [patientId, image.id, source, locale, attempt]);
+
+  if (!needsTranslation) {
+    return <ResultCard result={source} role={role} />;
+  }
+
+  const isTranslating = !translation && !error;
+  const shown = showOriginal || !translation ? source : translation;
+  return (
+    <div className="space-y-3">
+      {error ? (
+        <ErrorNotice error={error} onRetry={() => setAttempt(prev => prev + 1)} />
+      ) : (
+        <div className="flex items-center justify-between gap-3 px-3.5 py-2.5 rounded-xl border border-indigo-200/60 dark:border-indigo-900/60 bg-indigo-50/60 dark:bg-indigo-950/20 text-xs text-indigo-700 dark:text-indigo-300">
+          <span className="flex items-center gap-2">
+            {isTranslating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Languages className="h-4 w-4" />}
+            {isTranslating
+              ? t('translation.translating', { language: t(`language.${locale}`) })
+              : t('translation.translatedFrom', { language: t(`language.${sourceLocale}`) })}
+          </span>
+          {translation && (
+            <button onClick={() => setShowOriginal(prev => !prev)} className="flex-shrink-0 font-semibold underline underline-offset-2 hover:text-indigo-900 dark:hover:text-indigo-100">
+              {showOriginal ? t('translation.showTranslation', { language: t(`language.${locale}`) }) : t('translation.showOriginal')}
+            </button>
+          )}
+        </div>
+      )}
+      <ResultCard result={shown} role={role} />
+    </div>
+  );
+};
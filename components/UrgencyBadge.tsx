@@ -0,0 +1,24 @@
+import React from 'react';
+import type { UrgencyTier } from '../types';
+import { useI18n, type MessageKey } from '../i18n/I18nProvider';
+
+const TIER_CLASSES: Record<UrgencyTier, string> = {
+  urgent: 'bg-danger-light text-danger-text dark:bg-rose-950/40 dark:text-rose-400',
+  soon: 'bg-warning-light text-warning-text dark:bg-amber-950/40 dark:text-amber-400',
+  routine: 'bg-success-light text-success-text dark:bg-emerald-950/40 dark:text-emerald-400',
+};
+
+const TIER_LABELS: Record<UrgencyTier, MessageKey> = {
+  urgent: 'urgency.urgent',
+  soon: 'urgency.soon',
+  routine: 'urgency.routine',
+};
+
+export const UrgencyBadge: React.FC<{ tier: UrgencyTier }> = ({ tier }) => {
+  const { t } = useI18n();
+  return (
+    <span className={`px-3 py-1 text-xs font-bold uppercase tracking-wider rounded-full ${TIER_CLASSES[tier]}`}>
+      {t(TIER_LABELS[tier])}
+    </span>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { createContext, useCallback, useContext, useMemo } from 'react';
+import type { Locale } from '../types';
+import { en, type MessageKey } from './messages/en';
+import { es } from './messages/es';
+import { fr } from './messages/fr';
+
+export type { MessageKey };
+export type MessageVars = Record<string, string | number>;
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'es', 'fr'];
+
+// Each language's own name, so readers can find theirs whatever the page is currently shown in
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, es, fr };
+
+const LOCALE_STORAGE_KEY = 'locale';
+
+export const isLocale = (value: unknown): value is Locale => SUPPORTED_LOCALES.includes(value as Locale);
+
+/**
+ * Fills a message's {placeholders}; unknown placeholders are left as written
+ */
+export const translate = (locale: Locale, key: MessageKey, vars: MessageVars = {}) =>
+  CATALOGS[locale][key].replace(/\{(\w+)\}/g, (match, name: string) => (name in vars ? String(vars[name]) : match));
+
+/**
+ * The locale to show before anyone signs in: the last one picked on this device, else the browser's language
+ */
+export const detectLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+  if (isLocale(saved)) {
+    return saved;
+  }
+  const browser = navigator.language.slice(0, 2).toLowerCase();
+  return isLocale(browser) ? browser : 'en';
+};
+
+export const rememberLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  document.documentElement.lang = locale;
+};
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, vars?: MessageVars) => string;
+}
+
+// Components rendered outside a provider fall back to English
+const I18nContext = createContext<I18nContextValue>({
+  locale: 'en',
+  setLocale: () => undefined,
+  t: (key, vars) => translate('en', key, vars),
+});
+
+interface I18nProviderProps {
+  locale: Locale;
+  onLocaleChange: (locale: Locale) => void;
+  children: React.ReactNode;
+}
+
+export const I18nProvider: React.FC<I18nProviderProps> = ({ locale, onLocaleChange, children }) => {
+  const t = useCallback((key: MessageKey, vars?: MessageVars) => translate(locale, key, vars), [locale]);
+  const value = useMemo(() => ({ locale, setLocale: onLocaleChange, t }), [locale, onLocaleChange, t]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,181 @@
+// Source catalog: every key the UI uses, in English. Other locales must translate every key (see MessageKey).
+// Placeholders such as {count} are filled in by t(); keep them unchanged in translations.
+export const en = {
+  // Language switcher and shared chrome
+  'language.label': 'Language',
+  'language.en': 'English',
+  'language.es': 'Spanish',
+  'language.fr': 'French',
+  'theme.toLight': 'Switch to Light Mode',
+  'theme.toDark': 'Switch to Dark Mode',
+  'header.logout': 'Logout',
+
+  // Landing page
+  'landing.tagline': 'Clinical Companion',
+  'landing.nav.features': 'Features',
+  'landing.nav.workflow': 'How It Works',
+  'landing.nav.security': 'Security Details',
+  'landing.accessPortal': 'Access Portal',
+  'landing.hero.badge': 'Advanced Neural Vision Progress Engine',
+  'landing.hero.titleStart': 'Intelligent Skin Lesion Tracking,',
+  'landing.hero.titleHighlight': 'AI-Powered',
+  'landing.hero.titleEnd': 'Clinical Insights.',
+  'landing.hero.body': 'DermDetect AI provides medical practitioners and research-stage clinics a secure sandbox to map histories, track lesion metrics over time, and safely query advanced Google Gemini multimodal vision layers.',
+  'landing.hero.enter': 'Enter Clinic Workspace',
+  'landing.hero.explore': 'Explore Capabilities',
+  'landing.features.badge': 'Capabilities',
+  'landing.features.title': 'Clinical Diagnostic Support Modules',
+  'landing.features.subtitle': 'Engineered to streamline tracking, visual delta comparisons, and high-precision clinician notations.',
+  'landing.features.analysis.title': 'AI Condition Analysis',
+  'landing.features.analysis.body': 'Verify suspected lesion images against deep vision networks using backend endpoints. Retrieve condition descriptors, calculated confidence metrics, and doctor safety protocols instantly.',
+  'landing.features.comparison.title': 'Temporal Comparison',
+  'landing.features.comparison.body': 'Track progression rates with precision. Select dual images captured weeks or months apart to prompt comparative evaluation of change vectors—detailing scale, borders, and color metrics.',
+  'landing.features.registry.title': 'Digital Patient Registry',
+  'landing.features.registry.body': 'Consolidate clinic files under an elegant interface. Record dates of birth, specific blood profiles, and underlying chronic sensitivities along with unified medical file archives.',
+  'landing.workflow.badge': 'Integration Flow',
+  'landing.workflow.title': 'Streamlined Medical Workflow',
+  'landing.workflow.subtitle': 'Move effortlessly from indexing patient files to triggering full spatial progression evaluations.',
+  'landing.workflow.step1.title': 'Index Profile',
+  'landing.workflow.step1.body': 'Construct patient demography profiles including clinical notations and past therapeutic histories.',
+  'landing.workflow.step2.title': 'Upload Captures',
+  'landing.workflow.step2.body': 'Import close-up macroscopic dermoscopy photographs. Files process securely inside browser memories.',
+  'landing.workflow.step3.title': 'Trigger API Analysis',
+  'landing.workflow.step3.body': 'Query the secure node proxy backend to fetch multimodal diagnostic breakdowns from the Google Gemini vision API.',
+  'landing.workflow.step4.title': 'Evaluate Growth Delta',
+  'landing.workflow.step4.body': 'Select two scans to analyze changes in borders, size, color shifts, and evolution coefficients.',
+  'landing.security.title': 'Clinical Security Model',
+  'landing.security.intro': 'DermDetect AI separates analytical computation from browser endpoints to preserve privacy and safety constraints:',
+  'landing.security.keys.title': 'No Client Keys',
+  'landing.security.keys.body': 'Unlike standard client prototypes, API tokens reside solely on custom secure container runtimes, making key exposure impossible.',
+  'landing.security.transport.title': 'Encrypted Intermediary Transports',
+  'landing.security.transport.body': 'Visual payloads pass through localized proxy servers via end-to-end TLS tunnels.',
+  'landing.security.vault.title': 'Browser Demography Vault',
+  'landing.security.vault.body': 'Data is indexed into clinical local vaults, ensuring complete administrator session control.',
+  'landing.advisory.title': 'Clinical Advisory:',
+  'landing.advisory.body': 'DermDetect AI products, assessments, and comparative progression coefficients serve clinical research and tracking objectives only. These assessments must not serve as verified medical diagnoses. DermDetect AI never bypasses regular dermatological evaluations or professional biopsy protocols.',
+  'landing.footer.about': 'Empowering medical clinics with structured progress logs, progression comparison metrics, and secure AI analytical pipelines.',
+  'landing.footer.platform': 'Platform features',
+  'landing.footer.platform.analysis': 'AI Lesion Audit',
+  'landing.footer.platform.tracking': 'Temporal Delta Tracking',
+  'landing.footer.platform.registry': 'Digital Health Registry',
+  'landing.footer.platform.sandbox': 'Local Sandbox Encapsulation',
+  'landing.footer.resources': 'Professional Resources',
+  'landing.footer.compliance.title': 'EHR Compliance',
+  'landing.footer.compliance.body': 'Matches structural formats of standard electronic health records. Payload transfers apply secure end-to-end encryption. All medical logs remain inside client administrator sandboxes.',
+  'landing.footer.copyright': '© {year} DermDetect AI Inc. All rights reserved. Clinical Research Hub.',
+  'landing.footer.registration': 'License Registration',
+
+  // AI result card, ABCDE scorecard and urgency badge
+  'result.potentialCondition': 'Potential Condition',
+  'result.confidenceLevel': 'AI Confidence Level',
+  'result.confidence.high': 'High',
+  'result.confidence.medium': 'Medium',
+  'result.confidence.low': 'Low',
+  'result.description': 'Description',
+  'result.differentials': 'Differential Diagnosis',
+  'result.supportingFeatures': 'Supporting features:',
+  'result.versus': 'Versus {condition}:',
+  'result.recommendations': 'Recommendations',
+  'result.view.label': 'Show for:',
+  'result.view.clinician': 'Clinician',
+  'result.view.patient': 'Patient',
+  'result.clinician.morphology': 'Morphology',
+  'result.clinician.reasoning': 'Differential Reasoning',
+  'result.patient.explanation': 'What This Means',
+  'result.patient.readingGrade': 'Reading level: grade {grade}',
+  'result.safetyRemoved.one': 'The clinical safety filter removed {count} statement mentioning medications, treatments or dosages from this result.',
+  'result.safetyRemoved.other': 'The clinical safety filter removed {count} statements mentioning medications, treatments or dosages from this result.',
+  'abcde.title': 'ABCDE Scorecard',
+  'abcde.notPigmented': 'This lesion does not appear pigmented; ABCDE criteria are designed for pigmented lesions and should be read with caution.',
+  'abcde.asymmetry': 'Asymmetry',
+  'abcde.border': 'Border',
+  'abcde.color': 'Color',
+  'abcde.diameter': 'Diameter',
+  'abcde.evolution': 'Evolution',
+  'abcde.score.0': 'Reassuring',
+  'abcde.score.1': 'Equivocal',
+  'abcde.score.2': 'Concerning',
+  'abcde.notAssessable': 'Not assessable',
+  'abcde.baseline': 'Baseline capture: {date}',
+  'urgency.urgent': 'Urgent',
+  'urgency.soon': 'See Soon',
+  'urgency.routine': 'Routine',
+
+  // Stored results shown in the reader's language
+  'translation.translating': 'Translating this result into {language}...',
+  'translation.translatedFrom': 'Translated by AI from {language}. The original result is the clinical record.',
+  'translation.showOriginal': 'Show original',
+  'translation.showTranslation': 'Show in {language}',
+
+  // Patient portal
+  'portal.title': 'Patient Vault',
+  'portal.badge': 'Terminal',
+  'portal.loggedIn': 'Logged In:',
+  'portal.signOut': 'Sign Out',
+  'portal.stats.scans': 'Total Scans',
+  'portal.stats.logs': 'Daily Logs',
+  'portal.nav.overview': 'Overview & Upload Scans',
+  'portal.nav.care': 'Home Monitoring Care Plan',
+  'portal.nav.symptoms': 'Symptom Log Journal',
+  'portal.nav.messaging': 'Messaging Thread',
+  'portal.upload.title': 'Capture & Track New Skin Lesion',
+  'portal.upload.intro': 'Add high-resolution dermoscopy photos to analyze patterns, isolate suspect boundaries, and catalog lesion growth rate over time.',
+  'portal.upload.preview': 'Selected Lesion Image Preview',
+  'portal.upload.previewAlt': 'Selected lesion preview',
+  'portal.upload.notesLabel': 'Add Optional Comments or Symptoms Description',
+  'portal.upload.notesPlaceholder': 'I noticed this skin spot a few weeks ago. It is slightly dry and has minor surface roughness...',
+  'portal.upload.cancel': 'Cancel',
+  'portal.upload.uploading': 'Uploading...',
+  'portal.upload.confirm': 'Confirm & Add Lesion',
+  'portal.upload.drop': 'Click area or drop files here to upload lesion scans',
+  'portal.upload.dropHint': 'Direct photos are stored safely inside your clinical profiles. Supports PNG, JPG, or WEBP files.',
+  'portal.archive.title': 'Scan Capture Archives ({count})',
+  'portal.archive.empty': 'No visual scans have been cataloged for your profile yet.',
+  'portal.archive.thumbnailAlt': 'Thumbnail of lesion',
+  'portal.archive.pending': 'Analysis Pending',
+  'portal.archive.confidence': 'Confidence: {level}',
+  'portal.archive.underReview': 'Under Review',
+  'portal.care.title': 'Daily Home Self-Care Plan',
+  'portal.care.intro': 'Recommended daily hygiene loops to facilitate comfortable lesion monitoring.',
+  'portal.care.compliance': 'Compliance: {done} / {total}',
+  'portal.care.perfect': 'Perfect Compliance!',
+  'portal.care.perfectBody': 'You have fully completed your home monitoring care schedule. Keeping regular routines assists in clinical diagnostics. Keep it up!',
+  'portal.care.default.t1': 'Apply broad-spectrum sunscreen SPF 50+ on exposed areas',
+  'portal.care.default.t2': 'Inspect skin areas for asymmetrical growth or border expansion',
+  'portal.care.default.t3': 'Keep active lesion site moisturized using gentle hypoallergenic creams',
+  'portal.care.default.t4': 'Refrain from scraping or scratching dry/raised skin zones',
+  'portal.care.default.t5': 'Hydrate actively (drink 8+ glasses of fluids daily)',
+  'portal.symptoms.title': 'New Symptom Progress Entry',
+  'portal.symptoms.intro': 'Maintain records of any change in lesion physical attributes to assist your clinician.',
+  'portal.symptoms.itching': 'Active Itchiness',
+  'portal.symptoms.bleeding': 'Bleeding or Oozing',
+  'portal.symptoms.colorChange': 'Rapid Color Shift',
+  'portal.symptoms.comments': 'Special Comments',
+  'portal.symptoms.placeholder': 'Detail any observations e.g. Border appears slightly rougher, raised area expanded.',
+  'portal.symptoms.save': 'Save Symptom Checkpoint',
+  'portal.symptoms.history': 'Historical Logs Archive ({count})',
+  'portal.symptoms.empty': 'No progress checkpoints recorded yet.',
+  'portal.symptoms.tag.itch': 'Itch',
+  'portal.symptoms.tag.bleed': 'Bleed',
+  'portal.symptoms.tag.color': 'Color',
+  'portal.symptoms.tag.stable': 'Stable',
+  'portal.symptoms.noRemarks': 'No additional remarks logged.',
+  'portal.messaging.title': 'Dermatological Messaging Thread',
+  'portal.messaging.intro': 'Direct communication portal with your primary medical practitioner.',
+  'portal.messaging.encrypted': 'Connection Encrypted',
+  'portal.messaging.empty': 'Your query desk is empty. Type your message below to send comments, concerns, or coordinate evaluations to your doctor.',
+  'portal.messaging.you': 'You',
+  'portal.messaging.doctor': 'Dr. Practitioner',
+  'portal.messaging.placeholder': 'Type message or ask questions about suspicious lesions...',
+  'portal.scan.title': 'Scan Details & Result Feed',
+  'portal.scan.imageAlt': 'Lesion condition view',
+  'portal.scan.date': 'Scan date: {date}',
+  'portal.scan.pending.title': 'Review & AI Scan Pending',
+  'portal.scan.pending.stored': 'Your uploaded photo is safely stored in your clinical archive.',
+  'portal.scan.pending.body': 'Your clinical practitioner will inspect this lesion, add target boundaries/tags, and run precise dermoscopic AI scanning algorithms during your next consultation session.',
+  'portal.scan.pending.comments': 'Your uploaded comments:',
+  'portal.footer.disclaimerTitle': 'Medical Disclaimer:',
+  'portal.footer.disclaimer': 'DermDetect AI tools and metrics serve only as tracking companions. Consult a primary care clinic or board-certified dermatologist for biopsied medical diagnoses.',
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,179 @@
+import type { MessageKey } from './en';
+
+export const es: Record<MessageKey, string> = {
+  // Language switcher and shared chrome
+  'language.label': 'Idioma',
+  'language.en': 'inglés',
+  'language.es': 'español',
+  'language.fr': 'francés',
+  'theme.toLight': 'Cambiar a modo claro',
+  'theme.toDark': 'Cambiar a modo oscuro',
+  'header.logout': 'Cerrar sesión',
+
+  // Landing page
+  'landing.tagline': 'Asistente clínico',
+  'landing.nav.features': 'Funciones',
+  'landing.nav.workflow': 'Cómo funciona',
+  'landing.nav.security': 'Seguridad',
+  'landing.accessPortal': 'Acceder al portal',
+  'landing.hero.badge': 'Motor avanzado de seguimiento por visión neuronal',
+  'landing.hero.titleStart': 'Seguimiento inteligente de lesiones cutáneas,',
+  'landing.hero.titleHighlight': 'con IA',
+  'landing.hero.titleEnd': 'Información clínica.',
+  'landing.hero.body': 'DermDetect AI ofrece a profesionales médicos y clínicas en fase de investigación un entorno seguro para registrar historiales, seguir la evolución de las lesiones y consultar de forma segura los modelos multimodales de visión de Google Gemini.',
+  'landing.hero.enter': 'Entrar al espacio clínico',
+  'landing.hero.explore': 'Ver funciones',
+  'landing.features.badge': 'Funciones',
+  'landing.features.title': 'Módulos de apoyo al diagnóstico clínico',
+  'landing.features.subtitle': 'Diseñados para agilizar el seguimiento, las comparaciones visuales y las anotaciones clínicas precisas.',
+  'landing.features.analysis.title': 'Análisis de afecciones con IA',
+  'landing.features.analysis.body': 'Analice imágenes de lesiones sospechosas con redes de visión profunda a través del servidor. Obtenga al instante la descripción de la afección, el nivel de confianza y las recomendaciones de seguridad para el médico.',
+  'landing.features.comparison.title': 'Comparación en el tiempo',
+  'landing.features.comparison.body': 'Siga la progresión con precisión. Seleccione dos imágenes tomadas con semanas o meses de diferencia para evaluar los cambios de tamaño, bordes y color.',
+  'landing.features.registry.title': 'Registro digital de pacientes',
+  'landing.features.registry.body': 'Reúna los expedientes de la clínica en una interfaz clara. Registre fechas de nacimiento, grupo sanguíneo y sensibilidades crónicas junto con un archivo médico unificado.',
+  'landing.workflow.badge': 'Flujo de trabajo',
+  'landing.workflow.title': 'Flujo de trabajo médico simplificado',
+  'landing.workflow.subtitle': 'Pase sin esfuerzo del registro del paciente a la evaluación completa de la progresión.',
+  'landing.workflow.step1.title': 'Crear el perfil',
+  'landing.workflow.step1.body': 'Cree el perfil demográfico del paciente con notas clínicas y antecedentes terapéuticos.',
+  'landing.workflow.step2.title': 'Subir imágenes',
+  'landing.workflow.step2.body': 'Importe fotografías dermatoscópicas de primer plano. Los archivos se procesan de forma segura.',
+  'landing.workflow.step3.title': 'Solicitar el análisis',
+  'landing.workflow.step3.body': 'Consulte el servidor intermediario seguro para obtener un análisis multimodal de la API de visión de Google Gemini.',
+  'landing.workflow.step4.title': 'Evaluar los cambios',
+  'landing.workflow.step4.body': 'Seleccione dos imágenes para analizar los cambios de bordes, tamaño, color y evolución.',
+  'landing.security.title': 'Modelo de seguridad clínica',
+  'landing.security.intro': 'DermDetect AI separa el análisis del navegador para preservar la privacidad y la seguridad:',
+  'landing.security.keys.title': 'Sin claves en el cliente',
+  'landing.security.keys.body': 'A diferencia de los prototipos habituales, las claves de la API solo residen en el servidor, por lo que no pueden quedar expuestas.',
+  'landing.security.transport.title': 'Transporte cifrado',
+  'landing.security.transport.body': 'Las imágenes pasan por el servidor intermediario a través de conexiones TLS cifradas de extremo a extremo.',
+  'landing.security.vault.title': 'Archivo clínico protegido',
+  'landing.security.vault.body': 'Los datos se guardan en el archivo clínico, bajo el control completo de la sesión del administrador.',
+  'landing.advisory.title': 'Aviso clínico:',
+  'landing.advisory.body': 'Los productos, las evaluaciones y los coeficientes de progresión de DermDetect AI solo sirven para la investigación clínica y el seguimiento. Estas evaluaciones no deben utilizarse como diagnósticos médicos verificados. DermDetect AI nunca sustituye a la evaluación dermatológica habitual ni a los protocolos de biopsia.',
+  'landing.footer.about': 'Ayudamos a las clínicas con registros de evolución estructurados, métricas de comparación y análisis seguros con IA.',
+  'landing.footer.platform': 'Funciones de la plataforma',
+  'landing.footer.platform.analysis': 'Análisis de lesiones con IA',
+  'landing.footer.platform.tracking': 'Seguimiento de cambios en el tiempo',
+  'landing.footer.platform.registry': 'Registro sanitario digital',
+  'landing.footer.platform.sandbox': 'Entorno local aislado',
+  'landing.footer.resources': 'Recursos profesionales',
+  'landing.footer.compliance.title': 'Cumplimiento HCE',
+  'landing.footer.compliance.body': 'Compatible con los formatos estructurales de las historias clínicas electrónicas. Las transferencias usan cifrado de extremo a extremo. Todos los registros médicos permanecen bajo el control del administrador de la clínica.',
+  'landing.footer.copyright': '© {year} DermDetect AI Inc. Todos los derechos reservados. Centro de investigación clínica.',
+  'landing.footer.registration': 'Registro de licencia',
+
+  // AI result card, ABCDE scorecard and urgency badge
+  'result.potentialCondition': 'Posible afección',
+  'result.confidenceLevel': 'Nivel de confianza de la IA',
+  'result.confidence.high': 'Alta',
+  'result.confidence.medium': 'Media',
+  'result.confidence.low': 'Baja',
+  'result.description': 'Descripción',
+  'result.differentials': 'Diagnóstico diferencial',
+  'result.supportingFeatures': 'Características que lo respaldan:',
+  'result.versus': 'Frente a {condition}:',
+  'result.recommendations': 'Recomendaciones',
+  'result.view.label': 'Mostrar para:',
+  'result.view.clinician': 'Clínico',
+  'result.view.patient': 'Paciente',
+  'result.clinician.morphology': 'Morfología',
+  'result.clinician.reasoning': 'Razonamiento diferencial',
+  'result.patient.explanation': 'Qué significa',
+  'result.patient.readingGrade': 'Nivel de lectura: grado {grade}',
+  'result.safetyRemoved.one': 'El filtro de seguridad clínica eliminó {count} frase que mencionaba medicamentos, tratamientos o dosis de este resultado.',
+  'result.safetyRemoved.other': 'El filtro de seguridad clínica eliminó {count} frases que mencionaban medicamentos, tratamientos o dosis de este resultado.',
+  'abcde.title': 'Evaluación ABCDE',
+  'abcde.notPigmented': 'Esta lesión no parece pigmentada; los criterios ABCDE están pensados para lesiones pigmentadas y deben interpretarse con cautela.',
+  'abcde.asymmetry': 'Asimetría',
+  'abcde.border': 'Borde',
+  'abcde.color': 'Color',
+  'abcde.diameter': 'Diámetro',
+  'abcde.evolution': 'Evolución',
+  'abcde.score.0': 'Tranquilizador',
+  'abcde.score.1': 'Dudoso',
+  'abcde.score.2': 'Preocupante',
+  'abcde.notAssessable': 'No evaluable',
+  'abcde.baseline': 'Imagen de referencia: {date}',
+  'urgency.urgent': 'Urgente',
+  'urgency.soon': 'Ver pronto',
+  'urgency.routine': 'Rutina',
+
+  // Stored results shown in the reader's language
+  'translation.translating': 'Traduciendo este resultado al {language}...',
+  'translation.translatedFrom': 'Traducido por IA del {language}. El resultado original es el registro clínico.',
+  'translation.showOriginal': 'Ver original',
+  'translation.showTranslation': 'Ver en {language}',
+
+  // Patient portal
+  'portal.title': 'Archivo del paciente',
+  'portal.badge': 'Terminal',
+  'portal.loggedIn': 'Sesión iniciada:',
+  'portal.signOut': 'Cerrar sesión',
+  'portal.stats.scans': 'Imágenes totales',
+  'portal.stats.logs': 'Registros diarios',
+  'portal.nav.overview': 'Resumen y subida de imágenes',
+  'portal.nav.care': 'Plan de cuidados en casa',
+  'portal.nav.symptoms': 'Diario de síntomas',
+  'portal.nav.messaging': 'Mensajes',
+  'portal.upload.title': 'Capturar y seguir una nueva lesión cutánea',
+  'portal.upload.intro': 'Añada fotos dermatoscópicas de alta resolución para analizar patrones, delimitar bordes sospechosos y registrar el crecimiento de la lesión con el tiempo.',
+  'portal.upload.preview': 'Vista previa de la lesión seleccionada',
+  'portal.upload.previewAlt': 'Vista previa de la lesión seleccionada',
+  'portal.upload.notesLabel': 'Añada comentarios o una descripción de los síntomas (opcional)',
+  'portal.upload.notesPlaceholder': 'Noté esta mancha hace unas semanas. Está algo seca y tiene una ligera aspereza...',
+  'portal.upload.cancel': 'Cancelar',
+  'portal.upload.uploading': 'Subiendo...',
+  'portal.upload.confirm': 'Confirmar y añadir lesión',
+  'portal.upload.drop': 'Haga clic o arrastre aquí los archivos para subir imágenes de lesiones',
+  'portal.upload.dropHint': 'Las fotos se guardan de forma segura en su perfil clínico. Admite archivos PNG, JPG o WEBP.',
+  'portal.archive.title': 'Archivo de imágenes ({count})',
+  'portal.archive.empty': 'Todavía no hay imágenes registradas en su perfil.',
+  'portal.archive.thumbnailAlt': 'Miniatura de la lesión',
+  'portal.archive.pending': 'Análisis pendiente',
+  'portal.archive.confidence': 'Confianza: {level}',
+  'portal.archive.underReview': 'En revisión',
+  'portal.care.title': 'Plan diario de autocuidado en casa',
+  'portal.care.intro': 'Rutinas diarias recomendadas para facilitar el seguimiento de la lesión.',
+  'portal.care.compliance': 'Cumplimiento: {done} / {total}',
+  'portal.care.perfect': '¡Cumplimiento completo!',
+  'portal.care.perfectBody': 'Ha completado todo su plan de cuidados en casa. Mantener una rutina regular ayuda al diagnóstico clínico. ¡Siga así!',
+  'portal.care.default.t1': 'Aplicar protector solar de amplio espectro FPS 50+ en las zonas expuestas',
+  'portal.care.default.t2': 'Revisar la piel en busca de crecimiento asimétrico o expansión de los bordes',
+  'portal.care.default.t3': 'Mantener hidratada la zona de la lesión con cremas suaves hipoalergénicas',
+  'portal.care.default.t4': 'No rascar ni raspar las zonas de piel seca o elevada',
+  'portal.care.default.t5': 'Hidratarse bien (beber 8 o más vasos de líquido al día)',
+  'portal.symptoms.title': 'Nueva entrada de síntomas',
+  'portal.symptoms.intro': 'Registre cualquier cambio físico de la lesión para ayudar a su médico.',
+  'portal.symptoms.itching': 'Picor activo',
+  'portal.symptoms.bleeding': 'Sangrado o supuración',
+  'portal.symptoms.colorChange': 'Cambio rápido de color',
+  'portal.symptoms.comments': 'Comentarios',
+  'portal.symptoms.placeholder': 'Describa lo que observe, p. ej. el borde parece algo más irregular o la zona elevada ha crecido.',
+  'portal.symptoms.save': 'Guardar registro de síntomas',
+  'portal.symptoms.history': 'Historial de registros ({count})',
+  'portal.symptoms.empty': 'Todavía no hay registros.',
+  'portal.symptoms.tag.itch': 'Picor',
+  'portal.symptoms.tag.bleed': 'Sangrado',
+  'portal.symptoms.tag.color': 'Color',
+  'portal.symptoms.tag.stable': 'Estable',
+  'portal.symptoms.noRemarks': 'Sin observaciones adicionales.',
+  'portal.messaging.title': 'Mensajes dermatológicos',
+  'portal.messaging.intro': 'Comunicación directa con su médico de referencia.',
+  'portal.messaging.encrypted': 'Conexión cifrada',
+  'portal.messaging.empty': 'No hay mensajes. Escriba abajo para enviar comentarios o dudas a su médico o coordinar una evaluación.',
+  'portal.messaging.you': 'Usted',
+  'portal.messaging.doctor': 'Dr. Practitioner',
+  'portal.messaging.placeholder': 'Escriba un mensaje o pregunte sobre lesiones sospechosas...',
+  'portal.scan.title': 'Detalles de la imagen y resultado',
+  'portal.scan.imageAlt': 'Vista de la lesión',
+  'portal.scan.date': 'Fecha de la imagen: {date}',
+  'portal.scan.pending.title': 'Revisión y análisis de IA pendientes',
+  'portal.scan.pending.stored': 'Su foto se ha guardado de forma segura en su archivo clínico.',
+  'portal.scan.pending.body': 'Su médico revisará esta lesión, marcará sus bordes y ejecutará el análisis dermatoscópico con IA en su próxima consulta.',
+  'portal.scan.pending.comments': 'Sus comentarios:',
+  'portal.footer.disclaimerTitle': 'Aviso médico:',
+  'portal.footer.disclaimer': 'Las herramientas y métricas de DermDetect AI solo sirven de apoyo para el seguimiento. Consulte a su centro de atención primaria o a un dermatólogo certificado para obtener un diagnóstico médico con biopsia.',
+};
@@ -0,0 +1,179 @@
+import type { MessageKey } from './en';
+
+export const fr: Record<MessageKey, string> = {
+  // Language switcher and shared chrome
+  'language.label': 'Langue',
+  'language.en': 'anglais',
+  'language.es': 'espagnol',
+  'language.fr': 'français',
+  'theme.toLight': 'Passer en mode clair',
+  'theme.toDark': 'Passer en mode sombre',
+  'header.logout': 'Déconnexion',
+
+  // Landing page
+  'landing.tagline': 'Assistant clinique',
+  'landing.nav.features': 'Fonctionnalités',
+  'landing.nav.workflow': 'Fonctionnement',
+  'landing.nav.security': 'Sécurité',
+  'landing.accessPortal': 'Accéder au portail',
+  'landing.hero.badge': 'Moteur avancé de suivi par vision neuronale',
+  'landing.hero.titleStart': 'Suivi intelligent des lésions cutanées,',
+  'landing.hero.titleHighlight': 'par IA',
+  'landing.hero.titleEnd': 'Informations cliniques.',
+  'landing.hero.body': 'DermDetect AI offre aux médecins et aux cliniques de recherche un environnement sécurisé pour consigner les antécédents, suivre l\'évolution des lésions et interroger en toute sécurité les modèles de vision multimodaux Google Gemini.',
+  'landing.hero.enter': 'Entrer dans l\'espace clinique',
+  'landing.hero.explore': 'Découvrir les fonctionnalités',
+  'landing.features.badge': 'Fonctionnalités',
+  'landing.features.title': 'Modules d\'aide au diagnostic clinique',
+  'landing.features.subtitle': 'Conçus pour simplifier le suivi, les comparaisons visuelles et les annotations cliniques précises.',
+  'landing.features.analysis.title': 'Analyse des affections par IA',
+  'landing.features.analysis.body': 'Analysez les images de lésions suspectes avec des réseaux de vision profonde via le serveur. Obtenez immédiatement la description de l\'affection, le niveau de confiance et les consignes de sécurité pour le médecin.',
+  'landing.features.comparison.title': 'Comparaison dans le temps',
+  'landing.features.comparison.body': 'Suivez la progression avec précision. Sélectionnez deux images prises à quelques semaines ou mois d\'intervalle pour évaluer les changements de taille, de bords et de couleur.',
+  'landing.features.registry.title': 'Registre numérique des patients',
+  'landing.features.registry.body': 'Regroupez les dossiers de la clinique dans une interface claire. Consignez dates de naissance, groupe sanguin et sensibilités chroniques avec un dossier médical unifié.',
+  'landing.workflow.badge': 'Parcours',
+  'landing.workflow.title': 'Un parcours médical simplifié',
+  'landing.workflow.subtitle': 'Passez sans effort de l\'enregistrement du patient à l\'évaluation complète de la progression.',
+  'landing.workflow.step1.title': 'Créer le profil',
+  'landing.workflow.step1.body': 'Créez le profil démographique du patient avec les notes cliniques et les antécédents thérapeutiques.',
+  'landing.workflow.step2.title': 'Importer les images',
+  'landing.workflow.step2.body': 'Importez des photographies dermoscopiques en gros plan. Les fichiers sont traités de manière sécurisée.',
+  'landing.workflow.step3.title': 'Lancer l\'analyse',
+  'landing.workflow.step3.body': 'Interrogez le serveur intermédiaire sécurisé pour obtenir une analyse multimodale de l\'API de vision Google Gemini.',
+  'landing.workflow.step4.title': 'Évaluer l\'évolution',
+  'landing.workflow.step4.body': 'Sélectionnez deux images pour analyser l\'évolution des bords, de la taille et de la couleur.',
+  'landing.security.title': 'Modèle de sécurité clinique',
+  'landing.security.intro': 'DermDetect AI sépare l\'analyse du navigateur afin de préserver la confidentialité et la sécurité :',
+  'landing.security.keys.title': 'Aucune clé côté client',
+  'landing.security.keys.body': 'Contrairement aux prototypes habituels, les clés d\'API restent uniquement sur le serveur et ne peuvent donc pas être exposées.',
+  'landing.security.transport.title': 'Transport chiffré',
+  'landing.security.transport.body': 'Les images transitent par le serveur intermédiaire via des connexions TLS chiffrées de bout en bout.',
+  'landing.security.vault.title': 'Dossier clinique protégé',
+  'landing.security.vault.body': 'Les données sont conservées dans le dossier clinique, sous le contrôle total de la session administrateur.',
+  'landing.advisory.title': 'Avis clinique :',
+  'landing.advisory.body': 'Les produits, évaluations et coefficients de progression de DermDetect AI servent uniquement à la recherche clinique et au suivi. Ces évaluations ne doivent pas être utilisées comme des diagnostics médicaux vérifiés. DermDetect AI ne remplace jamais l\'examen dermatologique habituel ni les protocoles de biopsie.',
+  'landing.footer.about': 'Nous aidons les cliniques avec des suivis structurés, des mesures de comparaison et des analyses sécurisées par IA.',
+  'landing.footer.platform': 'Fonctionnalités de la plateforme',
+  'landing.footer.platform.analysis': 'Analyse des lésions par IA',
+  'landing.footer.platform.tracking': 'Suivi de l\'évolution dans le temps',
+  'landing.footer.platform.registry': 'Registre de santé numérique',
+  'landing.footer.platform.sandbox': 'Environnement local isolé',
+  'landing.footer.resources': 'Ressources professionnelles',
+  'landing.footer.compliance.title': 'Conformité DSE',
+  'landing.footer.compliance.body': 'Compatible avec les formats structurés des dossiers de santé électroniques. Les transferts sont chiffrés de bout en bout. Tous les dossiers médicaux restent sous le contrôle de l\'administrateur de la clinique.',
+  'landing.footer.copyright': '© {year} DermDetect AI Inc. Tous droits réservés. Centre de recherche clinique.',
+  'landing.footer.registration': 'Enregistrement de licence',
+
+  // AI result card, ABCDE scorecard and urgency badge
+  'result.potentialCondition': 'Affection possible',
+  'result.confidenceLevel': 'Niveau de confiance de l\'IA',
+  'result.confidence.high': 'Élevé',
+  'result.confidence.medium': 'Moyen',
+  'result.confidence.low': 'Faible',
+  'result.description': 'Description',
+  'result.differentials': 'Diagnostic différentiel',
+  'result.supportingFeatures': 'Éléments en faveur :',
+  'result.versus': 'Par rapport à {condition} :',
+  'result.recommendations': 'Recommandations',
+  'result.view.label': 'Afficher pour :',
+  'result.view.clinician': 'Clinicien',
+  'result.view.patient': 'Patient',
+  'result.clinician.morphology': 'Morphologie',
+  'result.clinician.reasoning': 'Raisonnement différentiel',
+  'result.patient.explanation': 'Ce que cela signifie',
+  'result.patient.readingGrade': 'Niveau de lecture : classe {grade}',
+  'result.safetyRemoved.one': 'Le filtre de sécurité clinique a retiré de ce résultat {count} phrase mentionnant des médicaments, traitements ou posologies.',
+  'result.safetyRemoved.other': 'Le filtre de sécurité clinique a retiré de ce résultat {count} phrases mentionnant des médicaments, traitements ou posologies.',
+  'abcde.title': 'Grille ABCDE',
+  'abcde.notPigmented': 'Cette lésion ne semble pas pigmentée ; les critères ABCDE sont conçus pour les lésions pigmentées et doivent être interprétés avec prudence.',
+  'abcde.asymmetry': 'Asymétrie',
+  'abcde.border': 'Bords',
+  'abcde.color': 'Couleur',
+  'abcde.diameter': 'Diamètre',
+  'abcde.evolution': 'Évolution',
+  'abcde.score.0': 'Rassurant',
+  'abcde.score.1': 'Équivoque',
+  'abcde.score.2': 'Préoccupant',
+  'abcde.notAssessable': 'Non évaluable',
+  'abcde.baseline': 'Image de référence : {date}',
+  'urgency.urgent': 'Urgent',
+  'urgency.soon': 'À voir bientôt',
+  'urgency.routine': 'Routine',
+
+  // Stored results shown in the reader's language
+  'translation.translating': 'Traduction de ce résultat en {language}...',
+  'translation.translatedFrom': 'Traduit par IA depuis l\'{language}. Le résultat original fait foi dans le dossier clinique.',
+  'translation.showOriginal': 'Voir l\'original',
+  'translation.showTranslation': 'Voir en {language}',
+
+  // Patient portal
+  'portal.title': 'Dossier patient',
+  'portal.badge': 'Terminal',
+  'portal.loggedIn': 'Connecté :',
+  'portal.signOut': 'Se déconnecter',
+  'portal.stats.scans': 'Images au total',
+  'portal.stats.logs': 'Suivis quotidiens',
+  'portal.nav.overview': 'Vue d\'ensemble et envoi d\'images',
+  'portal.nav.care': 'Plan de soins à domicile',
+  'portal.nav.symptoms': 'Journal des symptômes',
+  'portal.nav.messaging': 'Messagerie',
+  'portal.upload.title': 'Photographier et suivre une nouvelle lésion',
+  'portal.upload.intro': 'Ajoutez des photos dermoscopiques haute résolution pour analyser les motifs, délimiter les bords suspects et suivre la croissance de la lésion dans le temps.',
+  'portal.upload.preview': 'Aperçu de la lésion sélectionnée',
+  'portal.upload.previewAlt': 'Aperçu de la lésion sélectionnée',
+  'portal.upload.notesLabel': 'Ajoutez des commentaires ou une description des symptômes (facultatif)',
+  'portal.upload.notesPlaceholder': 'J\'ai remarqué cette tache il y a quelques semaines. Elle est un peu sèche et légèrement rugueuse...',
+  'portal.upload.cancel': 'Annuler',
+  'portal.upload.uploading': 'Envoi en cours...',
+  'portal.upload.confirm': 'Confirmer et ajouter la lésion',
+  'portal.upload.drop': 'Cliquez ou déposez des fichiers ici pour envoyer des images de lésions',
+  'portal.upload.dropHint': 'Les photos sont conservées en toute sécurité dans votre dossier clinique. Formats PNG, JPG ou WEBP.',
+  'portal.archive.title': 'Archives des images ({count})',
+  'portal.archive.empty': 'Aucune image n\'a encore été enregistrée dans votre dossier.',
+  'portal.archive.thumbnailAlt': 'Miniature de la lésion',
+  'portal.archive.pending': 'Analyse en attente',
+  'portal.archive.confidence': 'Confiance : {level}',
+  'portal.archive.underReview': 'En cours d\'examen',
+  'portal.care.title': 'Plan quotidien de soins à domicile',
+  'portal.care.intro': 'Routines quotidiennes recommandées pour faciliter le suivi de la lésion.',
+  'portal.care.compliance': 'Suivi : {done} / {total}',
+  'portal.care.perfect': 'Plan entièrement suivi !',
+  'portal.care.perfectBody': 'Vous avez terminé tout votre plan de soins à domicile. Une routine régulière aide au diagnostic clinique. Continuez ainsi !',
+  'portal.care.default.t1': 'Appliquer un écran solaire à large spectre SPF 50+ sur les zones exposées',
+  'portal.care.default.t2': 'Examiner la peau à la recherche d\'une croissance asymétrique ou d\'une extension des bords',
+  'portal.care.default.t3': 'Hydrater la zone de la lésion avec des crèmes douces hypoallergéniques',
+  'portal.care.default.t4': 'Ne pas gratter les zones de peau sèches ou surélevées',
+  'portal.care.default.t5': 'Bien s\'hydrater (boire au moins 8 verres de liquide par jour)',
+  'portal.symptoms.title': 'Nouvelle entrée de symptômes',
+  'portal.symptoms.intro': 'Notez tout changement physique de la lésion pour aider votre médecin.',
+  'portal.symptoms.itching': 'Démangeaisons',
+  'portal.symptoms.bleeding': 'Saignement ou suintement',
+  'portal.symptoms.colorChange': 'Changement rapide de couleur',
+  'portal.symptoms.comments': 'Commentaires',
+  'portal.symptoms.placeholder': 'Décrivez vos observations, par ex. le bord semble plus irrégulier ou la zone surélevée s\'est étendue.',
+  'portal.symptoms.save': 'Enregistrer les symptômes',
+  'portal.symptoms.history': 'Historique des entrées ({count})',
+  'portal.symptoms.empty': 'Aucune entrée enregistrée pour le moment.',
+  'portal.symptoms.tag.itch': 'Démangeaisons',
+  'portal.symptoms.tag.bleed': 'Saignement',
+  'portal.symptoms.tag.color': 'Couleur',
+  'portal.symptoms.tag.stable': 'Stable',
+  'portal.symptoms.noRemarks': 'Aucune remarque supplémentaire.',
+  'portal.messaging.title': 'Messagerie dermatologique',
+  'portal.messaging.intro': 'Communication directe avec votre médecin référent.',
+  'portal.messaging.encrypted': 'Connexion chiffrée',
+  'portal.messaging.empty': 'Aucun message. Écrivez ci-dessous pour envoyer vos remarques ou questions à votre médecin, ou organiser un examen.',
+  'portal.messaging.you': 'Vous',
+  'portal.messaging.doctor': 'Dr. Practitioner',
+  'portal.messaging.placeholder': 'Écrivez un message ou posez une question sur une lésion suspecte...',
+  'portal.scan.title': 'Détails de l\'image et résultat',
+  'portal.scan.imageAlt': 'Vue de la lésion',
+  'portal.scan.date': 'Date de l\'image : {date}',
+  'portal.scan.pending.title': 'Examen et analyse IA en attente',
+  'portal.scan.pending.stored': 'Votre photo est conservée en toute sécurité dans votre dossier clinique.',
+  'portal.scan.pending.body': 'Votre médecin examinera cette lésion, en délimitera les bords et lancera l\'analyse dermoscopique par IA lors de votre prochaine consultation.',
+  'portal.scan.pending.comments': 'Vos commentaires :',
+  'portal.footer.disclaimerTitle': 'Avertissement médical :',
+  'portal.footer.disclaimer': 'Les outils et mesures de DermDetect AI servent uniquement d\'aide au suivi. Consultez votre médecin traitant ou un dermatologue certifié pour un diagnostic médical avec biopsie.',
+};
@@ -1,195 +1,235 @@
-import express from "express";
+import express, { type Request } from "express";
 import path from "path";
 import { createServer as createViteServer } from "vite";
-import { GoogleGenAI, Type } from "@google/genai";
-
-const SYSTEM_INSTRUCTION = `You are a specialized AI assistant for dermatology. Your task is to analyze images of skin conditions.
-Provide a potential identification, a confidence level, a brief description, and helpful, safe next steps.
-Your response must be in JSON format according to the provided schema.
-
-Under no circumstances should you ever suggest or prescribe any specific medications, treatments, or drugs.
-Instead, your recommendations MUST focus on three areas:
-1. Detailed, non-medical care and lifestyle tips (e.g., 'Keep the area clean and dry', 'Avoid scratching', 'Consider using a gentle, hypoallergenic moisturizer', 'Maintain a balanced diet rich in antioxidants to support skin health').
-2. When to see a doctor (e.g., 'Consult a professional if the condition worsens, becomes painful, or shows signs of infection').
-3. A list of relevant questions the user could ask their doctor to facilitate a productive consultation (e.g., 'What are the potential treatment options?', 'Are there any lifestyle changes I should make?').
-
-CRITICAL: You MUST always include the following disclaimer as the last item in the recommendations array: "This is not a medical diagnosis. Always consult a qualified dermatologist for an accurate diagnosis and treatment plan."
-The confidence level should be a string like "High", "Medium", or "Low".`;
-
-const COMPARISON_SYSTEM_INSTRUCTION = `You are a specialized AI assistant for dermatology. Your task is to compare two images of the same skin lesion taken at different times.
-Analyze the differences in size, color, shape, and texture.
-Provide a summary of changes, key observations, an updated condition assessment, and a safe recommendation.
-After your analysis, explicitly state the most likely name for the condition based on the comparison.
-The recommendation MUST NOT be medical advice or a prescription. It should be a general next step.
-CRITICAL: You MUST strongly advise the user to consult a qualified dermatologist to discuss any observed changes. This comparison is not a substitute for professional medical follow-up. Your response must be in JSON format according to the provided schema.`;
-
-// Helper to instantiate Gemini Client lazily or check key availability safely
-const getGeminiClient = () => {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error("GEMINI_API_KEY is not configured in environment secrets.");
+import { runAnalysis, runComparison, type RunOptions } from "./server/analysisService";
+import { errorHandler, HttpError } from "./server/httpError";
+import { createPatientRouter } from "./server/routes/patients";
+import { createAuthRouter } from "./server/routes/auth";
+import { createJobRouter } from "./server/routes/jobs";
+import { createAuditRouter } from "./server/routes/audit";
+import { createHealthRouter } from "./server/routes/health";
+import { audited, describeAnalysis, describeComparison } from "./server/audit";
+import { recoverInterruptedJobs } from "./server/jobs";
+import { ensureDefaultUsers, loadSession, toPublicUser } from "./server/auth";
+import { requireAuth, requireRole } from "./server/authz";
+import { acceptImageBatch, acceptImages, readAnnotations, readDateField, readFlag, readImage, readImageBatch, readOptionalImage, readJsonField, toDataUrl } from "./server/uploads";
+import { analyzeBatch, BATCH_MAX_IMAGES } from "./server/batchAnalysis";
+import { readDatabase, updateDatabase } from "./server/store";
+import { readLocale } from "./server/locales";
+import { normalizeImage } from "./server/imageNormalization";
+import { streamAnalysis } from "./server/sse";
+import { trackRequests } from "./server/metrics";
+import { currentRequestId, logger, logRequests } from "./server/logger";
+import { config, redactedConfig } from "./server/config";
+import { allowConfiguredOrigins } from "./server/cors";
+
+// The capture date of an optional priorImage, which the model needs to judge Evolution; throws 400 when it is missing
+const readPriorCapturedAt = (req: Request): string | undefined => {
+  if (!readOptionalImage(req, "priorImage")) {
+    return undefined;
   }
-  return new GoogleGenAI({
-    apiKey,
-    httpOptions: {
-      headers: {
-        'User-Agent': 'aistudio-build',
-      }
-    }
-  });
+  const capturedAt = readDateField(req.body, "priorCapturedAt");
+  if (!capturedAt) {
+    throw new HttpError(400, 'Field "priorCapturedAt" is required with a "priorImage" file.');
+  }
+  return capturedAt;
+};
+
+// Shared by the plain and streaming analysis routes
+const analyzeUpload = async (req: Request, options: Omit<RunOptions, "bypassCache"> = {}) => {
+  options.onStage?.("preprocessing");
+  // Analyze the normalized image and hand it back so the stored copy matches what the model saw
+  const image = await normalizeImage(readImage(req, "image"));
+  // An optional earlier capture of the same lesion lets the model score ABCDE Evolution
+  const priorImage = readOptionalImage(req, "priorImage");
+  const priorCapturedAt = readPriorCapturedAt(req);
+  const history = priorImage && priorCapturedAt ? {
+    image: await normalizeImage(priorImage),
+    capturedAt: priorCapturedAt,
+    imageId: typeof req.body.priorImageId === "string" && req.body.priorImageId ? req.body.priorImageId : undefined,
+  } : undefined;
+  const { result, cache } = await runAnalysis(
+    // Results are written in the requested language, or the signed-in user's preferred one
+    { image, history, ...readAnnotations(req.body), locale: readLocale(req.body, req.user?.locale) },
+    { ...options, bypassCache: readFlag(req.body, "bypassCache") }
+  );
+  return { result, cache, image: { dataUrl: toDataUrl(image), width: image.width, height: image.height } };
+};
+
+// Shared by the plain and streaming comparison routes
+const compareUploads = async (req: Request, options: Omit<RunOptions, "bypassCache"> = {}) => {
+  options.onStage?.("preprocessing");
+  return runComparison(
+    {
+      image1: await normalizeImage(readImage(req, "image1")),
+      image2: await normalizeImage(readImage(req, "image2")),
+      // Per-image annotations and dates arrive as suffixed fields, e.g. boundingBox1 and capturedAt2
+      capture1: { ...readAnnotations(req.body, "1"), capturedAt: readDateField(req.body, "capturedAt1") },
+      capture2: { ...readAnnotations(req.body, "2"), capturedAt: readDateField(req.body, "capturedAt2") },
+      locale: readLocale(req.body, req.user?.locale),
+    },
+    { ...options, bypassCache: readFlag(req.body, "bypassCache") }
+  );
 };
 
 async function startServer() {
   const app = express();
-  const PORT = 3000;
 
-  // Middleware for parsing large JSON bodies for base64 images
-  app.use(express.json({ limit: "50mb" }));
-  app.use(express.urlencoded({ limit: "50mb", extended: true }));
+  await ensureDefaultUsers();
+  const interruptedJobs = await recoverInterruptedJobs();
+  if (interruptedJobs > 0) {
+    logger.warn(`Marked ${interruptedJobs} analysis job(s) interrupted by the last shutdown as failed.`);
+  }
 
-  // API endpoints
-  app.get("/api/health", (req, res) => {
-    res.json({ status: "ok" });
-  });
+  // Correlation ids and one structured log line per request, then counts and latencies for /api/metrics
+  app.use("/api", logRequests);
+  app.use("/api", trackRequests);
+  app.use("/api", allowConfiguredOrigins);
 
-  // End point: Analyze skin condition
-  app.post("/api/analyze", async (req, res) => {
-    try {
-      const { image, boundingBox, pins, practitionerNotes } = req.body;
-      if (!image || !image.data || !image.mimeType) {
-        res.status(400).json({ error: "Missing image data or mimeType in request body." });
-        return;
-      }
+  // JSON bodies only carry records and annotations; images arrive as multipart file parts
+  app.use(express.json({ limit: config.jsonBodyLimit }));
+  app.use(express.urlencoded({ limit: config.jsonBodyLimit, extended: true }));
+  app.use("/api", loadSession);
 
-      const ai = getGeminiClient();
-      const imagePart = {
-        inlineData: {
-          data: image.data,
-          mimeType: image.mimeType,
-        }
-      };
+  // Liveness and readiness probes and Prometheus metrics
+  app.use("/api", createHealthRouter());
 
-      let promptText = "Please analyze this skin condition macroscopic photo.";
-      if (boundingBox || (pins && pins.length > 0) || practitionerNotes) {
-        promptText += "\n\nThe clinician/patient has marked the following spatial coordinates and provided notes to isolate the target tissue:";
-        if (boundingBox) {
-          promptText += `\n- Bounding Box ROI (Region of Interest): The target lesion is located within the rectangle from (${boundingBox.x1.toFixed(1)}%, ${boundingBox.y1.toFixed(1)}%) to (${boundingBox.x2.toFixed(1)}%, ${boundingBox.y2.toFixed(1)}%) of the image frame.`;
-        }
-        if (pins && pins.length > 0) {
-          promptText += "\n- Suspicious Feature Point Markers:";
-          pins.forEach((pin: any, idx: number) => {
-            promptText += `\n  Pin ${idx + 1} located at coordinates (${pin.x.toFixed(1)}%, ${pin.y.toFixed(1)}%) of the image is annotated as: "${pin.label}"`;
-          });
-        }
-        if (practitionerNotes) {
-          promptText += `\n- Accompanying Practitioner Notes: "${practitionerNotes}"`;
-        }
-        promptText += "\n\nPlease focus your vision analysis primarily on the specified visual targets, while keeping the full image context in mind.";
-      }
+  // Effective server configuration with secrets redacted (practitioners only)
+  app.get("/api/config", requireRole("practitioner"), (req, res) => {
+    res.json(redactedConfig(config));
+  });
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-3.5-flash',
-        contents: {
-          parts: [
-            imagePart,
-            { text: promptText }
-          ],
-        },
-        config: {
-          systemInstruction: SYSTEM_INSTRUCTION,
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              conditionName: { type: Type.STRING, description: "The most likely name of the skin condition." },
-              confidence: { type: Type.STRING, description: "Confidence level (e.g., High, Medium, Low)." },
-              description: { type: Type.STRING, description: "A brief, easy-to-understand description of the condition." },
-              recommendations: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING },
-                description: "A list of safe, general recommendations or next steps as per the system instruction."
-              },
-            },
-            required: ["conditionName", "confidence", "description", "recommendations"],
-          }
-        },
-      });
+  // Authentication: signup, login, logout and session restore
+  app.use("/api/auth", createAuthRouter());
 
-      const responseText = response.text || "{}";
-      const result = JSON.parse(responseText.trim());
-      res.json(result);
-    } catch (error: any) {
-      console.error("Error during skin analysis:", error);
-      res.status(500).json({ error: error.message || "Internal server error during skin analysis." });
+  app.get("/api/me", (req, res) => {
+    if (!req.user) {
+      res.status(401).json({ error: "Not signed in.", code: "UNAUTHENTICATED" });
+      return;
     }
+    res.json(req.user);
   });
 
-  // End point: Compare lesion progression
-  app.post("/api/compare", async (req, res) => {
+  // Saves the signed-in user's preferences; currently only the language
+  app.patch("/api/me", requireAuth, async (req, res) => {
+    const locale = readLocale(req.body, req.user!.locale);
+    const user = await updateDatabase(db => {
+      const stored = db.users.find(u => u.id === req.user!.id);
+      if (!stored) {
+        throw new HttpError(401, "Not signed in.", "UNAUTHENTICATED");
+      }
+      stored.locale = locale;
+      return stored;
+    });
+    res.json(toPublicUser(user));
+  });
+
+  // End point: Analyze skin condition
+  app.post("/api/analyze", audited("analyze"), requireRole("practitioner"), acceptImages("image", "priorImage"), async (req, res) => {
     try {
-      const { image1, image2 } = req.body;
-      if (!image1 || !image1.data || !image1.mimeType || !image2 || !image2.data || !image2.mimeType) {
-        res.status(400).json({ error: "Missing image1 or image2 data in request body." });
-        return;
+      const { result, cache, image } = await analyzeUpload(req);
+      res.setHeader("X-Analysis-Cache", cache);
+      res.locals.audit = { detail: `Analyzed an uploaded image: ${describeAnalysis(result)}` };
+      res.json({ result, image });
+    } catch (error: any) {
+      if (error instanceof HttpError) {
+        throw error;
       }
+      logger.error("Error during skin analysis", { error });
+      res.status(500).json({ error: error.message || "Internal server error during skin analysis.", code: "INTERNAL_ERROR", requestId: currentRequestId() });
+    }
+  });
 
-      const ai = getGeminiClient();
-      const imagePart1 = {
-        inlineData: {
-          data: image1.data,
-          mimeType: image1.mimeType,
-        }
-      };
-      const imagePart2 = {
-        inlineData: {
-          data: image2.data,
-          mimeType: image2.mimeType,
-        }
-      };
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-3.5-flash',
-        contents: {
-          parts: [
-            { text: 'This is the first image (before):' },
-            imagePart1,
-            { text: 'This is the second image (after):' },
-            imagePart2,
-            { text: 'Please compare these two images of the same skin lesion and analyze the changes over time.' }
-          ],
-        },
-        config: {
-          systemInstruction: COMPARISON_SYSTEM_INSTRUCTION,
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              changeSummary: { type: Type.STRING, description: "A summary of the overall change (e.g., 'Shows signs of improvement', 'Appears to have worsened')." },
-              keyObservations: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING },
-                description: "A list of specific visual changes observed between the two images."
-              },
-              recommendation: { type: Type.STRING, description: "A safe, general recommendation based on the observed changes, as per system instruction." },
-              updatedConditionAssessment: { type: Type.STRING, description: "A conclusive, updated assessment of the condition based on the changes observed (e.g., 'Condition appears stable', 'Signs of resolution', 'Worsening of condition noted')." },
-              postComparisonCondition: { type: Type.STRING, description: "The most likely name of the skin condition after comparing both images." },
-            },
-            required: ["changeSummary", "keyObservations", "recommendation", "updatedConditionAssessment", "postComparisonCondition"],
+  // End point: Analyze skin condition, streaming stage and partial text events (Server-Sent Events)
+  app.post("/api/analyze/stream", audited("analyze"), requireRole("practitioner"), acceptImages("image", "priorImage"), async (req, res) => {
+    // Missing images and unsupported locales get a plain 400 before the event stream starts
+    readImage(req, "image");
+    readPriorCapturedAt(req);
+    readLocale(req.body);
+    await streamAnalysis(res, "skin analysis", async progress => {
+      const { result, cache, image } = await analyzeUpload(req, progress);
+      res.locals.audit = { detail: `Analyzed an uploaded image (streamed): ${describeAnalysis(result)}` };
+      return { data: { result, image }, cache };
+    });
+  });
+
+  // End point: Analyze many photos at once, reporting success or failure per photo
+  app.post("/api/analyze/batch", audited("analyze"), requireRole("practitioner"), acceptImageBatch("images", BATCH_MAX_IMAGES), async (req, res) => {
+    const uploads = readImageBatch(req);
+    if (uploads.length === 0) {
+      throw new HttpError(400, 'Attach at least one image file in the "images" field.');
+    }
+    const annotations = readJsonField(req.body, "annotations") ?? [];
+    if (!Array.isArray(annotations)) {
+      throw new HttpError(400, 'Field "annotations" must be a JSON array aligned with the uploaded images.');
+    }
+    const patientId = typeof req.body.patientId === "string" && req.body.patientId.trim() ? req.body.patientId.trim() : undefined;
+    if (patientId && !(await readDatabase()).patients.some(p => p.id === patientId)) {
+      throw new HttpError(404, `Patient "${patientId}" was not found.`);
+    }
+
+    const { items, patient } = await analyzeBatch(
+      uploads.map((upload, i) => {
+        try {
+          return { ...upload, ...readAnnotations(annotations[i] ?? {}) };
+        } catch (error) {
+          if (!(error instanceof HttpError)) {
+            throw error;
           }
-        },
-      });
+          // An invalid annotation fails only its own photo, like an unsupported image type
+          return { ...upload, error: upload.error ?? error };
+        }
+      }),
+      { patientId, locale: readLocale(req.body, req.user?.locale), bypassCache: readFlag(req.body, "bypassCache") }
+    );
+    res.locals.audit = {
+      detail: `Batch analysis of ${items.length} photo(s): ${items.map(item => item.result ? describeAnalysis(item.result) : `failed (${item.error?.message})`).join("; ")}`,
+    };
+    res.json({ items, patient });
+  });
 
-      const responseText = response.text || "{}";
-      const result = JSON.parse(responseText.trim());
+  // End point: Compare lesion progression
+  app.post("/api/compare", audited("compare"), requireRole("practitioner"), acceptImages("image1", "image2"), async (req, res) => {
+    try {
+      const { result, cache } = await compareUploads(req);
+      res.setHeader("X-Analysis-Cache", cache);
+      res.locals.audit = { detail: `Compared two uploaded images: ${describeComparison(result)}` };
       res.json(result);
     } catch (error: any) {
-      console.error("Error during lesion comparison:", error);
-      res.status(500).json({ error: error.message || "Internal server error during lesion comparison." });
+      if (error instanceof HttpError) {
+        throw error;
+      }
+      logger.error("Error during lesion comparison", { error });
+      res.status(500).json({ error: error.message || "Internal server error during lesion comparison.", code: "INTERNAL_ERROR", requestId: currentRequestId() });
     }
   });
 
+  // End point: Compare lesion progression, streaming stage and partial text events (Server-Sent Events)
+  app.post("/api/compare/stream", audited("compare"), requireRole("practitioner"), acceptImages("image1", "image2"), async (req, res) => {
+    // Missing images and unsupported locales get a plain 400 before the event stream starts
+    readImage(req, "image1");
+    readImage(req, "image2");
+    readLocale(req.body);
+    await streamAnalysis(res, "lesion comparison", async progress => {
+      const { result, cache } = await compareUploads(req, progress);
+      res.locals.audit = { detail: `Compared two uploaded images (streamed): ${describeComparison(result)}` };
+      return { data: result, cache };
+    });
+  });
+
+  // Queued analysis and comparison jobs with status polling
+  app.use("/api", createJobRouter());
+
+  // Patient registry: patients, lesion images, messages, symptom logs and care tasks
+  app.use("/api/patients", createPatientRouter());
+
+  // Append-only audit trail viewer and export (practitioners only)
+  app.use("/api/audit", createAuditRouter());
+
+  app.use("/api", errorHandler);
+
   // Serve static UI assets or mount Vite hot-reload middleware
-  if (process.env.NODE_ENV !== "production") {
+  if (!config.production) {
     const vite = await createViteServer({
       server: { middlewareMode: true },
       appType: "spa",
@@ -203,8 +243,8 @@ async function startServer() {
     });
   }
 
-  app.listen(PORT, "0.0.0.0", () => {
-    console.log(`DermDetect AI Server actively listening on port ${PORT}`);
+  app.listen(config.port, "0.0.0.0", () => {
+    logger.info(`DermDetect AI Server actively listening on port ${config.port}`);
   });
 }
 
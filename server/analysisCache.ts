@@ -0,0 +1,86 @@
+import fs from "fs/promises";
+import path from "path";
+import { createHash, randomBytes } from "crypto";
+import type { ImageInput } from "./analysisProvider";
+import { DATA_DIR } from "./store";
+import { config } from "./config";
+import { logger } from "./logger";
+
+const CACHE_DIR = path.join(DATA_DIR, "analysis-cache");
+const CACHE_ENABLED = config.analysis.cacheEnabled;
+
+export type CacheStatus = "hit" | "miss" | "bypass" | "off";
+
+export interface CachedRun<T> {
+  result: T;
+  cache: CacheStatus;
+  generatedAt: string; // When the model produced the result, which for a cache hit predates the request
+}
+
+interface CacheEntry<T> {
+  key: string;
+  operation: string;
+  createdAt: string;
+  result: T;
+}
+
+/**
+ * SHA-256 of the image bytes, used in cache keys instead of the (large) image itself
+ */
+export const digestImage = (image: ImageInput) => createHash("sha256").update(image.data).digest("hex");
+
+/**
+ * Derives a content address from everything that influences model output
+ */
+export const cacheKey = (parts: Record<string, unknown>): string =>
+  createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+
+const entryPath = (key: string) => path.join(CACHE_DIR, key.slice(0, 2), `${key}.json`);
+
+const readEntry = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+  try {
+    return JSON.parse(await fs.readFile(entryPath(key), "utf8"));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      logger.warn("Ignoring unreadable analysis cache entry", { key, error });
+    }
+    return null;
+  }
+};
+
+const writeEntry = async <T>(entry: CacheEntry<T>) => {
+  const file = entryPath(entry.key);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Unique per write, so concurrent writes of the same key never share a temp file
+  const tmpFile = `${file}.${process.pid}.${randomBytes(6).toString("hex")}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify(entry));
+  await fs.rename(tmpFile, file);
+};
+
+/**
+ * Serves a previously generated result for the same key, or generates and stores a new one.
+ * With bypass set the model is always called and the fresh result replaces the cached entry.
+ * Cache I/O failures are logged and never fail the request.
+ */
+export const withAnalysisCache = async <T>(
+  operation: string,
+  key: string,
+  bypass: boolean,
+  generate: () => Promise<T>
+): Promise<CachedRun<T>> => {
+  if (!CACHE_ENABLED) {
+    return { result: await generate(), cache: "off", generatedAt: new Date().toISOString() };
+  }
+  if (!bypass) {
+    const entry = await readEntry<T>(key);
+    if (entry) {
+      return { result: entry.result, cache: "hit", generatedAt: entry.createdAt };
+    }
+  }
+  const result = await generate();
+  const createdAt = new Date().toISOString();
+  await writeEntry({ key, operation, createdAt, result }).catch(error => {
+    logger.warn("Failed to write analysis cache entry", { key, error });
+  });
+  return { result, cache: bypass ? "bypass" : "miss", generatedAt: createdAt };
+};
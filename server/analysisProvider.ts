@@ -0,0 +1,87 @@
+import type { Locale } from "../types";
+import { createGeminiProvider } from "./providers/gemini";
+import { createMockProvider } from "./providers/mock";
+import { config, type ServerConfig } from "./config";
+
+export interface ImageInput {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface Annotations {
+  boundingBox?: { x1: number; y1: number; x2: number; y2: number } | null;
+  pins?: Array<{ x: number; y: number; label: string }>;
+  practitionerNotes?: string;
+}
+
+// A dated capture of the patient's skin: the Evolution baseline for analyses, or one point of a series
+export interface PriorCapture {
+  image: ImageInput;
+  capturedAt: string;
+  imageId?: string;
+}
+
+export interface AnalyzeInput extends Annotations {
+  image: ImageInput;
+  history?: PriorCapture;
+  locale?: Locale; // Language of the prose fields; defaults to English
+}
+
+// The stored annotations and capture date of one side of a comparison
+export interface ComparedCapture extends Annotations {
+  capturedAt?: string;
+}
+
+export interface CompareInput {
+  image1: ImageInput;
+  image2: ImageInput;
+  capture1?: ComparedCapture;
+  capture2?: ComparedCapture;
+  locale?: Locale;
+}
+
+export interface SeriesInput {
+  captures: PriorCapture[]; // Oldest first
+  locale?: Locale;
+}
+
+// The prose strings of a stored result, in a fixed order, to be returned as { translations } in the same order
+export interface TranslateInput {
+  texts: string[];
+  locale: Locale;
+}
+
+// Receives the raw model output accumulated so far while it streams in
+export type OutputListener = (textSoFar: string) => void;
+
+/**
+ * A backend that produces analysis, comparison and translation output for the API routes.
+ * Output is returned unvalidated; the analysis service checks it against the result schemas.
+ * With an output listener, analyze and compare stream the model's text as it is generated.
+ */
+export interface AnalysisProvider {
+  readonly name: string;
+  // Identifies the underlying model so cached results are never served across model changes
+  readonly model: string;
+  // Why the provider cannot run as configured (e.g. a missing API key), or null when it can; used by readiness checks
+  configurationProblem(): string | null;
+  analyze(input: AnalyzeInput, onOutput?: OutputListener): Promise<unknown>;
+  compare(input: CompareInput, onOutput?: OutputListener): Promise<unknown>;
+  compareSeries(input: SeriesInput): Promise<unknown>;
+  translate(input: TranslateInput): Promise<unknown>;
+}
+
+const providerFactories: Record<ServerConfig["analysis"]["provider"], () => AnalysisProvider> = {
+  gemini: createGeminiProvider,
+  mock: createMockProvider,
+};
+
+let activeProvider: AnalysisProvider | null = null;
+
+/**
+ * Resolves the provider named by ANALYSIS_PROVIDER (defaults to "gemini") and reuses it across requests
+ */
+export const getAnalysisProvider = (): AnalysisProvider => {
+  activeProvider ??= providerFactories[config.analysis.provider]();
+  return activeProvider;
+};
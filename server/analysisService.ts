@@ -0,0 +1,228 @@
+import type { AnalysisResult, AnalysisStage, ComparisonResult, Locale, ResultProvenance, SeriesComparisonResult } from "../types";
+import { getAnalysisProvider, type AnalysisProvider, type AnalyzeInput, type Annotations, type CompareInput, type ComparedCapture, type OutputListener, type PriorCapture, type SeriesInput } from "./analysisProvider";
+import { generateValidated, readPartialStringField, seriesResultValidator, translationValidator, validateAnalysisResult, validateComparisonResult } from "./validation";
+import { applyAnalysisSafety, applyComparisonSafety, applySeriesSafety, filterStreamingText, isDisclaimer } from "./safety";
+import { cacheKey, digestImage, withAnalysisCache, type CachedRun } from "./analysisCache";
+import { PROMPT_VERSION, elapsedDaysBetween } from "./prompts";
+import { observeAiOperation } from "./metrics";
+import { DEFAULT_LOCALE, mapProse } from "./locales";
+import { fleschKincaidGrade } from "./readability";
+import { config } from "./config";
+import { logger } from "./logger";
+
+const TARGET_READING_GRADE = config.analysis.patientReadingGrade;
+
+export interface RunOptions {
+  // Skip the cache lookup and overwrite the cached entry with a fresh model result
+  bypassCache?: boolean;
+  // Progress for streaming routes; neither is called when the result comes from the cache
+  onStage?: (stage: AnalysisStage) => void;
+  onPartialText?: (text: string) => void; // Safety-filtered prose generated so far
+}
+
+/**
+ * Makes one model call, reporting the model and validating stages around it and streaming the given prose field
+ * of the output as it is generated
+ */
+const callModel = async (options: RunOptions, field: string, call: (onOutput?: OutputListener) => Promise<unknown>) => {
+  options.onStage?.("model");
+  const { onPartialText } = options;
+  let lastPartial = "";
+  const output = await call(onPartialText && (textSoFar => {
+    const streamed = readPartialStringField(textSoFar, field);
+    const partial = streamed ? filterStreamingText(streamed.text, streamed.complete) : "";
+    if (partial !== lastPartial) {
+      lastPartial = partial;
+      onPartialText(partial);
+    }
+  }));
+  options.onStage?.("validating");
+  return output;
+};
+
+// The annotation fields that change model output; pin ids and other client state are left out
+const annotationKey = ({ boundingBox, pins, practitionerNotes }: Annotations) => ({
+  boundingBox: boundingBox ?? null,
+  pins: (pins ?? []).map(({ x, y, label }) => ({ x, y, label })),
+  practitionerNotes: practitionerNotes?.trim() || null,
+});
+
+const captureKey = (capture: ComparedCapture = {}) => ({ ...annotationKey(capture), capturedAt: capture.capturedAt ?? null });
+
+/**
+ * Records which provider, model and prompt version produced a result, from which annotation inputs and when
+ */
+const provenanceOf = (
+  provider: AnalysisProvider,
+  generatedAt: string,
+  inputs: Pick<ResultProvenance, "annotations" | "captures" | "locale">
+): ResultProvenance => ({
+  provider: provider.name,
+  model: provider.model,
+  promptVersion: PROMPT_VERSION,
+  generatedAt,
+  ...inputs,
+});
+
+const NO_BASELINE_RATIONALES: Record<Locale, string> = {
+  en: "No earlier capture of this patient is available, so evolution cannot be assessed.",
+  es: "No hay ninguna captura anterior de este paciente, por lo que no se puede evaluar la evolución.",
+  fr: "Aucune capture antérieure de ce patient n'est disponible, l'évolution ne peut donc pas être évaluée.",
+};
+
+/**
+ * Evolution is only meaningful against an earlier capture: without one it is marked not assessable regardless
+ * of what the model returned, and with one the baseline capture is recorded on the result
+ */
+const attachEvolutionBaseline = (result: AnalysisResult, history: PriorCapture | undefined, locale: Locale): AnalysisResult => {
+  if (!result.abcde) {
+    return result;
+  }
+  const evolution = history
+    ? { ...result.abcde.evolution, comparedTo: { imageId: history.imageId, capturedAt: history.capturedAt } }
+    : { score: null, rationale: NO_BASELINE_RATIONALES[locale] };
+  return { ...result, abcde: { ...result.abcde, evolution } };
+};
+
+/**
+ * Measures the reading grade of the patient summary after safety filtering. The formula only holds for English,
+ * so summaries in other languages carry no grade. Summaries above the configured grade are logged, not rejected.
+ */
+const gradePatientSummary = (result: AnalysisResult): AnalysisResult => {
+  if (!result.patientSummary) {
+    return result;
+  }
+  const { readingGrade, ...summary } = result.patientSummary;
+  if ((result.provenance?.locale ?? DEFAULT_LOCALE) !== "en") {
+    return { ...result, patientSummary: summary };
+  }
+  const grade = fleschKincaidGrade(summary.explanation);
+  if (grade !== undefined && grade > TARGET_READING_GRADE) {
+    logger.warn("Patient summary is above the target reading grade", { readingGrade: grade, target: TARGET_READING_GRADE });
+  }
+  return { ...result, patientSummary: { ...summary, readingGrade: grade } };
+};
+
+/**
+ * Runs a single-image analysis through the active provider and returns a schema-checked, safety-filtered result.
+ * Validated model output is cached by image content, annotations, language, reading grade, model and prompt version;
+ * the safety filter runs after the cache so term list changes apply to cached results too.
+ */
+export const runAnalysis = (input: AnalyzeInput, options: RunOptions = {}): Promise<CachedRun<AnalysisResult>> =>
+  observeAiOperation("analysis", async () => {
+    const provider = getAnalysisProvider();
+    const annotations = annotationKey(input);
+    const locale = input.locale ?? DEFAULT_LOCALE;
+    const key = cacheKey({
+      operation: "analysis",
+      provider: provider.name,
+      model: provider.model,
+      promptVersion: PROMPT_VERSION,
+      image: digestImage(input.image),
+      ...annotations,
+      history: input.history ? { image: digestImage(input.history.image), capturedAt: input.history.capturedAt } : null,
+      locale,
+      readingGrade: TARGET_READING_GRADE,
+    });
+    const run = await withAnalysisCache("analysis", key, !!options.bypassCache, () =>
+      generateValidated("analysis", () => callModel(options, "description", onOutput => provider.analyze(input, onOutput)), validateAnalysisResult)
+    );
+    const provenance = provenanceOf(provider, run.generatedAt, { annotations, locale });
+    return { ...run, result: gradePatientSummary(applyAnalysisSafety({ ...attachEvolutionBaseline(run.result, input.history, locale), provenance })) };
+  });
+
+/**
+ * Runs a two-image progression comparison through the active provider and returns a schema-checked, safety-filtered result.
+ * Each side's annotations and capture date are part of the prompt, so they are part of the cache key too.
+ */
+export const runComparison = (input: CompareInput, options: RunOptions = {}): Promise<CachedRun<ComparisonResult>> =>
+  observeAiOperation("comparison", async () => {
+    const provider = getAnalysisProvider();
+    const captures = [captureKey(input.capture1), captureKey(input.capture2)];
+    const locale = input.locale ?? DEFAULT_LOCALE;
+    const key = cacheKey({
+      operation: "comparison",
+      provider: provider.name,
+      model: provider.model,
+      promptVersion: PROMPT_VERSION,
+      image1: digestImage(input.image1),
+      image2: digestImage(input.image2),
+      capture1: captures[0],
+      capture2: captures[1],
+      locale,
+    });
+    const run = await withAnalysisCache("comparison", key, !!options.bypassCache, () =>
+      generateValidated("comparison", () => callModel(options, "changeSummary", onOutput => provider.compare(input, onOutput)), validateComparisonResult)
+    );
+    const elapsedDays = elapsedDaysBetween(input.capture1?.capturedAt, input.capture2?.capturedAt);
+    const provenance = provenanceOf(provider, run.generatedAt, { captures, locale });
+    return { ...run, result: applyComparisonSafety({ ...run.result, elapsedDays, provenance }) };
+  });
+
+/**
+ * Runs a progression analysis across an ordered series of captures. The model only describes the intervals;
+ * which captures and dates each interval spans is attached here so it never depends on the model's output.
+ */
+export const runSeriesComparison = (input: SeriesInput, options: RunOptions = {}): Promise<CachedRun<SeriesComparisonResult>> =>
+  observeAiOperation("series", async () => {
+    const provider = getAnalysisProvider();
+    const locale = input.locale ?? DEFAULT_LOCALE;
+    const key = cacheKey({
+      operation: "series",
+      provider: provider.name,
+      model: provider.model,
+      promptVersion: PROMPT_VERSION,
+      captures: input.captures.map(capture => ({ image: digestImage(capture.image), capturedAt: capture.capturedAt })),
+      locale,
+    });
+    const run = await withAnalysisCache("series comparison", key, !!options.bypassCache, () =>
+      generateValidated("series comparison", () => provider.compareSeries(input), seriesResultValidator(input.captures.length))
+    );
+    const intervals = run.result.intervals.map((interval, index) => {
+      const [from, to] = [input.captures[index], input.captures[index + 1]];
+      return { ...interval, fromImageId: from.imageId, toImageId: to.imageId, fromCapturedAt: from.capturedAt, toCapturedAt: to.capturedAt };
+    });
+    const provenance = provenanceOf(provider, run.generatedAt, { captures: input.captures.map(({ capturedAt }) => ({ capturedAt })), locale });
+    return { ...run, result: applySeriesSafety({ ...run.result, intervals, provenance }) };
+  });
+
+// Machine-read values and metadata, which keep their English values in every language
+const UNTRANSLATED_FIELDS = new Set(["confidence", "tier", "comparedTo", "safety", "provenance"]);
+
+/**
+ * Translates the prose of a stored analysis into another language, so a clinician and a patient can each read the
+ * same result in their own language. Scores, likelihoods, tiers and provenance are copied from the source, the
+ * disclaimer is replaced with the reviewed one for the target language, and the safety filter runs again.
+ * Translations are cached by the source text, language, model and prompt version.
+ */
+export const runTranslation = (source: AnalysisResult, locale: Locale, options: Pick<RunOptions, "bypassCache"> = {}): Promise<CachedRun<AnalysisResult>> =>
+  observeAiOperation("translation", async () => {
+    const provider = getAnalysisProvider();
+    const withoutDisclaimer = { ...source, recommendations: source.recommendations.filter(rec => !isDisclaimer(rec)) };
+    const texts: string[] = [];
+    mapProse(withoutDisclaimer, UNTRANSLATED_FIELDS, text => {
+      texts.push(text);
+      return text;
+    });
+    const key = cacheKey({
+      operation: "translation",
+      provider: provider.name,
+      model: provider.model,
+      promptVersion: PROMPT_VERSION,
+      texts,
+      locale,
+    });
+    const run = await withAnalysisCache("translation", key, !!options.bypassCache, () =>
+      generateValidated("translation", () => provider.translate({ texts, locale }), translationValidator(texts.length))
+    );
+    let next = 0;
+    const translated = mapProse(withoutDisclaimer, UNTRANSLATED_FIELDS, () => run.result[next++]);
+    // Results stored before provenance existed are attributed to the model that translated them
+    const provenance: ResultProvenance = {
+      ...(source.provenance ?? provenanceOf(provider, run.generatedAt, {})),
+      locale,
+      translatedFrom: source.provenance?.locale ?? DEFAULT_LOCALE,
+      translatedAt: run.generatedAt,
+    };
+    return { ...run, result: gradePatientSummary(applyAnalysisSafety({ ...translated, provenance })) };
+  });
@@ -0,0 +1,147 @@
+import fs from "fs/promises";
+import path from "path";
+import { createHash } from "crypto";
+import type { Request, RequestHandler, Response } from "express";
+import type { AnalysisResult, AuditAction, AuditEntry, AuditIntegrity, ComparisonResult, SeriesComparisonResult } from "../types";
+import { DATA_DIR, newId } from "./store";
+import { logger } from "./logger";
+
+// Kept apart from db.json and only ever appended to, so no database write can rewrite history
+const AUDIT_FILE = path.join(DATA_DIR, "audit-log.jsonl");
+const GENESIS_HASH = "0".repeat(64);
+
+export type NewAuditEntry = Omit<AuditEntry, "id" | "timestamp" | "prevHash" | "hash">;
+
+export interface AuditFilter {
+  patientId?: string;
+  actorId?: string;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+}
+
+let lastHash: string | null = null;
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+const hashEntry = (entry: Omit<AuditEntry, "hash">) => createHash("sha256").update(JSON.stringify(entry)).digest("hex");
+
+/**
+ * Reads every entry in append order
+ */
+export const readAuditLog = async (): Promise<AuditEntry[]> => {
+  let text: string;
+  try {
+    text = await fs.readFile(AUDIT_FILE, "utf8");
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+  return text.split("\n").filter(line => line.trim()).map(line => JSON.parse(line));
+};
+
+/**
+ * Appends an entry chained to the previous one. Appends are serialized so concurrent requests cannot fork the chain.
+ */
+export const appendAudit = (fields: NewAuditEntry): Promise<AuditEntry> => {
+  const run = appendQueue.then(async () => {
+    lastHash ??= (await readAuditLog()).at(-1)?.hash ?? GENESIS_HASH;
+    const unsigned = { id: newId("audit_"), timestamp: new Date().toISOString(), ...fields, prevHash: lastHash };
+    const entry: AuditEntry = { ...unsigned, hash: hashEntry(unsigned) };
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    await fs.appendFile(AUDIT_FILE, `${JSON.stringify(entry)}\n`);
+    lastHash = entry.hash;
+    return entry;
+  });
+  appendQueue = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Recomputes the hash chain and reports the first entry that was altered, removed or reordered
+ */
+export const verifyAuditLog = (entries: AuditEntry[]): AuditIntegrity => {
+  let prevHash = GENESIS_HASH;
+  for (const { hash, ...unsigned } of entries) {
+    if (unsigned.prevHash !== prevHash || hashEntry(unsigned) !== hash) {
+      return { valid: false, checked: entries.length, brokenAt: unsigned.id };
+    }
+    prevHash = hash;
+  }
+  return { valid: true, checked: entries.length };
+};
+
+export const filterAuditLog = (entries: AuditEntry[], filter: AuditFilter): AuditEntry[] =>
+  entries.filter(entry =>
+    (!filter.patientId || entry.patientId === filter.patientId)
+    && (!filter.actorId || entry.actorId === filter.actorId)
+    && (!filter.action || entry.action === filter.action)
+    && (!filter.from || entry.timestamp >= filter.from)
+    && (!filter.to || entry.timestamp <= filter.to)
+  );
+
+const requestMetadata = (req: Request, res: Response): AuditEntry["request"] => ({
+  method: req.method,
+  path: req.originalUrl,
+  status: res.statusCode,
+  ip: req.ip,
+  userAgent: req.get("user-agent"),
+  requestId: res.getHeader("X-Request-Id")?.toString(),
+});
+
+/**
+ * Records the request once its response is sent, including denied and failed attempts with their status.
+ * Handlers can refine the entry through res.locals.audit, e.g. with the model's verdict or a patient id
+ * that only becomes known after a multipart body is parsed.
+ */
+export const audited = (action: AuditAction, detail?: string): RequestHandler<any> => (req, res, next) => {
+  const routePatientId: string | undefined = req.params?.patientId;
+  res.on("finish", () => {
+    if (!req.user) {
+      return;
+    }
+    const refined: { patientId?: string; detail?: string } = res.locals.audit ?? {};
+    const bodyPatientId = typeof req.body?.patientId === "string" && req.body.patientId ? req.body.patientId : undefined;
+    appendAudit({
+      actorId: req.user.id,
+      actorEmail: req.user.email,
+      role: req.user.role,
+      action,
+      patientId: refined.patientId ?? routePatientId ?? bodyPatientId,
+      detail: refined.detail ?? detail ?? `${req.method} ${req.originalUrl.split("?")[0]}`,
+      request: requestMetadata(req, res),
+    }).catch(error => logger.error("Failed to write audit log entry", { error }));
+  });
+  next();
+};
+
+// One-line summaries of model output, so the log shows what the model returned without storing whole results
+export const describeAnalysis = (result: AnalysisResult) =>
+  `${result.conditionName} (${result.confidence} confidence${result.urgency ? `, ${result.urgency.tier} urgency` : ""})`;
+
+export const describeComparison = (result: ComparisonResult) =>
+  `${result.updatedConditionAssessment}: ${result.postComparisonCondition}${result.urgency ? ` (${result.urgency.tier} urgency)` : ""}`;
+
+export const describeSeries = (result: SeriesComparisonResult) =>
+  `${result.trajectory} across ${result.intervals.length + 1} captures${result.urgency ? ` (${result.urgency.tier} urgency)` : ""}`;
+
+const CSV_COLUMNS = ["timestamp", "id", "actorId", "actorEmail", "role", "action", "patientId", "detail", "method", "path", "status", "ip", "userAgent", "requestId", "prevHash", "hash"] as const;
+
+const csvCell = (value: unknown): string => {
+  let text = value === undefined || value === null ? "" : String(value);
+  // Spreadsheet apps execute cells starting with these characters as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toAuditCsv = (entries: AuditEntry[]): string =>
+  [
+    CSV_COLUMNS.join(","),
+    ...entries.map(entry => {
+      const row: Partial<Record<(typeof CSV_COLUMNS)[number], unknown>> = { ...entry, ...entry.request };
+      return CSV_COLUMNS.map(column => csvCell(row[column])).join(",");
+    }),
+  ].join("\n");
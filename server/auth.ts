@@ -0,0 +1,161 @@
+import type { RequestHandler, Request, Response } from "express";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import type { User } from "../types";
+import { newId, readDatabase, updateDatabase, type StoredUser } from "./store";
+import { config } from "./config";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+export const SESSION_COOKIE = "dd_session";
+const SESSION_TTL_MS = config.sessionTtlHours * 60 * 60 * 1000;
+const SCRYPT_KEY_LENGTH = 64;
+
+const deriveKey = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+
+/**
+ * Produces a self-describing salted hash: "scrypt$<salt hex>$<key hex>"
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+};
+
+export const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+  const [scheme, saltHex, keyHex] = passwordHash.split("$");
+  if (scheme !== "scrypt" || !saltHex || !keyHex) {
+    return false;
+  }
+  const expected = Buffer.from(keyHex, "hex");
+  const actual = await deriveKey(password, Buffer.from(saltHex, "hex"));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Strips credentials so a stored user can be sent to the client
+ */
+export const toPublicUser = ({ passwordHash, createdAt, ...user }: StoredUser): User => user;
+
+const readCookie = (req: Request, name: string): string | undefined => {
+  const header = req.headers.cookie;
+  if (!header) {
+    return undefined;
+  }
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) {
+      // A malformed value is treated as no cookie, so it cannot lock the browser out of every route
+      try {
+        return decodeURIComponent(rest.join("="));
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Creates a session for the user and sets it as an HTTP-only cookie on the response
+ */
+export const startSession = async (res: Response, userId: string) => {
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  await updateDatabase(db => {
+    // Opportunistically drop expired sessions whenever a new one is issued
+    db.sessions = db.sessions.filter(session => Date.parse(session.expiresAt) > now);
+    db.sessions.push({
+      tokenHash: hashToken(token),
+      userId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+    });
+  });
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: config.production,
+    maxAge: SESSION_TTL_MS,
+    path: "/",
+  });
+};
+
+export const endSession = async (req: Request, res: Response) => {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (token) {
+    const tokenHash = hashToken(token);
+    await updateDatabase(db => {
+      db.sessions = db.sessions.filter(session => session.tokenHash !== tokenHash);
+    });
+  }
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+};
+
+/**
+ * Resolves the session cookie (if any) to req.user. Never rejects a request on its own.
+ */
+export const loadSession: RequestHandler = async (req, res, next) => {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (token) {
+    const tokenHash = hashToken(token);
+    const db = await readDatabase();
+    const session = db.sessions.find(s => s.tokenHash === tokenHash);
+    if (session && Date.parse(session.expiresAt) > Date.now()) {
+      const user = db.users.find(u => u.id === session.userId);
+      if (user) {
+        req.user = toPublicUser(user);
+      }
+    }
+  }
+  next();
+};
+
+type SeedUser = Omit<StoredUser, "passwordHash" | "createdAt"> & { password: string };
+
+// Publicly documented logins, so they are only seeded when SEED_DEMO_USERS allows it
+const DEMO_USERS: SeedUser[] = [
+  { id: 'user_default_doctor', name: 'Dr. Clinic', email: 'doctor@clinic.com', password: 'demo-password', role: 'practitioner' },
+  { id: 'user_default_patient', name: 'John Doe', email: 'john@patient.com', password: 'demo-password', role: 'patient', linkedPatientId: 'p1' },
+];
+
+/**
+ * Seeds the configured bootstrap practitioner and, when enabled, the demo accounts. Existing accounts are left
+ * untouched, so changing a password after the first start sticks.
+ */
+export const ensureDefaultUsers = async () => {
+  const { bootstrapPractitioner, seedDemoUsers } = config;
+  const defaults: SeedUser[] = [
+    ...(bootstrapPractitioner ? [{ id: newId("u"), ...bootstrapPractitioner, role: "practitioner" as const }] : []),
+    ...(seedDemoUsers ? DEMO_USERS : []),
+  ];
+  const db = await readDatabase();
+  const missing = defaults.filter(user => !db.users.some(existing => existing.email === user.email));
+  if (missing.length === 0) {
+    return;
+  }
+  const seeded: StoredUser[] = await Promise.all(missing.map(async ({ password, ...user }) => ({
+    ...user,
+    passwordHash: await hashPassword(password),
+    createdAt: new Date().toISOString(),
+  })));
+  await updateDatabase(db => {
+    for (const user of seeded) {
+      if (!db.users.some(existing => existing.email === user.email)) {
+        db.users.push(user);
+      }
+    }
+  });
+};
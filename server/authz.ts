@@ -0,0 +1,61 @@
+import type { RequestHandler } from "express";
+import type { User } from "../types";
+import { HttpError } from "./httpError";
+import { readDatabase, type StoredPatient } from "./store";
+
+/**
+ * Rejects requests without a valid session with a structured 401
+ */
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.user) {
+    throw new HttpError(401, "Authentication required. Please sign in.", "UNAUTHENTICATED");
+  }
+  next();
+};
+
+/**
+ * Restricts a route to the given roles, answering other signed-in users with a structured 403
+ */
+export const requireRole = (...roles: Array<User["role"]>): RequestHandler<any> => (req, res, next) => {
+  if (!req.user) {
+    throw new HttpError(401, "Authentication required. Please sign in.", "UNAUTHENTICATED");
+  }
+  if (!roles.includes(req.user.role)) {
+    throw new HttpError(403, `This action requires the ${roles.join(" or ")} role.`, "FORBIDDEN");
+  }
+  next();
+};
+
+/**
+ * Practitioners may access every record; patients only the record linked to their account
+ */
+export const canAccessPatient = (user: User, patient: StoredPatient): boolean => {
+  if (user.role === "practitioner") {
+    return true;
+  }
+  if (user.linkedPatientId) {
+    return patient.id === user.linkedPatientId;
+  }
+  return !!patient.email && patient.email.trim().toLowerCase() === user.email;
+};
+
+/**
+ * Guards routes carrying a :patientId parameter. Patients get 403 for any record that is not theirs,
+ * whether or not it exists, so record ids cannot be probed.
+ */
+export const requirePatientAccess: RequestHandler = async (req, res, next) => {
+  const user = req.user;
+  if (!user) {
+    throw new HttpError(401, "Authentication required. Please sign in.", "UNAUTHENTICATED");
+  }
+  const db = await readDatabase();
+  const patient = db.patients.find(p => p.id === req.params.patientId);
+  if (patient && canAccessPatient(user, patient)) {
+    next();
+    return;
+  }
+  if (user.role === "patient") {
+    throw new HttpError(403, "You can only access your own clinical file.", "FORBIDDEN");
+  }
+  throw new HttpError(404, `Patient "${req.params.patientId}" was not found.`);
+};
@@ -0,0 +1,119 @@
+import type { BatchAnalysisItem, Locale } from "../types";
+import type { Annotations, PriorCapture } from "./analysisProvider";
+import { errorCodeOf, HttpError } from "./httpError";
+import { logger } from "./logger";
+import { config } from "./config";
+import { normalizeImage, type NormalizedImage } from "./imageNormalization";
+import { runAnalysis, type RunOptions } from "./analysisService";
+import { newId, readDatabase, updateDatabase, type StoredLesionImage, type StoredPatient } from "./store";
+import { fromDataUrl, toDataUrl, type BatchUpload } from "./uploads";
+
+const BATCH_CONCURRENCY = config.analysis.batchConcurrency;
+export const BATCH_MAX_IMAGES = config.analysis.batchMaxImages;
+
+export type BatchInput = BatchUpload & Annotations;
+
+/**
+ * Maps items through fn with at most `limit` calls in flight, keeping results in input order
+ */
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+/**
+ * The patient's most recent stored capture, the ABCDE Evolution baseline for every photo of the batch.
+ * A stored image that can no longer be decoded is logged and the batch runs without a baseline.
+ */
+const loadLatestCapture = async (patientId: string): Promise<PriorCapture | undefined> => {
+  const patient = (await readDatabase()).patients.find(p => p.id === patientId);
+  const latest = [...(patient?.lesionImages ?? [])].sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0];
+  if (!latest) {
+    return undefined;
+  }
+  try {
+    return { image: await normalizeImage(fromDataUrl(latest.imageDataUrl)), capturedAt: latest.timestamp, imageId: latest.id };
+  } catch (error) {
+    logger.warn("Analyzing the batch without an Evolution baseline: the latest stored capture is unreadable", { patientId, imageId: latest.id, error });
+    return undefined;
+  }
+};
+
+/**
+ * Normalizes and analyzes every photo of a batch, at most BATCH_CONCURRENCY at a time. Failures are
+ * captured per item. When a patientId is given, each photo is scored against the patient's latest earlier
+ * capture, and every photo that could be decoded is added to that patient in a single write, with analysisResult left null for photos whose analysis failed so a scan
+ * can be rerun later.
+ */
+export const analyzeBatch = async (
+  inputs: BatchInput[],
+  { patientId, locale, ...options }: RunOptions & { patientId?: string; locale?: Locale }
+): Promise<{ items: BatchAnalysisItem[]; patient?: StoredPatient }> => {
+  const history = patientId ? await loadLatestCapture(patientId) : undefined;
+  const outcomes = await mapWithConcurrency(inputs, BATCH_CONCURRENCY, async ({ fileName, image, error, ...annotations }, index) => {
+    let normalized: NormalizedImage | undefined;
+    try {
+      if (error || !image) {
+        throw error ?? new HttpError(400, "Missing image data.");
+      }
+      normalized = await normalizeImage(image);
+      const { result } = await runAnalysis({ image: normalized, history, ...annotations, locale }, options);
+      return { item: { index, fileName, status: "succeeded", result } as BatchAnalysisItem, normalized, annotations };
+    } catch (failure: any) {
+      if (!(failure instanceof HttpError)) {
+        logger.error("Batch analysis of one photo failed", { index, fileName, error: failure });
+      }
+      const item: BatchAnalysisItem = {
+        index,
+        fileName,
+        status: "failed",
+        error: { message: failure.message || "Analysis failed.", code: errorCodeOf(failure) },
+      };
+      return { item, normalized, annotations };
+    }
+  });
+
+  if (!patientId) {
+    return {
+      items: outcomes.map(({ item, normalized }) =>
+        normalized ? { ...item, image: { dataUrl: toDataUrl(normalized), width: normalized.width, height: normalized.height } } : item
+      ),
+    };
+  }
+
+  const timestamp = new Date().toISOString();
+  const stored: StoredLesionImage[] = [];
+  for (const { item, normalized, annotations } of outcomes) {
+    if (!normalized) continue;
+    const image: StoredLesionImage = {
+      id: newId("img_"),
+      imageDataUrl: toDataUrl(normalized),
+      timestamp,
+      analysisResult: item.result ?? null,
+      boundingBox: annotations.boundingBox,
+      // Stored pins need an id (the UI keys them by it), which batch annotations may leave out
+      pins: annotations.pins?.map(pin => ({ id: newId("pin_"), ...pin })),
+      practitionerNotes: annotations.practitionerNotes,
+      uploadedBy: "practitioner",
+    };
+    item.imageId = image.id;
+    stored.push(image);
+  }
+  const patient = await updateDatabase(db => {
+    const existing = db.patients.find(p => p.id === patientId);
+    if (!existing) {
+      throw new HttpError(404, `Patient "${patientId}" was not found.`);
+    }
+    existing.lesionImages.unshift(...stored);
+    return existing;
+  });
+  return { items: outcomes.map(({ item }) => item), patient };
+};
@@ -0,0 +1,275 @@
+import fs from "fs";
+import path from "path";
+import type { Locale } from "../types";
+import { checkTermList, toTermList, type SafetyTermList, type SafetyTermLists } from "./safetyTerms";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Every server setting, validated once at startup. Values come from the environment, falling back to the
+ * JSON file named by CONFIG_FILE (keys are the environment variable names), then to the defaults below.
+ */
+export interface ServerConfig {
+  production: boolean;
+  port: number;
+  jsonBodyLimit: string; // express.json / urlencoded limit for record and annotation bodies
+  corsOrigins: string[]; // Extra origins allowed to call the API with credentials; empty means same-origin only
+  dataDir: string;
+  logLevel: LogLevel;
+  sessionTtlHours: number;
+  seedDemoUsers: boolean; // Demo practitioner and patient logins; off unless asked for in production
+  // First practitioner account for a fresh deployment, since signup only creates patients
+  bootstrapPractitioner?: { email: string; password: string; name: string };
+  uploads: {
+    maxBytes: number;
+    imageMaxDimension: number;
+    jpegQuality: number;
+  };
+  analysis: {
+    provider: "gemini" | "mock";
+    geminiApiKey?: string;
+    geminiModel: string;
+    geminiUserAgent: string;
+    cacheEnabled: boolean;
+    maxAttempts: number;
+    safetyMode: "redact" | "reject";
+    safetyTermsPath?: string;
+    safetyTerms?: SafetyTermLists; // The lists read from safetyTermsPath, replacing the built-in ones per locale
+    jobConcurrency: number;
+    batchConcurrency: number;
+    batchMaxImages: number;
+    seriesMaxImages: number;
+    patientReadingGrade: number;
+  };
+  minFreeDiskMb: number;
+  metricsToken?: string;
+  configFile?: string;
+}
+
+/**
+ * Raised with every invalid setting listed, so one restart is enough to see all of them
+ */
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid server configuration:\n${problems.map(problem => `  - ${problem}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+type Source = Record<string, unknown>;
+
+// Typed readers that record a readable problem and return the default instead of throwing on the first bad value
+const createReader = (source: Source) => {
+  const problems: string[] = [];
+  const raw = (name: string): string | undefined => {
+    const value = source[name];
+    return value === undefined || value === null || String(value).trim() === "" ? undefined : String(value).trim();
+  };
+
+  return {
+    problems,
+    string: (name: string, fallback: string) => raw(name) ?? fallback,
+    optional: (name: string) => raw(name),
+    integer(name: string, fallback: number, min: number, max = Number.MAX_SAFE_INTEGER) {
+      const value = raw(name);
+      if (value === undefined) {
+        return fallback;
+      }
+      const parsed = Number(value);
+      if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+        problems.push(`${name} must be a whole number between ${min} and ${max} (got "${value}").`);
+        return fallback;
+      }
+      return parsed;
+    },
+    oneOf<T extends string>(name: string, allowed: readonly T[], fallback: T): T {
+      const value = raw(name)?.toLowerCase();
+      if (value === undefined) {
+        return fallback;
+      }
+      if (!allowed.includes(value as T)) {
+        problems.push(`${name} must be one of ${allowed.join(", ")} (got "${value}").`);
+        return fallback;
+      }
+      return value as T;
+    },
+    toggle(name: string, fallback: boolean) {
+      const value = raw(name)?.toLowerCase();
+      if (value === undefined) {
+        return fallback;
+      }
+      if (["on", "true", "1", "yes"].includes(value)) {
+        return true;
+      }
+      if (["off", "false", "0", "no"].includes(value)) {
+        return false;
+      }
+      problems.push(`${name} must be "on" or "off" (got "${value}").`);
+      return fallback;
+    },
+    size(name: string, fallback: string) {
+      const value = raw(name)?.toLowerCase();
+      if (value !== undefined && !/^\d+(b|kb|mb)$/.test(value)) {
+        problems.push(`${name} must be a size such as 500kb or 1mb (got "${value}").`);
+        return fallback;
+      }
+      return value ?? fallback;
+    },
+    origins(name: string) {
+      const values = (raw(name) ?? "").split(",").map(value => value.trim()).filter(Boolean);
+      return values.filter(value => {
+        let origin: string | undefined;
+        try {
+          origin = new URL(value).origin;
+        } catch {
+          origin = undefined;
+        }
+        if (origin !== value) {
+          problems.push(`${name} entries must be origins such as https://app.example.com, without paths or wildcards (got "${value}").`);
+          return false;
+        }
+        return true;
+      });
+    },
+  };
+};
+
+const readConfigFile = (file: string): Source => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error: any) {
+    throw new ConfigError([`CONFIG_FILE "${file}" could not be read as JSON: ${error.message}`]);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ConfigError([`CONFIG_FILE "${file}" must contain a JSON object keyed by setting name, e.g. { "PORT": 8080 }.`]);
+  }
+  return parsed as Source;
+};
+
+// Mirrors SUPPORTED_LOCALES: locales.ts reaches the logger, which reads this configuration
+const TERM_LIST_LOCALES: readonly Locale[] = ["en", "es", "fr"];
+
+const readSafetyTerms = (file: string, problems: string[]): SafetyTermLists | undefined => {
+  if (!fs.existsSync(file)) {
+    problems.push(`SAFETY_TERMS_PATH "${file}" does not exist.`);
+    return undefined;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error: any) {
+    problems.push(`SAFETY_TERMS_PATH "${file}" could not be read as JSON: ${error.message}`);
+    return undefined;
+  }
+  const label = `SAFETY_TERMS_PATH "${file}"`;
+  const keys = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? Object.keys(parsed) : [];
+  // A single list, as before lists were kept per locale, replaces the English one
+  if (!keys.some(key => TERM_LIST_LOCALES.some(locale => locale === key))) {
+    const listProblems = checkTermList(parsed, label);
+    problems.push(...listProblems);
+    return listProblems.length === 0 ? { en: toTermList(parsed as Partial<SafetyTermList>) } : undefined;
+  }
+  const lists: SafetyTermLists = {};
+  const before = problems.length;
+  for (const key of keys) {
+    const locale = TERM_LIST_LOCALES.find(candidate => candidate === key);
+    if (!locale) {
+      problems.push(`${label} has an unknown locale "${key}"; use ${TERM_LIST_LOCALES.join(", ")}.`);
+      continue;
+    }
+    const value = (parsed as Record<string, unknown>)[key];
+    const listProblems = checkTermList(value, `${label} locale "${locale}"`);
+    problems.push(...listProblems);
+    if (listProblems.length === 0) {
+      lists[locale] = toTermList(value as Partial<SafetyTermList>);
+    }
+  }
+  return problems.length === before ? lists : undefined;
+};
+
+/**
+ * Reads and validates the configuration, throwing a ConfigError that lists every invalid value
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  const configFile = env.CONFIG_FILE?.trim() || undefined;
+  const read = createReader({ ...(configFile ? readConfigFile(configFile) : {}), ...env });
+
+  const production = read.string("NODE_ENV", "development") === "production";
+  const bootstrapEmail = read.optional("BOOTSTRAP_PRACTITIONER_EMAIL");
+  const bootstrapPassword = read.optional("BOOTSTRAP_PRACTITIONER_PASSWORD");
+  const config: ServerConfig = {
+    production,
+    port: read.integer("PORT", 3000, 1, 65535),
+    jsonBodyLimit: read.size("JSON_BODY_LIMIT", "1mb"),
+    corsOrigins: read.origins("CORS_ORIGINS"),
+    dataDir: path.resolve(read.string("DATA_DIR", path.join(process.cwd(), "data"))),
+    logLevel: read.oneOf("LOG_LEVEL", ["debug", "info", "warn", "error"] as const, "info"),
+    sessionTtlHours: read.integer("SESSION_TTL_HOURS", 12, 1, 24 * 365),
+    seedDemoUsers: read.toggle("SEED_DEMO_USERS", !production),
+    bootstrapPractitioner: bootstrapEmail && bootstrapPassword
+      ? { email: bootstrapEmail.toLowerCase(), password: bootstrapPassword, name: read.string("BOOTSTRAP_PRACTITIONER_NAME", "Clinic Administrator") }
+      : undefined,
+    uploads: {
+      maxBytes: read.integer("MAX_UPLOAD_BYTES", 15 * 1024 * 1024, 1024),
+      imageMaxDimension: read.integer("IMAGE_MAX_DIMENSION", 2048, 64, 16384),
+      jpegQuality: read.integer("IMAGE_JPEG_QUALITY", 90, 1, 100),
+    },
+    analysis: {
+      provider: read.oneOf("ANALYSIS_PROVIDER", ["gemini", "mock"] as const, "gemini"),
+      geminiApiKey: read.optional("GEMINI_API_KEY"),
+      geminiModel: read.string("GEMINI_MODEL", "gemini-3.5-flash"),
+      geminiUserAgent: read.string("GEMINI_USER_AGENT", "aistudio-build"),
+      cacheEnabled: read.toggle("ANALYSIS_CACHE", true),
+      maxAttempts: read.integer("MODEL_MAX_ATTEMPTS", 3, 1, 10),
+      safetyMode: read.oneOf("SAFETY_MODE", ["redact", "reject"] as const, "redact"),
+      safetyTermsPath: read.optional("SAFETY_TERMS_PATH"),
+      jobConcurrency: read.integer("JOB_CONCURRENCY", 2, 1, 64),
+      batchConcurrency: read.integer("BATCH_CONCURRENCY", 3, 1, 64),
+      batchMaxImages: read.integer("BATCH_MAX_IMAGES", 20, 1, 500),
+      seriesMaxImages: read.integer("SERIES_MAX_IMAGES", 12, 2, 100),
+      patientReadingGrade: read.integer("PATIENT_READING_GRADE", 6, 3, 12),
+    },
+    minFreeDiskMb: read.integer("MIN_FREE_DISK_MB", 100, 0),
+    metricsToken: read.optional("METRICS_TOKEN"),
+    configFile,
+  };
+
+  if (!bootstrapEmail !== !bootstrapPassword) {
+    read.problems.push("BOOTSTRAP_PRACTITIONER_EMAIL and BOOTSTRAP_PRACTITIONER_PASSWORD must be set together.");
+  }
+  // Same minimum as signup
+  if (bootstrapPassword && bootstrapPassword.length < 8) {
+    read.problems.push("BOOTSTRAP_PRACTITIONER_PASSWORD must be at least 8 characters long.");
+  }
+  if (config.analysis.safetyTermsPath) {
+    config.analysis.safetyTerms = readSafetyTerms(config.analysis.safetyTermsPath, read.problems);
+  }
+  if (read.problems.length > 0) {
+    throw new ConfigError(read.problems);
+  }
+  return config;
+};
+
+/**
+ * The configuration for the /api/config view: secrets are reduced to whether they are set
+ */
+export const redactedConfig = ({ analysis: { safetyTerms, ...analysis }, ...config }: ServerConfig) => ({
+  ...config,
+  bootstrapPractitioner: config.bootstrapPractitioner ? { ...config.bootstrapPractitioner, password: "[set]" } : null,
+  analysis: { ...analysis, geminiApiKey: analysis.geminiApiKey ? "[set]" : null },
+  metricsToken: config.metricsToken ? "[set]" : null,
+});
+
+// Loaded on first import so a misconfigured server stops before it listens, with every problem listed
+export const config: ServerConfig = (() => {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      process.stderr.write(`${error.message}\n`);
+      process.exit(1);
+    }
+    throw error;
+  }
+})();
@@ -0,0 +1,32 @@
+import type { RequestHandler } from "express";
+import { config } from "./config";
+
+const ALLOWED_METHODS = "GET, POST, PUT, PATCH, DELETE, OPTIONS";
+const ALLOWED_HEADERS = "Content-Type, X-Request-Id";
+// Headers the client reads from API responses
+const EXPOSED_HEADERS = "X-Request-Id, X-Analysis-Cache";
+const PREFLIGHT_MAX_AGE_SECONDS = 600;
+
+/**
+ * Lets the origins in CORS_ORIGINS call the API with the session cookie. Other cross-origin requests get no
+ * CORS headers, so browsers keep blocking them; same-origin requests are unaffected.
+ */
+export const allowConfiguredOrigins: RequestHandler = (req, res, next) => {
+  const origin = req.get("Origin");
+  res.vary("Origin");
+  if (!origin || !config.corsOrigins.includes(origin)) {
+    next();
+    return;
+  }
+  res.setHeader("Access-Control-Allow-Origin", origin);
+  res.setHeader("Access-Control-Allow-Credentials", "true");
+  res.setHeader("Access-Control-Expose-Headers", EXPOSED_HEADERS);
+  if (req.method === "OPTIONS") {
+    res.setHeader("Access-Control-Allow-Methods", ALLOWED_METHODS);
+    res.setHeader("Access-Control-Allow-Headers", ALLOWED_HEADERS);
+    res.setHeader("Access-Control-Max-Age", String(PREFLIGHT_MAX_AGE_SECONDS));
+    res.sendStatus(204);
+    return;
+  }
+  next();
+};
@@ -0,0 +1,90 @@
+import fs from "fs/promises";
+import path from "path";
+import { getAnalysisProvider } from "./analysisProvider";
+import { recentModelFailure } from "./metrics";
+import { DATA_DIR, readDatabase } from "./store";
+import { config } from "./config";
+
+// Readiness fails when DATA_DIR's filesystem has less free space than MIN_FREE_DISK_MB
+const MIN_FREE_DISK_BYTES = config.minFreeDiskMb * 1024 * 1024;
+// A check that has not answered by then counts as failed, so a hung disk cannot hang the probe
+const CHECK_TIMEOUT_MS = 5_000;
+
+export type CheckStatus = "ok" | "degraded" | "failed";
+
+export interface HealthCheck {
+  name: "model" | "storage" | "disk";
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface ReadinessReport {
+  status: "ready" | "degraded" | "unavailable";
+  checks: HealthCheck[];
+}
+
+/**
+ * The provider must be configured, and its last call must not have been refused for configuration reasons.
+ * Rate limiting and outages only degrade readiness, since they usually clear on their own.
+ */
+const checkModel = async (): Promise<HealthCheck> => {
+  const provider = getAnalysisProvider();
+  const problem = provider.configurationProblem();
+  if (problem) {
+    return { name: "model", status: "failed", detail: problem };
+  }
+  const failure = recentModelFailure();
+  if (failure) {
+    const detail = `Last model call failed at ${failure.at} (${failure.code}): ${failure.message}`;
+    return { name: "model", status: failure.code === "MODEL_NOT_CONFIGURED" ? "failed" : "degraded", detail };
+  }
+  return { name: "model", status: "ok", detail: `${provider.name} (${provider.model})` };
+};
+
+// The registry must load and DATA_DIR must accept writes
+const checkStorage = async (): Promise<HealthCheck> => {
+  await readDatabase();
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const probeFile = path.join(DATA_DIR, `.health-${process.pid}`);
+  await fs.writeFile(probeFile, new Date().toISOString());
+  await fs.unlink(probeFile);
+  return { name: "storage", status: "ok", detail: `${DATA_DIR} is readable and writable` };
+};
+
+const checkDisk = async (): Promise<HealthCheck> => {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const { bavail, bsize } = await fs.statfs(DATA_DIR);
+  const freeMb = Math.floor((bavail * bsize) / (1024 * 1024));
+  return bavail * bsize < MIN_FREE_DISK_BYTES
+    ? { name: "disk", status: "failed", detail: `Only ${freeMb} MB free; at least ${MIN_FREE_DISK_BYTES / (1024 * 1024)} MB is required` }
+    : { name: "disk", status: "ok", detail: `${freeMb} MB free` };
+};
+
+const runCheck = async (name: HealthCheck["name"], check: () => Promise<HealthCheck>): Promise<HealthCheck> => {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS} ms`)), CHECK_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([check(), timeout]);
+  } catch (error: any) {
+    return { name, status: "failed", detail: error.message };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Runs every readiness check. The server is unavailable if any check failed and degraded if any is degraded.
+ */
+export const checkReadiness = async (): Promise<ReadinessReport> => {
+  const checks = await Promise.all([
+    runCheck("model", checkModel),
+    runCheck("storage", checkStorage),
+    runCheck("disk", checkDisk),
+  ]);
+  const status = checks.some(check => check.status === "failed")
+    ? "unavailable"
+    : checks.some(check => check.status === "degraded") ? "degraded" : "ready";
+  return { status, checks };
+};
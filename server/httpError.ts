@@ -0,0 +1,56 @@
+import type { ErrorRequestHandler } from "express";
+import type { ApiErrorBody, ErrorCode } from "../types";
+import { currentRequestId, logger } from "./logger";
+
+// Code used when a route throws without naming one
+const codeForStatus = (status: number): ErrorCode => {
+  switch (status) {
+    case 401: return "UNAUTHENTICATED";
+    case 403: return "FORBIDDEN";
+    case 404: return "NOT_FOUND";
+    case 409: return "CONFLICT";
+    case 413: return "PAYLOAD_TOO_LARGE";
+    case 415: return "UNSUPPORTED_MEDIA_TYPE";
+    default: return status < 500 ? "VALIDATION_FAILED" : "INTERNAL_ERROR";
+  }
+};
+
+/**
+ * An error carrying the HTTP status and machine-readable code that should be returned to the client.
+ * The code defaults from the status, so only errors that need a more specific one name it.
+ */
+export class HttpError extends Error {
+  public readonly code: ErrorCode;
+
+  constructor(public readonly status: number, message: string, code?: ErrorCode) {
+    super(message);
+    this.name = "HttpError";
+    this.code = code ?? codeForStatus(status);
+  }
+}
+
+/**
+ * The code to report for any thrown error: an HttpError's own code, otherwise INTERNAL_ERROR
+ */
+export const errorCodeOf = (error: unknown): ErrorCode => error instanceof HttpError ? error.code : "INTERNAL_ERROR";
+
+/**
+ * Final Express error handler: HttpErrors keep their status and code, anything else becomes a logged 500
+ */
+export const errorHandler: ErrorRequestHandler = (error, req, res, next) => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+  if (error instanceof HttpError) {
+    res.status(error.status).json({ error: error.message, code: error.code, requestId: currentRequestId() } satisfies ApiErrorBody);
+    return;
+  }
+  // Malformed JSON bodies and oversized payloads are surfaced by body-parser with a status attached
+  if (typeof error?.status === "number" && error.status >= 400 && error.status < 500) {
+    res.status(error.status).json({ error: error.message, code: codeForStatus(error.status), requestId: currentRequestId() } satisfies ApiErrorBody);
+    return;
+  }
+  logger.error("Unhandled error", { method: req.method, path: req.path, error });
+  res.status(500).json({ error: "Internal server error.", code: "INTERNAL_ERROR", requestId: currentRequestId() } satisfies ApiErrorBody);
+};
@@ -0,0 +1,42 @@
+import sharp from "sharp";
+import type { ImageInput } from "./analysisProvider";
+import { HttpError } from "./httpError";
+import { config } from "./config";
+
+const IMAGE_MAX_DIMENSION = config.uploads.imageMaxDimension;
+const IMAGE_JPEG_QUALITY = config.uploads.jpegQuality;
+
+export interface NormalizedImage extends ImageInput {
+  width: number;
+  height: number;
+}
+
+/**
+ * Bakes EXIF orientation into the pixels, drops every metadata block (EXIF/GPS, ICC, IPTC, XMP),
+ * fits the image within IMAGE_MAX_DIMENSION and re-encodes it as JPEG. Annotation percentages are
+ * measured against the upright picture, so they stay consistent whichever device captured it.
+ * Images that are already normalized are returned untouched to avoid compounding JPEG loss
+ * when a previously analyzed image is uploaded again.
+ */
+export const normalizeImage = async (image: ImageInput): Promise<NormalizedImage> => {
+  const metadata = await sharp(image.data).metadata().catch(() => {
+    throw new HttpError(415, "The uploaded file could not be decoded as an image.", "IMAGE_UNREADABLE");
+  });
+  const alreadyNormalized =
+    metadata.format === "jpeg" &&
+    (metadata.orientation ?? 1) === 1 &&
+    !metadata.exif && !metadata.icc && !metadata.iptc && !metadata.xmp &&
+    metadata.width <= IMAGE_MAX_DIMENSION && metadata.height <= IMAGE_MAX_DIMENSION;
+  if (alreadyNormalized) {
+    return { data: image.data, mimeType: "image/jpeg", width: metadata.width, height: metadata.height };
+  }
+
+  // sharp writes no metadata unless asked to, so the re-encoded output carries no location or device data
+  const { data, info } = await sharp(image.data)
+    .rotate()
+    .resize({ width: IMAGE_MAX_DIMENSION, height: IMAGE_MAX_DIMENSION, fit: "inside", withoutEnlargement: true })
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: IMAGE_JPEG_QUALITY, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true });
+  return { data, mimeType: "image/jpeg", width: info.width, height: info.height };
+};
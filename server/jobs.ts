@@ -0,0 +1,310 @@
+import type { AnalysisJob, AnalysisResult, AnalysisStage, ComparisonResult, Locale, SeriesComparisonResult } from "../types";
+import { errorCodeOf, HttpError } from "./httpError";
+import { newId, readDatabase, updateDatabase, type Database, type StoredLesionImage, type StoredPatient } from "./store";
+import { runAnalysis, runComparison, runSeriesComparison, type RunOptions } from "./analysisService";
+import { normalizeImage } from "./imageNormalization";
+import { fromDataUrl } from "./uploads";
+import type { ComparedCapture } from "./analysisProvider";
+import { appendAudit, describeAnalysis, describeComparison, describeSeries } from "./audit";
+import { currentRequestId, logger, withLogContext } from "./logger";
+import { config } from "./config";
+
+const JOB_CONCURRENCY = config.analysis.jobConcurrency;
+// Finished jobs stay pollable for a day so clients that reconnect late still see the outcome
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const pending: Array<() => Promise<void>> = [];
+let running = 0;
+
+const isActive = (job: AnalysisJob) => job.status === "queued" || job.status === "running";
+
+type JobProgress = Pick<AnalysisJob, "stage" | "partialText">;
+type ProgressReporter = Required<Pick<RunOptions, "onStage" | "onPartialText">>;
+
+// Stage and partial text of active jobs; progress changes too often to write to the store
+const progress = new Map<string, JobProgress>();
+
+const reportProgress = (jobId: string, update: JobProgress) => progress.set(jobId, { ...progress.get(jobId), ...update });
+
+const withProgress = (job: AnalysisJob): AnalysisJob => {
+  const live = isActive(job) && progress.get(job.id);
+  return live ? { ...job, ...live } : job;
+};
+
+// Starts queued work while fewer than JOB_CONCURRENCY jobs are in flight. Tasks record their own failures;
+// the catch only guards the process against an error escaping that bookkeeping.
+const drain = () => {
+  while (running < JOB_CONCURRENCY && pending.length > 0) {
+    const task = pending.shift()!;
+    running++;
+    task()
+      .catch(error => logger.error("Analysis job crashed outside its error handling", { error }))
+      .finally(() => {
+        running--;
+        drain();
+      });
+  }
+};
+
+const findPatient = (db: Database, patientId: string): StoredPatient => {
+  const patient = db.patients.find(p => p.id === patientId);
+  if (!patient) {
+    throw new HttpError(404, `Patient "${patientId}" was not found.`);
+  }
+  return patient;
+};
+
+const findImage = (patient: StoredPatient, imageId: string): StoredLesionImage => {
+  const image = patient.lesionImages.find(img => img.id === imageId);
+  if (!image) {
+    throw new HttpError(404, `Lesion image "${imageId}" was not found.`);
+  }
+  return image;
+};
+
+// The most recent capture taken before the given image, used as the ABCDE Evolution baseline
+const findPriorCapture = (patient: StoredPatient, image: StoredLesionImage): StoredLesionImage | undefined =>
+  patient.lesionImages
+    .filter(other => other.id !== image.id && other.timestamp < image.timestamp)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0];
+
+const toComparedCapture = ({ boundingBox, pins, practitionerNotes, timestamp }: StoredLesionImage): ComparedCapture =>
+  ({ boundingBox, pins, practitionerNotes, capturedAt: timestamp });
+
+const pruneJobs = (db: Database) => {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  db.jobs = db.jobs.filter(job => isActive(job) || new Date(job.finishedAt ?? job.createdAt).getTime() > cutoff);
+};
+
+const createJob = (db: Database, fields: Pick<AnalysisJob, "kind" | "patientId" | "imageIds" | "createdBy">): AnalysisJob => {
+  pruneJobs(db);
+  const job: AnalysisJob = { ...fields, id: newId("job_"), status: "queued", createdAt: new Date().toISOString(), requestId: currentRequestId() };
+  db.jobs.push(job);
+  return job;
+};
+
+const patchJob = (db: Database, jobId: string, fields: Partial<AnalysisJob>): AnalysisJob | undefined => {
+  const job = db.jobs.find(j => j.id === jobId);
+  if (job) {
+    Object.assign(job, fields);
+  }
+  return job;
+};
+
+// Records what the model returned (or why the job failed) on behalf of the practitioner who submitted it
+const auditOutcome = async (job: AnalysisJob, detail: string) => {
+  const actor = (await readDatabase()).users.find(user => user.id === job.createdBy);
+  await appendAudit({
+    actorId: job.createdBy,
+    actorEmail: actor?.email,
+    role: actor?.role ?? "practitioner",
+    action: job.kind === "analysis" ? "analyze" : "compare",
+    patientId: job.patientId,
+    detail: `${job.kind === "series" ? "Series comparison" : job.kind === "analysis" ? "Analysis" : "Comparison"} job ${job.id} ${detail}`,
+  }).catch(error => logger.error("Failed to audit a job outcome", { error }));
+};
+
+/**
+ * Queues a job and runs it when a slot frees up. The executor reads its inputs from the store when it starts,
+ * so queued jobs hold no image bytes in memory; settle() persists the outcome in the same write as the status.
+ * The executor reports stages and partial text, which pollers see until the job finishes.
+ * The job logs under the submitting request's id plus its own, whichever request's work frees the slot.
+ */
+const enqueue = <T>(
+  jobId: string,
+  execute: (reporter: ProgressReporter) => Promise<{ result: T; cache: string }>,
+  settle: (db: Database, outcome: { result?: T; error?: AnalysisJob["error"] }) => void,
+  describe: (result: T) => string
+) => {
+  const logContext = { requestId: currentRequestId(), jobId };
+  const reporter: ProgressReporter = {
+    onStage: (stage: AnalysisStage) => reportProgress(jobId, { stage }),
+    onPartialText: partialText => reportProgress(jobId, { partialText }),
+  };
+  reporter.onStage("received");
+  pending.push(() => withLogContext(logContext, async () => {
+    try {
+      // Inside the try, so a failed write here (e.g. a full disk) still marks the job failed
+      await updateDatabase(db => patchJob(db, jobId, { status: "running", startedAt: new Date().toISOString() }));
+      const { result, cache } = await execute(reporter);
+      const job = await updateDatabase(db => {
+        settle(db, { result });
+        return patchJob(db, jobId, { status: "succeeded", finishedAt: new Date().toISOString(), result: result as AnalysisJob["result"], cache });
+      });
+      if (job) {
+        await auditOutcome(job, `returned ${describe(result)}`);
+      }
+    } catch (error: any) {
+      if (!(error instanceof HttpError)) {
+        logger.error("Analysis job failed", { error });
+      }
+      const failure = { message: error.message || "Analysis job failed.", code: errorCodeOf(error) };
+      const job = await updateDatabase(db => {
+        settle(db, { error: failure });
+        return patchJob(db, jobId, { status: "failed", finishedAt: new Date().toISOString(), error: failure });
+      }).catch(persistError => logger.error("Failed to record a job failure", { error: persistError }));
+      if (job) {
+        await auditOutcome(job, `failed: ${failure.message}`);
+      }
+    } finally {
+      progress.delete(jobId);
+    }
+  }));
+  drain();
+};
+
+/**
+ * Queues analysis of a stored lesion image; the result is written onto the image when the job succeeds.
+ * Resubmitting while the image already has an active job returns that job instead of paying for a second call.
+ */
+export const submitAnalysisJob = async (
+  { patientId, imageId, userId, locale }: { patientId: string; imageId: string; userId: string; locale?: Locale },
+  options: RunOptions = {}
+): Promise<{ job: AnalysisJob; patient: StoredPatient }> => {
+  let created = false;
+  const submitted = await updateDatabase(db => {
+    const patient = findPatient(db, patientId);
+    const image = findImage(patient, imageId);
+    const existing = db.jobs.find(job => job.id === image.analysisJobId);
+    if (existing && isActive(existing)) {
+      return { job: existing, patient };
+    }
+    const job = createJob(db, { kind: "analysis", patientId, imageIds: [imageId], createdBy: userId });
+    image.analysisJobId = job.id;
+    created = true;
+    return { job, patient };
+  });
+
+  if (created) {
+    const jobId = submitted.job.id;
+    enqueue<AnalysisResult>(
+      jobId,
+      async reporter => {
+        reporter.onStage("preprocessing");
+        const patient = findPatient(await readDatabase(), patientId);
+        const image = findImage(patient, imageId);
+        const prior = findPriorCapture(patient, image);
+        return runAnalysis(
+          {
+            image: await normalizeImage(fromDataUrl(image.imageDataUrl)),
+            history: prior && { image: await normalizeImage(fromDataUrl(prior.imageDataUrl)), capturedAt: prior.timestamp, imageId: prior.id },
+            boundingBox: image.boundingBox,
+            pins: image.pins,
+            practitionerNotes: image.practitionerNotes,
+            locale,
+          },
+          { ...options, ...reporter }
+        );
+      },
+      (db, { result }) => {
+        // The image (or patient) may have been deleted while the job ran
+        const image = db.patients.find(p => p.id === patientId)?.lesionImages.find(img => img.id === imageId);
+        if (image && image.analysisJobId === jobId) {
+          delete image.analysisJobId;
+          if (result) {
+            image.analysisResult = result;
+            delete image.reviewedAt;
+            delete image.analysisTranslations;
+          }
+        }
+      },
+      describeAnalysis
+    );
+  }
+  return { ...submitted, job: withProgress(submitted.job) };
+};
+
+/**
+ * Queues a before/after comparison of two stored lesion images; the result is kept on the job record
+ */
+export const submitComparisonJob = async (
+  { patientId, imageIds, userId, locale }: { patientId: string; imageIds: [string, string]; userId: string; locale?: Locale },
+  options: RunOptions = {}
+): Promise<AnalysisJob> => {
+  const job = await updateDatabase(db => {
+    const patient = findPatient(db, patientId);
+    imageIds.forEach(id => findImage(patient, id));
+    return createJob(db, { kind: "comparison", patientId, imageIds, createdBy: userId });
+  });
+
+  enqueue<ComparisonResult>(
+    job.id,
+    async reporter => {
+      reporter.onStage("preprocessing");
+      const patient = findPatient(await readDatabase(), patientId);
+      const [stored1, stored2] = imageIds.map(id => findImage(patient, id));
+      const [image1, image2] = await Promise.all([stored1, stored2].map(image => normalizeImage(fromDataUrl(image.imageDataUrl))));
+      return runComparison({ image1, image2, capture1: toComparedCapture(stored1), capture2: toComparedCapture(stored2), locale }, { ...options, ...reporter });
+    },
+    () => undefined,
+    describeComparison
+  );
+  return job;
+};
+
+/**
+ * Queues a progression analysis across several stored lesion images. The captures are analyzed oldest first
+ * whatever order they were submitted in, and the job records them in that order; the result stays on the job.
+ */
+export const submitSeriesJob = async (
+  { patientId, imageIds, userId, locale }: { patientId: string; imageIds: string[]; userId: string; locale?: Locale },
+  options: RunOptions = {}
+): Promise<AnalysisJob> => {
+  const job = await updateDatabase(db => {
+    const patient = findPatient(db, patientId);
+    const ordered = imageIds.map(id => findImage(patient, id)).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    return createJob(db, { kind: "series", patientId, imageIds: ordered.map(image => image.id), createdBy: userId });
+  });
+
+  enqueue<SeriesComparisonResult>(
+    job.id,
+    async reporter => {
+      reporter.onStage("preprocessing");
+      const patient = findPatient(await readDatabase(), patientId);
+      const captures = await Promise.all(job.imageIds.map(async id => {
+        const image = findImage(patient, id);
+        return { image: await normalizeImage(fromDataUrl(image.imageDataUrl)), capturedAt: image.timestamp, imageId: id };
+      }));
+      return runSeriesComparison({ captures, locale }, { ...options, ...reporter });
+    },
+    () => undefined,
+    describeSeries
+  );
+  return job;
+};
+
+export const getJob = async (jobId: string): Promise<AnalysisJob> => {
+  const job = (await readDatabase()).jobs.find(j => j.id === jobId);
+  if (!job) {
+    throw new HttpError(404, `Job "${jobId}" was not found.`);
+  }
+  return withProgress(job);
+};
+
+export const listJobs = async (filter: { patientId?: string; activeOnly?: boolean }): Promise<AnalysisJob[]> =>
+  (await readDatabase()).jobs
+    .filter(job => (!filter.patientId || job.patientId === filter.patientId) && (!filter.activeOnly || isActive(job)))
+    .map(withProgress);
+
+/**
+ * Jobs live in process memory, so any left queued or running by a previous process can never finish.
+ * Marks them failed and releases their images so clients stop polling and can resubmit.
+ */
+export const recoverInterruptedJobs = () =>
+  updateDatabase(db => {
+    const interrupted = db.jobs.filter(isActive);
+    for (const job of interrupted) {
+      Object.assign(job, {
+        status: "failed",
+        finishedAt: new Date().toISOString(),
+        error: { message: "The server restarted before this job finished. Please resubmit it.", code: "JOB_INTERRUPTED" },
+      });
+      for (const image of db.patients.flatMap(p => p.lesionImages)) {
+        if (image.analysisJobId === job.id) {
+          delete image.analysisJobId;
+        }
+      }
+    }
+    pruneJobs(db);
+    return interrupted.length;
+  });
@@ -0,0 +1,56 @@
+import type { Locale } from "../types";
+import { HttpError } from "./httpError";
+
+export const SUPPORTED_LOCALES: readonly Locale[] = ["en", "es", "fr"];
+export const DEFAULT_LOCALE: Locale = "en";
+
+// English names, used when instructing the model which language to write in
+export const LANGUAGE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+};
+
+// The disclaimer every result must end with, reviewed per language rather than left to the model's translation
+export const MANDATORY_DISCLAIMERS: Record<Locale, string> = {
+  en: "This is not a medical diagnosis. Always consult a qualified dermatologist for an accurate diagnosis and treatment plan.",
+  es: "Esto no es un diagnóstico médico. Consulte siempre a un dermatólogo cualificado para obtener un diagnóstico preciso y un plan de tratamiento.",
+  fr: "Ceci n'est pas un diagnostic médical. Consultez toujours un dermatologue qualifié pour obtenir un diagnostic précis et un plan de traitement.",
+};
+
+export const isLocale = (value: unknown): value is Locale => SUPPORTED_LOCALES.includes(value as Locale);
+
+/**
+ * Reads the optional "locale" field of a form or JSON body, falling back to the given locale when it is absent
+ */
+export const readLocale = (body: Record<string, unknown> | undefined, fallback: Locale = DEFAULT_LOCALE): Locale => {
+  const raw = body?.locale;
+  if (raw === undefined || raw === "") {
+    return fallback;
+  }
+  const locale = String(raw).trim().toLowerCase();
+  if (!isLocale(locale)) {
+    throw new HttpError(400, `Field "locale" must be one of ${SUPPORTED_LOCALES.join(", ")} (got "${raw}").`);
+  }
+  return locale;
+};
+
+/**
+ * Rebuilds a result with each prose string passed through `replace`, in a stable depth-first order.
+ * Values under the skipped field names are copied unchanged.
+ */
+export const mapProse = <T>(value: T, skip: ReadonlySet<string>, replace: (text: string) => string, field = ""): T => {
+  if (skip.has(field)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    return replace(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapProse(item, skip, replace)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapProse(item, skip, replace, key)])) as T;
+  }
+  return value;
+};
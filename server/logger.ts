@@ -0,0 +1,132 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type { RequestHandler } from "express";
+import { config, type LogLevel } from "./config";
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const MIN_LEVEL = LEVELS[config.logLevel];
+
+// Identifies the request (and, for queued work, the job) a log line belongs to
+export interface LogContext {
+  requestId?: string;
+  jobId?: string;
+}
+
+const context = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Runs work with its own log context; everything it awaits logs with the same request and job ids
+ */
+export const withLogContext = <T>(fields: LogContext, run: () => T): T => context.run(fields, run);
+
+export const currentLogContext = (): LogContext => context.getStore() ?? {};
+
+/**
+ * The correlation id of the request being handled, also sent in the X-Request-Id header and in error bodies
+ */
+export const currentRequestId = (): string | undefined => context.getStore()?.requestId;
+
+// Fields that hold patient health data, identity or credentials; their values are never written
+const REDACTED_KEYS = new Set([
+  "practitionernotes", "patientnotes", "notes", "name", "patientname", "firstname", "lastname", "email", "actoremail",
+  "dob", "filename", "originalname", "excerpt", "imagedataurl", "password", "passwordhash", "token", "cookie", "authorization",
+]);
+const MAX_DEPTH = 6;
+
+const redactString = (value: string) => value
+  .replace(/data:[\w/+.-]+;base64,[A-Za-z0-9+/=]+/g, "[image data]")
+  .replace(/[A-Za-z0-9+/]{120,}={0,2}/g, "[base64 data]")
+  .replace(/[^\s@"'<>]+@[^\s@"'<>]+\.[A-Za-z]{2,}/g, "[email]");
+
+/**
+ * Copies a value for logging with health data, identities and image bytes scrubbed out
+ */
+const redact = (value: unknown, depth = 0, seen = new WeakSet<object>()): unknown => {
+  if (typeof value === "string") {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+    return `[binary ${value.byteLength} bytes]`;
+  }
+  if (seen.has(value) || depth >= MAX_DEPTH) {
+    return "[omitted]";
+  }
+  seen.add(value);
+  if (value instanceof Error) {
+    const { status, code, issues } = value as Error & { status?: number; code?: string; issues?: unknown };
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(status !== undefined && { status }),
+      ...(code !== undefined && { code }),
+      ...(issues !== undefined && { issues: redact(issues, depth + 1, seen) }),
+      stack: value.stack && redactString(value.stack),
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1, seen));
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, field]) =>
+    [key, REDACTED_KEYS.has(key.toLowerCase()) ? "[redacted]" : redact(field, depth + 1, seen)]
+  ));
+};
+
+const write = (level: LogLevel, message: string, fields: Record<string, unknown> = {}) => {
+  if (LEVELS[level] < MIN_LEVEL) {
+    return;
+  }
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg: redactString(message),
+    ...currentLogContext(),
+    ...(redact(fields) as Record<string, unknown>),
+  });
+  (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+/**
+ * Structured JSON logger. Every line carries the current request and job ids and passes through redaction,
+ * so pass errors and records as fields rather than interpolating them into the message.
+ */
+export const logger = {
+  debug: (message: string, fields?: Record<string, unknown>) => write("debug", message, fields),
+  info: (message: string, fields?: Record<string, unknown>) => write("info", message, fields),
+  warn: (message: string, fields?: Record<string, unknown>) => write("warn", message, fields),
+  error: (message: string, fields?: Record<string, unknown>) => write("error", message, fields),
+};
+
+// Callers may supply their own id (e.g. from a proxy) as long as it is short and cannot inject anything into logs
+const INCOMING_ID = /^[\w.:-]{8,64}$/;
+
+// Probes and scrapes are frequent and uninteresting, so they only appear at debug level
+const QUIET_PATHS = new Set(["/api/health", "/api/health/live", "/api/health/ready", "/api/metrics"]);
+
+/**
+ * Assigns each API request a correlation id, returns it in X-Request-Id, runs the rest of the request in its
+ * log context and logs one line when the response finishes. Query strings are left out of the logged path.
+ */
+export const logRequests: RequestHandler = (req, res, next) => {
+  const incoming = req.get("X-Request-Id");
+  const requestId = incoming && INCOMING_ID.test(incoming) ? incoming : randomUUID();
+  res.setHeader("X-Request-Id", requestId);
+  const start = process.hrtime.bigint();
+  res.on("finish", () => {
+    const path = req.originalUrl.split("?")[0];
+    const fields = {
+      requestId,
+      method: req.method,
+      path,
+      status: res.statusCode,
+      durationMs: Math.round(Number(process.hrtime.bigint() - start) / 1e6),
+      userId: req.user?.id,
+    };
+    const level = res.statusCode >= 500 ? "error" : QUIET_PATHS.has(path) ? "debug" : "info";
+    write(level, "Request completed", fields);
+  });
+  withLogContext({ requestId }, next);
+};
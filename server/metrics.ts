@@ -0,0 +1,158 @@
+import type { Request, RequestHandler } from "express";
+import type { ErrorCode } from "../types";
+import type { CacheStatus } from "./analysisCache";
+import { errorCodeOf } from "./httpError";
+
+type Labels = Record<string, string>;
+
+// Latency bucket bounds in seconds: API calls take milliseconds, model calls several seconds
+const BUCKETS = [0.005, 0.025, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const escapeLabel = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: Labels) => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+};
+
+const createCounter = (name: string, help: string) => {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  return {
+    inc(labels: Labels) {
+      const key = JSON.stringify(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += 1;
+      series.set(key, entry);
+    },
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} counter`,
+      ...[...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+    ],
+  };
+};
+
+const createHistogram = (name: string, help: string) => {
+  // Bucket counts are cumulative, as the exposition format expects
+  const series = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+  return {
+    observe(labels: Labels, seconds: number) {
+      const key = JSON.stringify(labels);
+      const entry = series.get(key) ?? { labels, buckets: BUCKETS.map(() => 0), sum: 0, count: 0 };
+      BUCKETS.forEach((bound, i) => {
+        if (seconds <= bound) {
+          entry.buckets[i] += 1;
+        }
+      });
+      entry.sum += seconds;
+      entry.count += 1;
+      series.set(key, entry);
+    },
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} histogram`,
+      ...[...series.values()].flatMap(({ labels, buckets, sum, count }) => [
+        ...BUCKETS.map((bound, i) => `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+    ],
+  };
+};
+
+const httpRequests = createCounter("dermdetect_http_requests_total", "API requests by method, route and response status.");
+const httpDuration = createHistogram("dermdetect_http_request_duration_seconds", "API request latency by method and route.");
+const aiOperations = createCounter("dermdetect_ai_operations_total", "AI analyses, comparisons, series runs and translations by outcome: ok or the error code.");
+const aiDuration = createHistogram("dermdetect_ai_operation_duration_seconds", "AI operation latency, including cache lookups and retries.");
+const aiCache = createCounter("dermdetect_ai_cache_results_total", "Successful AI operations by analysis cache status.");
+
+const startedAt = Date.now();
+
+export interface ModelFailure {
+  code: ErrorCode;
+  message: string;
+  at: string;
+}
+
+// Failures that mean the model itself cannot be used, as opposed to a bad input or output
+const MODEL_FAILURE_CODES: ErrorCode[] = ["MODEL_NOT_CONFIGURED", "MODEL_RATE_LIMITED", "MODEL_UNAVAILABLE"];
+
+let lastModelFailure: ModelFailure | null = null;
+
+/**
+ * The most recent model failure, cleared by the next successful model call, so readiness can report a degraded model
+ */
+export const recentModelFailure = (): ModelFailure | null => lastModelFailure;
+
+/**
+ * The full pattern of the route that handled a request, e.g. /api/patients/:patientId. req.baseUrl is unreliable
+ * once an error handler has run, so the mount path is taken from the URL: the segments the route pattern did not cover.
+ * Requests rejected before reaching a route (unknown paths, failed access checks) and wildcard routes such as the
+ * SPA fallback are labelled "other", so arbitrary URLs cannot create new series.
+ */
+const routePattern = (req: Request): string => {
+  if (typeof req.route?.path !== "string" || req.route.path.includes("*")) {
+    return "other";
+  }
+  const pattern: string = req.route.path;
+  const patternSegments = pattern.split("/").filter(Boolean);
+  const urlSegments = req.originalUrl.split("?")[0].split("/").filter(Boolean);
+  const mount = urlSegments.slice(0, Math.max(0, urlSegments.length - patternSegments.length));
+  return `/${[...mount, ...patternSegments].join("/")}`;
+};
+
+/**
+ * Counts every API request and its latency, labelled with the route pattern rather than the raw URL
+ * so patient and image ids do not become label values
+ */
+export const trackRequests: RequestHandler = (req, res, next) => {
+  const start = process.hrtime.bigint();
+  res.on("finish", () => {
+    const route = routePattern(req);
+    const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+    httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+    httpDuration.observe({ method: req.method, route }, seconds);
+  });
+  next();
+};
+
+/**
+ * Records the outcome and latency of one AI operation, whichever route or job started it
+ */
+export const observeAiOperation = async <T extends { cache: CacheStatus }>(operation: string, run: () => Promise<T>): Promise<T> => {
+  const start = process.hrtime.bigint();
+  const elapsed = () => Number(process.hrtime.bigint() - start) / 1e9;
+  try {
+    const result = await run();
+    aiOperations.inc({ operation, outcome: "ok" });
+    aiCache.inc({ operation, cache: result.cache });
+    aiDuration.observe({ operation }, elapsed());
+    if (result.cache !== "hit") {
+      lastModelFailure = null;
+    }
+    return result;
+  } catch (error: any) {
+    const code = errorCodeOf(error);
+    aiOperations.inc({ operation, outcome: code });
+    aiDuration.observe({ operation }, elapsed());
+    if (MODEL_FAILURE_CODES.includes(code)) {
+      lastModelFailure = { code, message: error.message, at: new Date().toISOString() };
+    }
+    throw error;
+  }
+};
+
+/**
+ * All metrics in the Prometheus text exposition format
+ */
+export const renderMetrics = (): string => [
+  "# HELP dermdetect_uptime_seconds Seconds since the server started.",
+  "# TYPE dermdetect_uptime_seconds gauge",
+  `dermdetect_uptime_seconds ${(Date.now() - startedAt) / 1000}`,
+  ...httpRequests.render(),
+  ...httpDuration.render(),
+  ...aiOperations.render(),
+  ...aiDuration.render(),
+  ...aiCache.render(),
+].join("\n") + "\n";
@@ -0,0 +1,170 @@
+import type { Locale } from "../types";
+import type { Annotations, ComparedCapture } from "./analysisProvider";
+import { LANGUAGE_NAMES, MANDATORY_DISCLAIMERS } from "./locales";
+import { config } from "./config";
+
+// Bump whenever the instructions or prompt builders below change so cached results are regenerated
+export const PROMPT_VERSION = "9";
+
+const AUDIENCE_INSTRUCTION = `Write two further sections for the two audiences of the result, as a clinic writes one note for the chart and another for the patient.
+"clinicianSummary" is for the treating clinician: describe the lesion morphology in standard dermatological terms (primary lesion type, size, shape,
+border, color, surface and distribution) and explain the reasoning behind the ranking of the differential diagnosis.
+"patientSummary" is for the patient: explain in plain language what the photo shows, what the likely condition usually means and why a clinician
+should confirm it. Write at or below a US grade ${config.analysis.patientReadingGrade} reading level: short sentences, everyday words, no medical
+jargon or Latin terms, and no percentages. Be calm and honest; do not alarm and do not falsely reassure. The medication rules above apply to both sections.`;
+
+const URGENCY_INSTRUCTION = `Triage how soon a clinician should see the patient with an urgency tier and a one-sentence reason:
+"urgent" for features suspicious of malignancy, rapid change, bleeding or ulceration; "soon" for changes or findings that warrant review within weeks;
+"routine" for stable or clearly benign findings.`;
+
+export const SYSTEM_INSTRUCTION = `You are a specialized AI assistant for dermatology. Your task is to analyze images of skin conditions.
+Provide a potential identification, a confidence level, a brief description, and helpful, safe next steps.
+Your response must be in JSON format according to the provided schema.
+
+Under no circumstances should you ever suggest or prescribe any specific medications, treatments, or drugs.
+Instead, your recommendations MUST focus on three areas:
+1. Detailed, non-medical care and lifestyle tips (e.g., 'Keep the area clean and dry', 'Avoid scratching', 'Consider using a gentle, hypoallergenic moisturizer', 'Maintain a balanced diet rich in antioxidants to support skin health').
+2. When to see a doctor (e.g., 'Consult a professional if the condition worsens, becomes painful, or shows signs of infection').
+3. A list of relevant questions the user could ask their doctor to facilitate a productive consultation (e.g., 'What are the potential treatment options?', 'Are there any lifestyle changes I should make?').
+
+CRITICAL: You MUST always include the following disclaimer as the last item in the recommendations array: "This is not a medical diagnosis. Always consult a qualified dermatologist for an accurate diagnosis and treatment plan."
+The confidence level should be a string like "High", "Medium", or "Low".
+
+Also provide a ranked differential diagnosis: 2 to 5 candidate conditions ordered from most to least likely, the first matching the condition name.
+For each candidate give a numeric likelihood between 0 and 1 (the likelihoods must not sum to more than 1), the key visual features in the image that support it,
+and the features that distinguish it from the top candidate (leave this list empty for the top candidate).
+
+Finally, score the ABCDE melanoma criteria (Asymmetry, Border, Color, Diameter, Evolution) for the target lesion. Score each criterion
+0 (reassuring), 1 (equivocal) or 2 (concerning) with a one-sentence rationale, and state whether the lesion is pigmented.
+Score Evolution only when an earlier capture is provided, by comparing the two; otherwise set its score to null.
+
+${URGENCY_INSTRUCTION}
+
+${AUDIENCE_INSTRUCTION}`;
+
+export const COMPARISON_SYSTEM_INSTRUCTION = `You are a specialized AI assistant for dermatology. Your task is to compare two images of the same skin lesion taken at different times.
+Analyze the differences in size, color, shape, and texture.
+Provide a summary of changes, key observations, an updated condition assessment, and a safe recommendation.
+When the clinician has marked regions, compare only those regions and report the change in each one.
+After your analysis, explicitly state the most likely name for the condition based on the comparison.
+The recommendation MUST NOT be medical advice or a prescription. It should be a general next step.
+CRITICAL: You MUST strongly advise the user to consult a qualified dermatologist to discuss any observed changes. This comparison is not a substitute for professional medical follow-up. Your response must be in JSON format according to the provided schema.
+
+${URGENCY_INSTRUCTION}`;
+
+export const SERIES_SYSTEM_INSTRUCTION = `You are a specialized AI assistant for dermatology. Your task is to follow one skin lesion across a dated series of images, oldest first.
+For each consecutive pair of captures, summarize the change and list specific visual observations (size, color, shape, texture), in capture order.
+Then classify the overall trajectory as "improving", "stable", "worsening" or "fluctuating", summarize it in two or three sentences, and give a safe, general recommendation.
+The recommendation MUST NOT be medical advice or a prescription.
+CRITICAL: You MUST strongly advise the user to consult a qualified dermatologist to discuss any observed changes. Your response must be in JSON format according to the provided schema.
+
+${URGENCY_INSTRUCTION}`;
+
+export const TRANSLATION_SYSTEM_INSTRUCTION = `You are a medical translator for a dermatology application. You translate AI-generated skin assessments
+for patients and clinicians. Translate faithfully: keep the meaning, hedging and clinical terminology, and do not add, remove or merge content.
+Never add advice, medications or treatments that are not in the source text. Your response must be in JSON format according to the provided schema.`;
+
+/**
+ * Asks for the prose of a result in the requested language. Machine-read values stay in English so results
+ * validate and render the same in every language, and the disclaimer is given verbatim rather than translated.
+ * Empty for English, so English prompts are unchanged.
+ */
+const buildLanguageInstruction = (locale: Locale, operation: "analysis" | "comparison" | "series"): string => {
+  if (locale === "en") {
+    return "";
+  }
+  let text = `\n\nWrite every free-text value of your response (names, descriptions, observations, rationales, reasons and recommendations) in ${LANGUAGE_NAMES[locale]}.`
+    + ' Keep the JSON keys and the enumerated values in English exactly as specified: the confidence level ("High", "Medium" or "Low") and the urgency tier.';
+  if (operation === "analysis") {
+    text += `\nUse this exact ${LANGUAGE_NAMES[locale]} disclaimer, word for word, as the last recommendation instead of the English one: "${MANDATORY_DISCLAIMERS[locale]}"`;
+  } else if (operation === "comparison") {
+    text += '\nKeep the "region" names exactly as given above.';
+  } else {
+    text += '\nKeep the "trajectory" value in English as well.';
+  }
+  return text;
+};
+
+/**
+ * Builds the user prompt for translating the prose of a stored result, listed as a JSON array of strings
+ */
+export const buildTranslationPrompt = (texts: string[], locale: Locale): string =>
+  `Translate each of the following ${texts.length} strings from a skin assessment into ${LANGUAGE_NAMES[locale]}.`
+  + ` Return "translations" with exactly ${texts.length} strings, in the same order. Keep numbers, measurements and pin labels in quotes unchanged.`
+  + `\n\n${JSON.stringify(texts)}`;
+
+/**
+ * Labels each capture of a series with its position and date; the labels precede the matching image parts
+ */
+export const buildSeriesCaptureLabel = (index: number, total: number, capturedAt: string): string =>
+  `Capture ${index + 1} of ${total}, taken on ${capturedAt.slice(0, 10)}:`;
+
+export const buildSeriesPrompt = (total: number, locale: Locale = "en"): string =>
+  `Please follow this lesion across the ${total} captures above and describe the change in each of the ${total - 1} intervals between consecutive captures.`
+  + buildLanguageInstruction(locale, "series");
+
+// Lists a capture's bounding box, pins and notes, one line each, with coordinates as percentages of the image frame
+const describeAnnotations = ({ boundingBox, pins, practitionerNotes }: Annotations): string => {
+  let text = "";
+  if (boundingBox) {
+    text += `\n- Bounding Box ROI (Region of Interest): The target lesion is located within the rectangle from (${boundingBox.x1.toFixed(1)}%, ${boundingBox.y1.toFixed(1)}%) to (${boundingBox.x2.toFixed(1)}%, ${boundingBox.y2.toFixed(1)}%) of the image frame.`;
+  }
+  if (pins && pins.length > 0) {
+    text += "\n- Suspicious Feature Point Markers:";
+    pins.forEach((pin, idx) => {
+      text += `\n  Pin ${idx + 1} located at coordinates (${pin.x.toFixed(1)}%, ${pin.y.toFixed(1)}%) of the image is annotated as: "${pin.label}"`;
+    });
+  }
+  if (practitionerNotes) {
+    text += `\n- Accompanying Practitioner Notes: "${practitionerNotes}"`;
+  }
+  return text;
+};
+
+const isAnnotated = ({ boundingBox, pins, practitionerNotes }: Annotations) => !!(boundingBox || (pins && pins.length > 0) || practitionerNotes);
+
+/**
+ * Whole days between two capture dates, or undefined when either is unknown
+ */
+export const elapsedDaysBetween = (from?: string, to?: string): number | undefined =>
+  from && to ? Math.round((new Date(to).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000)) : undefined;
+
+/**
+ * Builds the user prompt for a before/after comparison, telling the model how much time elapsed
+ * and which annotated regions of each capture to compare
+ */
+export const buildComparisonPrompt = (before: ComparedCapture = {}, after: ComparedCapture = {}, locale: Locale = "en"): string => {
+  let promptText = "Please compare these two images of the same skin lesion and analyze the changes over time.";
+  const elapsedDays = elapsedDaysBetween(before.capturedAt, after.capturedAt);
+  if (elapsedDays !== undefined) {
+    promptText += `\n\nThe first image was captured on ${before.capturedAt!.slice(0, 10)} and the second on ${after.capturedAt!.slice(0, 10)}, ${elapsedDays} day(s) later. Judge the rate of change against this interval.`;
+  }
+  if (isAnnotated(before) || isAnnotated(after)) {
+    for (const [label, capture] of [["first (before)", before], ["second (after)", after]] as const) {
+      if (isAnnotated(capture)) {
+        promptText += `\n\nThe clinician marked the following on the ${label} image:${describeAnnotations(capture)}`;
+      }
+    }
+    promptText += "\n\nCompare only the marked lesion(s) and ignore other moles or marks in the frame. Framing may differ between captures, so match regions by their content rather than by exact coordinates."
+      + ' In "regionComparisons", report how each marked region changed, naming it "Bounding box" or "Pin N (label)".';
+  } else {
+    promptText += '\n\nNo regions were marked, so leave "regionComparisons" empty.';
+  }
+  return promptText + buildLanguageInstruction(locale, "comparison");
+};
+
+/**
+ * Builds the user prompt for a single-image analysis, describing any ROI box, pins and notes,
+ * and the earlier capture (sent as the second image) when one is available for Evolution scoring
+ */
+export const buildAnalysisPrompt = (annotations: Annotations, history?: { capturedAt: string }, locale: Locale = "en"): string => {
+  let promptText = "Please analyze this skin condition macroscopic photo.";
+  if (history) {
+    promptText += `\n\nThe second image is an earlier capture of the same patient's skin taken on ${history.capturedAt.slice(0, 10)}. Use it only to score the Evolution criterion; analyze the first image.`;
+  }
+  if (isAnnotated(annotations)) {
+    promptText += `\n\nThe clinician/patient has marked the following spatial coordinates and provided notes to isolate the target tissue:${describeAnnotations(annotations)}`;
+    promptText += "\n\nPlease focus your vision analysis primarily on the specified visual targets, while keeping the full image context in mind.";
+  }
+  return promptText + buildLanguageInstruction(locale, "analysis");
+};
@@ -0,0 +1,294 @@
+import { ApiError, GoogleGenAI, Type, type GenerateContentParameters } from "@google/genai";
+import type { AnalysisProvider, ImageInput, OutputListener } from "../analysisProvider";
+import { SYSTEM_INSTRUCTION, COMPARISON_SYSTEM_INSTRUCTION, SERIES_SYSTEM_INSTRUCTION, TRANSLATION_SYSTEM_INSTRUCTION, buildAnalysisPrompt, buildComparisonPrompt, buildSeriesCaptureLabel, buildSeriesPrompt, buildTranslationPrompt } from "../prompts";
+import { parseModelJson } from "../validation";
+import { HttpError } from "../httpError";
+import { config } from "../config";
+
+// Model ID (GEMINI_MODEL); it is recorded on every result and keys the analysis cache
+const MODEL = config.analysis.geminiModel;
+
+// Helper to instantiate Gemini Client lazily or check key availability safely
+const getGeminiClient = () => {
+  const apiKey = config.analysis.geminiApiKey;
+  if (!apiKey) {
+    throw new HttpError(503, "GEMINI_API_KEY is not configured in environment secrets.", "MODEL_NOT_CONFIGURED");
+  }
+  return new GoogleGenAI({
+    apiKey,
+    httpOptions: {
+      headers: {
+        'User-Agent': config.analysis.geminiUserAgent,
+      }
+    }
+  });
+};
+
+const abcdeCriterionSchema = (description: string, nullable = false) => ({
+  type: Type.OBJECT,
+  description,
+  properties: {
+    score: { type: Type.INTEGER, nullable, description: "0 = reassuring, 1 = equivocal, 2 = concerning." },
+    rationale: { type: Type.STRING, description: "One-sentence justification of the score." },
+  },
+  required: ["score", "rationale"],
+});
+
+const urgencySchema = {
+  type: Type.OBJECT,
+  description: "How soon a clinician should see the patient.",
+  properties: {
+    tier: { type: Type.STRING, enum: ["routine", "soon", "urgent"], description: "Urgency tier." },
+    reason: { type: Type.STRING, description: "One-sentence reason for the tier." },
+  },
+  required: ["tier", "reason"],
+};
+
+/**
+ * Translates Gemini API and network failures into coded errors the client can act on
+ */
+const toModelError = (error: unknown): unknown => {
+  if (error instanceof ApiError) {
+    if (error.status === 401 || error.status === 403 || /api key/i.test(error.message)) {
+      return new HttpError(503, "The Gemini API key was rejected. Check GEMINI_API_KEY.", "MODEL_NOT_CONFIGURED");
+    }
+    if (error.status === 429) {
+      return new HttpError(429, "The Gemini API rate limit or quota was exceeded. Please retry shortly.", "MODEL_RATE_LIMITED");
+    }
+    if (error.status >= 500) {
+      return new HttpError(503, `The Gemini API is temporarily unavailable (status ${error.status}).`, "MODEL_UNAVAILABLE");
+    }
+    return error;
+  }
+  // fetch rejects with a TypeError when the API host cannot be reached
+  if (error instanceof TypeError) {
+    return new HttpError(503, `The Gemini API could not be reached: ${error.message}`, "MODEL_UNAVAILABLE");
+  }
+  return error;
+};
+
+/**
+ * Runs one generation and returns its text, streaming it chunk by chunk when a listener is given
+ */
+const generateText = async (request: GenerateContentParameters, onOutput?: OutputListener): Promise<string | undefined> => {
+  const ai = getGeminiClient();
+  try {
+    if (!onOutput) {
+      return (await ai.models.generateContent(request)).text;
+    }
+    let text = "";
+    for await (const chunk of await ai.models.generateContentStream(request)) {
+      text += chunk.text ?? "";
+      onOutput(text);
+    }
+    return text;
+  } catch (error) {
+    throw toModelError(error);
+  }
+};
+
+const toImagePart = (image: ImageInput) => ({
+  inlineData: {
+    data: image.data.toString("base64"),
+    mimeType: image.mimeType,
+  }
+});
+
+export const createGeminiProvider = (): AnalysisProvider => ({
+  name: "gemini",
+  model: MODEL,
+
+  configurationProblem() {
+    return config.analysis.geminiApiKey ? null : "GEMINI_API_KEY is not configured in environment secrets.";
+  },
+
+  async analyze({ image, history, locale, ...annotations }, onOutput) {
+    const text = await generateText({
+      model: MODEL,
+      contents: {
+        parts: [
+          toImagePart(image),
+          ...(history ? [toImagePart(history.image)] : []),
+          { text: buildAnalysisPrompt(annotations, history, locale) }
+        ],
+      },
+      config: {
+        systemInstruction: SYSTEM_INSTRUCTION,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            conditionName: { type: Type.STRING, description: "The most likely name of the skin condition." },
+            confidence: { type: Type.STRING, description: "Confidence level (e.g., High, Medium, Low)." },
+            description: { type: Type.STRING, description: "A brief, easy-to-understand description of the condition." },
+            recommendations: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING },
+              description: "A list of safe, general recommendations or next steps as per the system instruction."
+            },
+            differentials: {
+              type: Type.ARRAY,
+              description: "Ranked candidate conditions, most likely first.",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  condition: { type: Type.STRING, description: "Name of the candidate condition." },
+                  likelihood: { type: Type.NUMBER, description: "Likelihood between 0 and 1." },
+                  supportingFeatures: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Visual features supporting this candidate." },
+                  distinguishingFeatures: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Features distinguishing it from the top candidate; empty for the top candidate." },
+                },
+                required: ["condition", "likelihood", "supportingFeatures", "distinguishingFeatures"],
+              },
+            },
+            abcde: {
+              type: Type.OBJECT,
+              description: "ABCDE melanoma criteria for the target lesion.",
+              properties: {
+                pigmentedLesion: { type: Type.BOOLEAN, description: "Whether the lesion is pigmented." },
+                asymmetry: abcdeCriterionSchema("Asymmetry of shape or color across either axis."),
+                border: abcdeCriterionSchema("Irregular, notched, blurred or ragged border."),
+                color: abcdeCriterionSchema("Multiple or uneven colors."),
+                diameter: abcdeCriterionSchema("Size, with concern above roughly 6 mm."),
+                evolution: abcdeCriterionSchema("Change versus the earlier capture; null score when none is provided.", true),
+              },
+              required: ["pigmentedLesion", "asymmetry", "border", "color", "diameter", "evolution"],
+            },
+            urgency: urgencySchema,
+            clinicianSummary: {
+              type: Type.OBJECT,
+              description: "Note for the treating clinician.",
+              properties: {
+                morphology: { type: Type.STRING, description: "Lesion morphology in standard dermatological terms." },
+                differentialReasoning: { type: Type.STRING, description: "Why the differential diagnosis is ranked as it is." },
+              },
+              required: ["morphology", "differentialReasoning"],
+            },
+            patientSummary: {
+              type: Type.OBJECT,
+              description: "Note for the patient, in plain language at the requested reading level.",
+              properties: {
+                explanation: { type: Type.STRING, description: "What the photo shows and what it usually means, without jargon." },
+              },
+              required: ["explanation"],
+            },
+          },
+          required: ["conditionName", "confidence", "description", "recommendations", "differentials", "abcde", "urgency", "clinicianSummary", "patientSummary"],
+        }
+      },
+    }, onOutput);
+
+    return parseModelJson(text);
+  },
+
+  async compare({ image1, image2, capture1, capture2, locale }, onOutput) {
+    const text = await generateText({
+      model: MODEL,
+      contents: {
+        parts: [
+          { text: 'This is the first image (before):' },
+          toImagePart(image1),
+          { text: 'This is the second image (after):' },
+          toImagePart(image2),
+          { text: buildComparisonPrompt(capture1, capture2, locale) }
+        ],
+      },
+      config: {
+        systemInstruction: COMPARISON_SYSTEM_INSTRUCTION,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            changeSummary: { type: Type.STRING, description: "A summary of the overall change (e.g., 'Shows signs of improvement', 'Appears to have worsened')." },
+            keyObservations: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING },
+              description: "A list of specific visual changes observed between the two images."
+            },
+            recommendation: { type: Type.STRING, description: "A safe, general recommendation based on the observed changes, as per system instruction." },
+            updatedConditionAssessment: { type: Type.STRING, description: "A conclusive, updated assessment of the condition based on the changes observed (e.g., 'Condition appears stable', 'Signs of resolution', 'Worsening of condition noted')." },
+            postComparisonCondition: { type: Type.STRING, description: "The most likely name of the skin condition after comparing both images." },
+            regionComparisons: {
+              type: Type.ARRAY,
+              description: "How each clinician-marked region changed; empty when no regions were marked.",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  region: { type: Type.STRING, description: 'The marked region, e.g. "Bounding box" or "Pin 2 (irregular edge)".' },
+                  change: { type: Type.STRING, description: "The change observed in this region." },
+                },
+                required: ["region", "change"],
+              },
+            },
+            urgency: urgencySchema,
+          },
+          required: ["changeSummary", "keyObservations", "recommendation", "updatedConditionAssessment", "postComparisonCondition", "regionComparisons", "urgency"],
+        }
+      },
+    }, onOutput);
+
+    return parseModelJson(text);
+  },
+
+  async compareSeries({ captures, locale }) {
+    const text = await generateText({
+      model: MODEL,
+      contents: {
+        parts: [
+          ...captures.flatMap((capture, index) => [
+            { text: buildSeriesCaptureLabel(index, captures.length, capture.capturedAt) },
+            toImagePart(capture.image),
+          ]),
+          { text: buildSeriesPrompt(captures.length, locale) }
+        ],
+      },
+      config: {
+        systemInstruction: SERIES_SYSTEM_INSTRUCTION,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            intervals: {
+              type: Type.ARRAY,
+              description: "One entry per consecutive pair of captures, in capture order.",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  changeSummary: { type: Type.STRING, description: "A summary of the change over this interval." },
+                  keyObservations: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Specific visual changes observed over this interval." },
+                },
+                required: ["changeSummary", "keyObservations"],
+              },
+            },
+            trajectory: { type: Type.STRING, enum: ["improving", "stable", "worsening", "fluctuating"], description: "Overall direction across the series." },
+            trajectorySummary: { type: Type.STRING, description: "Two or three sentences describing the course across the whole series." },
+            recommendation: { type: Type.STRING, description: "A safe, general recommendation based on the observed course, as per system instruction." },
+            urgency: urgencySchema,
+          },
+          required: ["intervals", "trajectory", "trajectorySummary", "recommendation", "urgency"],
+        }
+      },
+    });
+
+    return parseModelJson(text);
+  },
+
+  async translate({ texts, locale }) {
+    const text = await generateText({
+      model: MODEL,
+      contents: { parts: [{ text: buildTranslationPrompt(texts, locale) }] },
+      config: {
+        systemInstruction: TRANSLATION_SYSTEM_INSTRUCTION,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            translations: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The translated strings, one per source string, in the same order." },
+          },
+          required: ["translations"],
+        }
+      },
+    });
+
+    return parseModelJson(text);
+  },
+});
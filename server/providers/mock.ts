@@ -0,0 +1,239 @@
+import { createHash } from "crypto";
+import type { AnalysisProvider, ImageInput, OutputListener } from "../analysisProvider";
+import type { AbcdeAssessment, Locale } from "../../types";
+import { MANDATORY_DISCLAIMERS, mapProse } from "../locales";
+
+const MOCK_CONDITIONS = [
+  {
+    name: "Seborrheic Keratosis",
+    description: "A waxy, slightly raised, well-demarcated growth with a 'stuck-on' appearance, commonly benign.",
+    features: ["Waxy, stuck-on surface", "Sharply demarcated edge"],
+    morphology: "Solitary well-demarcated tan-brown papule with a verrucous, waxy surface and a stuck-on appearance.",
+    plain: "This looks like a common skin growth that often comes with age. It sits on top of the skin and is usually harmless. A doctor should still take a look to be sure.",
+  },
+  {
+    name: "Benign Melanocytic Nevus",
+    description: "A uniformly pigmented, symmetric mole with a regular border and even coloration.",
+    features: ["Symmetric outline", "Even brown pigmentation"],
+    morphology: "Symmetric, uniformly pigmented brown macule with a regular, sharply defined border.",
+    plain: "This looks like an ordinary mole. It is even in shape and color, which is a good sign. Keep an eye on it and show a doctor if it changes.",
+  },
+  {
+    name: "Atopic Dermatitis",
+    description: "Patchy areas of dry, red and slightly scaly skin consistent with an eczematous pattern.",
+    features: ["Ill-defined dry, red patches", "Fine surface scaling"],
+    morphology: "Ill-defined erythematous patches with fine scale and xerosis in an eczematous distribution.",
+    plain: "This looks like patches of dry, red skin, like eczema. It can itch and come and go. A doctor can tell you how to calm it down.",
+  },
+  {
+    name: "Psoriasis Plaque",
+    description: "A sharply bordered, raised plaque with silvery-white surface scale on an erythematous base.",
+    features: ["Silvery-white scale", "Sharply bordered raised plaque"],
+    morphology: "Well-circumscribed erythematous plaque with thick silvery-white micaceous scale.",
+    plain: "This looks like a raised red patch with white flakes on top. This is often seen in a skin problem called psoriasis. It is not catching. A doctor can check it and talk about care.",
+  },
+  {
+    name: "Cherry Angioma",
+    description: "A small, bright red, dome-shaped papule composed of dilated superficial blood vessels.",
+    features: ["Bright red color", "Small dome-shaped papule"],
+    morphology: "Small, bright red, dome-shaped vascular papule with a smooth surface and sharp margins.",
+    plain: "This looks like a small red bump made of tiny blood vessels. These are very common and almost always harmless. Show a doctor if it bleeds or grows.",
+  },
+  {
+    name: "Actinic Keratosis",
+    description: "A rough, sandpaper-like scaly patch on sun-exposed skin that warrants clinical follow-up.",
+    features: ["Rough, sandpaper-like texture", "Located on sun-exposed skin"],
+    morphology: "Erythematous macule with adherent rough scale on chronically sun-exposed skin.",
+    plain: "This looks like a rough, dry spot caused by years of sun. It is not cancer, but it can change over time. A doctor should check it soon.",
+  },
+];
+
+const CONFIDENCE_LEVELS = ["High", "Medium", "Low"];
+// Top-candidate likelihood for each confidence level
+const TOP_LIKELIHOOD: Record<string, number> = { High: 0.75, Medium: 0.55, Low: 0.35 };
+// Runner-up likelihoods as fractions of the smaller of the top likelihood and the remainder, so every runner-up
+// stays below the top candidate (which the validator's sort keeps first) and the total never exceeds 1
+const RUNNER_UP_SHARES = [0.6, 0.3];
+
+const MOCK_CHANGES = [
+  { summary: "Shows signs of improvement", assessment: "Signs of resolution", observation: "Redness around the lesion margin appears reduced." },
+  { summary: "Appears stable", assessment: "Condition appears stable", observation: "Overall size and outline are comparable between captures." },
+  { summary: "Appears to have worsened", assessment: "Worsening of condition noted", observation: "The pigmented area appears slightly larger with a less regular border." },
+];
+
+const ABCDE_CRITERIA = ["asymmetry", "border", "color", "diameter", "evolution"] as const;
+
+const ABCDE_RATIONALES: Record<"asymmetry" | "border" | "color" | "diameter", string[]> = {
+  asymmetry: ["Both halves mirror each other closely.", "Mild asymmetry along one axis.", "Marked asymmetry in shape and pigment distribution."],
+  border: ["Smooth, well-defined border.", "Slightly irregular border in one segment.", "Notched, poorly defined border."],
+  color: ["Single, even color.", "Two shades of brown.", "Several colors including dark brown and black areas."],
+  diameter: ["Appears smaller than 6 mm.", "Appears close to 6 mm.", "Appears larger than 6 mm."],
+};
+
+const STREAM_CHUNKS = 6;
+const STREAM_CHUNK_DELAY_MS = 150;
+
+/**
+ * Replays a result as JSON text in a few delayed chunks, so streaming clients can be exercised offline
+ */
+const replayAsStream = async <T>(result: T, onOutput?: OutputListener): Promise<T> => {
+  if (onOutput) {
+    const text = JSON.stringify(result);
+    const step = Math.ceil(text.length / STREAM_CHUNKS);
+    for (let end = step; end < text.length + step; end += step) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+      onOutput(text.slice(0, end));
+    }
+  }
+  return result;
+};
+
+// Values the real model is told to keep in English
+const UNTRANSLATED_KEYS = new Set(["confidence", "tier", "region", "trajectory"]);
+
+const tagText = (text: string, locale: Locale) => `[${locale}] ${text.replace(/^\[[a-z]{2}\] /, "")}`;
+
+/**
+ * Stands in for model output in another language by tagging every prose string with the locale, e.g. "[es] ...",
+ * and using the reviewed disclaimer for that language
+ */
+const localize = <T>(value: T, locale: Locale = "en"): T =>
+  locale === "en"
+    ? value
+    : mapProse(value, UNTRANSLATED_KEYS, text => text === MANDATORY_DISCLAIMERS.en ? MANDATORY_DISCLAIMERS[locale] : tagText(text, locale));
+
+// Stable fingerprint so identical uploads always map to identical mock output
+const fingerprint = (...images: ImageInput[]): Buffer => {
+  const hash = createHash("sha256");
+  images.forEach(image => hash.update(image.data));
+  return hash.digest();
+};
+
+/**
+ * Offline provider that derives schema-valid results from the image bytes, for development, demos and tests
+ */
+export const createMockProvider = (): AnalysisProvider => ({
+  name: "mock",
+  model: "mock-8",
+
+  configurationProblem() {
+    return null;
+  },
+
+  async analyze({ image, history, boundingBox, pins, practitionerNotes, locale }, onOutput) {
+    const digest = fingerprint(image);
+    const conditionIndex = digest[0] % MOCK_CONDITIONS.length;
+    const condition = MOCK_CONDITIONS[conditionIndex];
+    const confidence = CONFIDENCE_LEVELS[digest[1] % CONFIDENCE_LEVELS.length];
+    const topLikelihood = TOP_LIKELIHOOD[confidence];
+    const runnerUpBase = Math.min(topLikelihood, 1 - topLikelihood);
+    const runnersUp = [1, 2].map(offset => MOCK_CONDITIONS[(conditionIndex + offset + (digest[2] % 3)) % MOCK_CONDITIONS.length]);
+
+    let description = `${condition.description} (Mock analysis, image fingerprint ${digest.toString("hex").slice(0, 12)}.)`;
+    if (boundingBox) {
+      description += ` Assessment focused on the marked region (${boundingBox.x1.toFixed(1)}%, ${boundingBox.y1.toFixed(1)}%) to (${boundingBox.x2.toFixed(1)}%, ${boundingBox.y2.toFixed(1)}%).`;
+    }
+    if (pins && pins.length > 0) {
+      description += ` ${pins.length} marked feature point(s) were considered: ${pins.map(pin => pin.label).join(", ")}.`;
+    }
+    if (practitionerNotes) {
+      description += " Practitioner notes were taken into account.";
+    }
+
+    const abcde: AbcdeAssessment = {
+      pigmentedLesion: digest[3] % 2 === 0,
+      ...Object.fromEntries(Object.entries(ABCDE_RATIONALES).map(([criterion, rationales], i) => {
+        const score = digest[4 + i] % 3;
+        return [criterion, { score, rationale: rationales[score] }];
+      })) as Pick<AbcdeAssessment, keyof typeof ABCDE_RATIONALES>,
+      evolution: !history
+        ? { score: null, rationale: "No earlier capture was provided." }
+        : image.data.equals(history.image.data)
+          ? { score: 0, rationale: "No visible change from the earlier capture." }
+          : { score: digest[8] % 3, rationale: ["No visible change from the earlier capture.", "Possible subtle change in size since the earlier capture.", "Visible growth and color change since the earlier capture."][digest[8] % 3] },
+    };
+    const abcdeTotal = ABCDE_CRITERIA.reduce((sum, criterion) => sum + (abcde[criterion].score ?? 0), 0);
+
+    return replayAsStream(localize({
+      conditionName: condition.name,
+      confidence,
+      description,
+      recommendations: [
+        "Keep the area clean and dry, and avoid scratching or picking at the lesion.",
+        "Consult a professional if the lesion changes in size, shape or color, bleeds, or becomes painful.",
+        "Ask your doctor: Does this lesion need to be monitored with follow-up photographs?",
+        MANDATORY_DISCLAIMERS.en,
+      ],
+      abcde,
+      urgency: abcde.pigmentedLesion && abcdeTotal >= 6
+        ? { tier: "urgent", reason: `ABCDE total of ${abcdeTotal} on a pigmented lesion warrants prompt dermatology review.` }
+        : condition.name === "Actinic Keratosis" || confidence === "Low"
+          ? { tier: "soon", reason: confidence === "Low" ? "Low-confidence assessment should be confirmed by a clinician." : "Actinic keratosis warrants clinical follow-up." }
+          : { tier: "routine", reason: "Findings appear benign; review at the next scheduled visit." },
+      differentials: [
+        { condition: condition.name, likelihood: topLikelihood, supportingFeatures: condition.features, distinguishingFeatures: [] },
+        ...runnersUp.map((candidate, rank) => ({
+          condition: candidate.name,
+          likelihood: Number((runnerUpBase * RUNNER_UP_SHARES[rank]).toFixed(2)),
+          supportingFeatures: [candidate.features[1]],
+          distinguishingFeatures: [`Would typically show ${candidate.features[0].toLowerCase()}, unlike ${condition.name}.`],
+        })),
+      ],
+      clinicianSummary: {
+        morphology: condition.morphology,
+        differentialReasoning: `${condition.name} is ranked first on ${condition.features.map(feature => feature.toLowerCase()).join(" and ")}; ${runnersUp.map(candidate => candidate.name).join(" and ")} remain possible, but the lesion lacks their typical ${runnersUp.map(candidate => candidate.features[0].toLowerCase()).join(" and ")}.`,
+      },
+      patientSummary: { explanation: condition.plain },
+    }, locale), onOutput);
+  },
+
+  async compare({ image1, image2, capture1 = {}, capture2 = {}, locale }, onOutput) {
+    const digest = fingerprint(image1, image2);
+    const identical = image1.data.equals(image2.data);
+    const change = identical ? MOCK_CHANGES[1] : MOCK_CHANGES[digest[0] % MOCK_CHANGES.length];
+    const condition = MOCK_CONDITIONS[fingerprint(image2)[0] % MOCK_CONDITIONS.length];
+
+    return replayAsStream(localize({
+      changeSummary: identical ? "No visible change; both captures are identical." : change.summary,
+      keyObservations: [
+        change.observation,
+        `Mock comparison fingerprint ${digest.toString("hex").slice(0, 12)}.`,
+      ],
+      recommendation: "Please consult a qualified dermatologist to discuss any observed changes between these captures.",
+      updatedConditionAssessment: change.assessment,
+      postComparisonCondition: condition.name,
+      // Regions are named from the later capture's annotations, falling back to the earlier one's
+      regionComparisons: [
+        ...((capture2.boundingBox ?? capture1.boundingBox) ? [{ region: "Bounding box", change: change.observation }] : []),
+        ...(capture2.pins?.length ? capture2.pins : capture1.pins ?? []).map((pin, index) => ({ region: `Pin ${index + 1} (${pin.label})`, change: change.summary })),
+      ],
+      urgency: change === MOCK_CHANGES[2]
+        ? { tier: "soon", reason: "Visible worsening between captures should be reviewed within weeks." }
+        : { tier: "routine", reason: "No worsening between captures." },
+    }, locale), onOutput);
+  },
+
+  async compareSeries({ captures, locale }) {
+    const changes = captures.slice(1).map((capture, index) => {
+      const previous = captures[index].image;
+      return previous.data.equals(capture.image.data) ? MOCK_CHANGES[1] : MOCK_CHANGES[fingerprint(previous, capture.image)[0] % MOCK_CHANGES.length];
+    });
+    const improved = changes.includes(MOCK_CHANGES[0]);
+    const worsened = changes.includes(MOCK_CHANGES[2]);
+    const trajectory = improved && worsened ? "fluctuating" : improved ? "improving" : worsened ? "worsening" : "stable";
+
+    return localize({
+      intervals: changes.map(change => ({ changeSummary: change.summary, keyObservations: [change.observation] })),
+      trajectory,
+      trajectorySummary: `Across ${captures.length} captures the lesion is ${trajectory}: ${changes.filter(c => c === MOCK_CHANGES[0]).length} interval(s) improved and ${changes.filter(c => c === MOCK_CHANGES[2]).length} worsened.`,
+      recommendation: "Please consult a qualified dermatologist to review the full course of this lesion.",
+      urgency: changes[changes.length - 1] === MOCK_CHANGES[2]
+        ? { tier: "soon", reason: "The most recent interval shows worsening that should be reviewed within weeks." }
+        : { tier: "routine", reason: "No worsening in the most recent interval." },
+    }, locale);
+  },
+
+  async translate({ texts, locale }) {
+    return { translations: texts.map(text => tagText(text, locale)) };
+  },
+});
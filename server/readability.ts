@@ -0,0 +1,24 @@
+// Vowel groups approximate syllables; a trailing silent "e" (as in "stable" or "rare") is not one
+const countSyllables = (word: string): number => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (letters.length <= 3) {
+    return 1;
+  }
+  const groups = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "").match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+};
+
+/**
+ * Flesch-Kincaid grade level of English text: roughly the US school grade needed to follow it.
+ * Returns undefined when there is nothing to measure.
+ */
+export const fleschKincaidGrade = (text: string): number | undefined => {
+  const words: string[] = text.match(/[A-Za-z]+(?:['’-][A-Za-z]+)*/g) ?? [];
+  if (words.length === 0) {
+    return undefined;
+  }
+  const sentences = Math.max(1, (text.match(/[^.!?]+[.!?]+/g) ?? []).length);
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.max(0, Math.round(grade * 10) / 10);
+};
@@ -0,0 +1,74 @@
+import { Router, type Request } from "express";
+import type { AuditAction } from "../../types";
+import { HttpError } from "../httpError";
+import { requireRole } from "../authz";
+import { audited, filterAuditLog, readAuditLog, toAuditCsv, verifyAuditLog, type AuditFilter } from "../audit";
+
+const AUDIT_ACTIONS: AuditAction[] = ["view", "upload", "analyze", "compare", "message", "export", "edit"];
+const DEFAULT_LIMIT = 200;
+
+const readQueryString = (req: Request, name: string): string | undefined => {
+  const value = req.query[name];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+};
+
+// Accepts full ISO timestamps or plain dates; a plain "to" date covers that whole day
+const readQueryDate = (req: Request, name: "from" | "to"): string | undefined => {
+  const raw = readQueryString(req, name);
+  if (!raw) {
+    return undefined;
+  }
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(raw) && name === "to" ? `${raw}T23:59:59.999Z` : raw);
+  if (Number.isNaN(date.getTime())) {
+    throw new HttpError(400, `Query parameter "${name}" must be a valid date.`);
+  }
+  return date.toISOString();
+};
+
+const readFilter = (req: Request): AuditFilter => {
+  const action = readQueryString(req, "action");
+  if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+    throw new HttpError(400, `Query parameter "action" must be one of ${AUDIT_ACTIONS.join(", ")}.`);
+  }
+  return {
+    patientId: readQueryString(req, "patientId"),
+    actorId: readQueryString(req, "actorId"),
+    action: action as AuditAction | undefined,
+    from: readQueryDate(req, "from"),
+    to: readQueryDate(req, "to"),
+  };
+};
+
+/**
+ * Practitioner-only, read-only access to the audit trail. There are deliberately no routes that edit or delete entries.
+ */
+export const createAuditRouter = () => {
+  const router = Router();
+  router.use(requireRole("practitioner"));
+
+  // Newest first, e.g. GET /api/audit?patientId=p1&action=view&from=2026-01-01&limit=50
+  router.get("/", async (req, res) => {
+    const limit = Math.max(1, Math.min(Number(req.query.limit) || DEFAULT_LIMIT, 1000));
+    const entries = await readAuditLog();
+    const matching = filterAuditLog(entries, readFilter(req)).reverse();
+    res.json({ entries: matching.slice(0, limit), total: matching.length, integrity: verifyAuditLog(entries) });
+  });
+
+  // The full filtered log as a download, in append order so the hash chain can be re-checked offline
+  router.get("/export", audited("export", "Audit log export"), async (req, res) => {
+    const format = readQueryString(req, "format") ?? "csv";
+    if (format !== "csv" && format !== "json") {
+      throw new HttpError(400, 'Query parameter "format" must be "csv" or "json".');
+    }
+    const entries = filterAuditLog(await readAuditLog(), readFilter(req));
+    const fileName = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    if (format === "csv") {
+      res.type("text/csv").send(toAuditCsv(entries));
+    } else {
+      res.json(entries);
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,138 @@
+import { Router } from "express";
+import { HttpError } from "../httpError";
+import { endSession, hashPassword, normalizeEmail, startSession, toPublicUser, verifyPassword } from "../auth";
+import { newId, readDatabase, updateDatabase, type StoredPatient, type StoredUser } from "../store";
+import { readLocale } from "../locales";
+import { requireRole } from "../authz";
+import { audited } from "../audit";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const readCredentials = (body: any) => {
+  const email = typeof body?.email === "string" ? normalizeEmail(body.email) : "";
+  const password = typeof body?.password === "string" ? body.password : "";
+  if (!email || !password) {
+    throw new HttpError(400, "Email and password are required.");
+  }
+  return { email, password };
+};
+
+/**
+ * Reads and checks the fields every new account needs, whoever creates it
+ */
+const readNewAccount = (body: any) => {
+  const { email, password } = readCredentials(body);
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    throw new HttpError(400, "Full name is required.");
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+  }
+  return { name, email, password };
+};
+
+const assertEmailAvailable = (users: StoredUser[], email: string) => {
+  if (users.some(u => u.email === email)) {
+    throw new HttpError(409, "An account with this email already exists.");
+  }
+};
+
+/**
+ * Login, signup and logout routes. Sessions are carried in an HTTP-only cookie.
+ * Self-signup only creates patient accounts; practitioner accounts are added by an existing practitioner.
+ */
+export const createAuthRouter = () => {
+  const router = Router();
+
+  router.post("/signup", async (req, res) => {
+    const { name, email, password } = readNewAccount(req.body);
+    const role = req.body.role ?? "patient";
+    if (role !== "patient") {
+      throw new HttpError(403, "Practitioner accounts can only be created by an existing practitioner.", "FORBIDDEN");
+    }
+    if (!req.body.dob) {
+      throw new HttpError(400, "Date of birth is required for patient profile creation.");
+    }
+
+    // The language picked on the landing page becomes the account's preference
+    const locale = readLocale(req.body);
+    const passwordHash = await hashPassword(password);
+    const user = await updateDatabase(db => {
+      assertEmailAvailable(db.users, email);
+      const newUser: StoredUser = {
+        id: newId("u"),
+        name,
+        email,
+        role,
+        locale,
+        passwordHash,
+        createdAt: new Date().toISOString(),
+      };
+
+      // Patient accounts get their own clinical file, linked by id
+      const patient: StoredPatient = {
+        id: newId("p"),
+        patientId: `PA-${Math.floor(1000 + Math.random() * 9000)}`,
+        name,
+        dob: String(req.body.dob),
+        gender: 'Prefer not to say',
+        bloodType: 'O+',
+        existingConditions: 'None reported',
+        lesionImages: [],
+        email,
+        messages: [],
+        symptomLogs: [],
+        careTasks: []
+      };
+      db.patients.unshift(patient);
+      newUser.linkedPatientId = patient.id;
+
+      db.users.push(newUser);
+      return newUser;
+    });
+
+    await startSession(res, user.id);
+    res.status(201).json(toPublicUser(user));
+  });
+
+  // The new colleague signs in with their own credentials; the creator's session is left as it is
+  router.post("/practitioners", audited("edit", "Created a practitioner account"), requireRole("practitioner"), async (req, res) => {
+    const { name, email, password } = readNewAccount(req.body);
+    const locale = readLocale(req.body);
+    const passwordHash = await hashPassword(password);
+    const user = await updateDatabase(db => {
+      assertEmailAvailable(db.users, email);
+      const newUser: StoredUser = {
+        id: newId("u"),
+        name,
+        email,
+        role: "practitioner",
+        locale,
+        passwordHash,
+        createdAt: new Date().toISOString(),
+      };
+      db.users.push(newUser);
+      return newUser;
+    });
+    res.status(201).json(toPublicUser(user));
+  });
+
+  router.post("/login", async (req, res) => {
+    const { email, password } = readCredentials(req.body);
+    const db = await readDatabase();
+    const user = db.users.find(u => u.email === email);
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      throw new HttpError(401, "Invalid credentials. Please try again.");
+    }
+    await startSession(res, user.id);
+    res.json(toPublicUser(user));
+  });
+
+  router.post("/logout", async (req, res) => {
+    await endSession(req, res);
+    res.status(204).end();
+  });
+
+  return router;
+};
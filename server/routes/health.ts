@@ -0,0 +1,52 @@
+import { Router, type RequestHandler } from "express";
+import { createHash, timingSafeEqual } from "crypto";
+import { HttpError } from "../httpError";
+import { requireRole } from "../authz";
+import { checkReadiness } from "../health";
+import { renderMetrics } from "../metrics";
+import { config } from "../config";
+
+const METRICS_TOKEN = config.metricsToken ?? "";
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+/**
+ * Scrapers authenticate with METRICS_TOKEN as a bearer token; without one, a practitioner session is required
+ */
+const requireMetricsAccess: RequestHandler = (req, res, next) => {
+  const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (METRICS_TOKEN && bearer) {
+    if (!timingSafeEqual(digest(bearer), digest(METRICS_TOKEN))) {
+      throw new HttpError(401, "Invalid metrics token.", "UNAUTHENTICATED");
+    }
+    next();
+    return;
+  }
+  requireRole("practitioner")(req, res, next);
+};
+
+/**
+ * Probes for load balancers and orchestrators, plus Prometheus metrics. The probes need no session.
+ */
+export const createHealthRouter = () => {
+  const router = Router();
+
+  // Liveness: the process is up and serving requests. /health is kept for existing probes.
+  const live: RequestHandler = (req, res) => {
+    res.json({ status: "ok", uptimeSeconds: Math.round(process.uptime()) });
+  };
+  router.get("/health", live);
+  router.get("/health/live", live);
+
+  // Readiness: analyses can actually run. Answers 503 while any check fails so traffic is held back.
+  router.get("/health/ready", async (req, res) => {
+    const report = await checkReadiness();
+    res.status(report.status === "unavailable" ? 503 : 200).json(report);
+  });
+
+  router.get("/metrics", requireMetricsAccess, (req, res) => {
+    res.type("text/plain; version=0.0.4").send(renderMetrics());
+  });
+
+  return router;
+};
@@ -0,0 +1,83 @@
+import { Router } from "express";
+import { HttpError } from "../httpError";
+import { requireRole } from "../authz";
+import { getJob, listJobs, submitAnalysisJob, submitComparisonJob, submitSeriesJob } from "../jobs";
+import { readFlag } from "../uploads";
+import { audited } from "../audit";
+import { readLocale } from "../locales";
+import { config } from "../config";
+
+const SERIES_MAX_IMAGES = config.analysis.seriesMaxImages;
+
+const requireId = (value: unknown, field: string): string => {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new HttpError(400, `Field "${field}" is required.`);
+  }
+  return value.trim();
+};
+
+/**
+ * Asynchronous analysis: submissions reference stored lesion images and answer 202 with a job to poll,
+ * so a dropped connection never loses an in-flight model call.
+ */
+export const createJobRouter = () => {
+  const router = Router();
+  router.use(["/analyze/jobs", "/compare/jobs", "/compare/series/jobs", "/jobs"], requireRole("practitioner"));
+
+  router.post("/analyze/jobs", audited("analyze", "Queued an analysis job"), async (req, res) => {
+    const { job, patient } = await submitAnalysisJob(
+      {
+        patientId: requireId(req.body?.patientId, "patientId"),
+        imageId: requireId(req.body?.imageId, "imageId"),
+        userId: req.user!.id,
+        locale: readLocale(req.body, req.user!.locale),
+      },
+      { bypassCache: readFlag(req.body, "bypassCache") }
+    );
+    res.status(202).json({ job, patient });
+  });
+
+  router.post("/compare/jobs", audited("compare", "Queued a comparison job"), async (req, res) => {
+    const imageIds = req.body?.imageIds;
+    if (!Array.isArray(imageIds) || imageIds.length !== 2) {
+      throw new HttpError(400, 'Field "imageIds" must list exactly two lesion image ids.');
+    }
+    const ids = imageIds.map((id, i) => requireId(id, `imageIds[${i}]`)) as [string, string];
+    if (ids[0] === ids[1]) {
+      throw new HttpError(400, "Select two different images to compare.");
+    }
+    const job = await submitComparisonJob(
+      { patientId: requireId(req.body?.patientId, "patientId"), imageIds: ids, userId: req.user!.id, locale: readLocale(req.body, req.user!.locale) },
+      { bypassCache: readFlag(req.body, "bypassCache") }
+    );
+    res.status(202).json({ job });
+  });
+
+  router.post("/compare/series/jobs", audited("compare", "Queued a series comparison job"), async (req, res) => {
+    const imageIds = req.body?.imageIds;
+    if (!Array.isArray(imageIds) || imageIds.length < 2 || imageIds.length > SERIES_MAX_IMAGES) {
+      throw new HttpError(400, `Field "imageIds" must list between 2 and ${SERIES_MAX_IMAGES} lesion image ids.`);
+    }
+    const ids = imageIds.map((id, i) => requireId(id, `imageIds[${i}]`));
+    if (new Set(ids).size !== ids.length) {
+      throw new HttpError(400, "Each image can only appear once in a series.");
+    }
+    const job = await submitSeriesJob(
+      { patientId: requireId(req.body?.patientId, "patientId"), imageIds: ids, userId: req.user!.id, locale: readLocale(req.body, req.user!.locale) },
+      { bypassCache: readFlag(req.body, "bypassCache") }
+    );
+    res.status(202).json({ job });
+  });
+
+  // Lets a reloaded client find work it should resume, e.g. GET /api/jobs?patientId=p1&active=true
+  router.get("/jobs", async (req, res) => {
+    const patientId = typeof req.query.patientId === "string" ? req.query.patientId : undefined;
+    res.json(await listJobs({ patientId, activeOnly: req.query.active === "true" }));
+  });
+
+  router.get("/jobs/:jobId", async (req, res) => {
+    res.json(await getJob(req.params.jobId));
+  });
+
+  return router;
+};
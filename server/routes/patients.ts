@@ -0,0 +1,333 @@
+import { Router } from "express";
+import type { CareTask, PatientMessage, SymptomLog } from "../../types";
+import { HttpError } from "../httpError";
+import { canAccessPatient, requireAuth, requirePatientAccess, requireRole } from "../authz";
+import { normalizeImage } from "../imageNormalization";
+import { audited } from "../audit";
+import { newId, readDatabase, updateDatabase, type Database, type StoredLesionImage, type StoredPatient } from "../store";
+import { runTranslation } from "../analysisService";
+import { readLocale } from "../locales";
+import { acceptImages, readAnnotations, readFlag, readImage, readJsonField, toDataUrl } from "../uploads";
+
+const PATIENT_FIELDS = ["name", "dob", "patientId", "gender", "bloodType", "existingConditions", "email"] as const;
+const IMAGE_FIELDS = ["analysisResult", "boundingBox", "pins", "practitionerNotes", "patientNotes"] as const;
+// Patients may only attach their own comments; results and clinical annotations are practitioner-authored
+const PATIENT_IMAGE_FIELDS = ["patientNotes"] as const;
+
+// Copies only the whitelisted keys that are present on the request body
+const pick = <K extends string>(body: Record<string, unknown>, fields: readonly K[]): Partial<Record<K, any>> => {
+  const picked: Partial<Record<K, any>> = {};
+  for (const field of fields) {
+    if (body[field] !== undefined) {
+      picked[field] = body[field];
+    }
+  }
+  return picked;
+};
+
+const requireText = (value: unknown, field: string): string => {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new HttpError(400, `Field "${field}" is required.`);
+  }
+  return value.trim();
+};
+
+const findPatient = (db: Database, patientId: string): StoredPatient => {
+  const patient = db.patients.find(p => p.id === patientId);
+  if (!patient) {
+    throw new HttpError(404, `Patient "${patientId}" was not found.`);
+  }
+  return patient;
+};
+
+const findIndex = <T extends { id: string }>(items: T[] | undefined, id: string, label: string): number => {
+  const index = items ? items.findIndex(item => item.id === id) : -1;
+  if (index === -1) {
+    throw new HttpError(404, `${label} "${id}" was not found.`);
+  }
+  return index;
+};
+
+/**
+ * CRUD routes for patients and their nested lesion images, messages, symptom logs and care tasks.
+ * Every mutation responds with the full updated patient so clients can replace their local copy.
+ * Practitioners manage every record; patients can only reach the record linked to their account.
+ */
+export const createPatientRouter = () => {
+  const router = Router();
+  const practitionerOnly = requireRole("practitioner");
+
+  router.use(requireAuth);
+  router.use("/:patientId", requirePatientAccess);
+
+  // --- PATIENTS ---
+  router.get("/", audited("view", "Viewed the patient list"), async (req, res) => {
+    const db = await readDatabase();
+    res.json(db.patients.filter(patient => canAccessPatient(req.user!, patient)));
+  });
+
+  router.post("/", audited("edit", "Created a patient"), practitionerOnly, async (req, res) => {
+    const body = req.body ?? {};
+    const fields = pick(body, PATIENT_FIELDS);
+    const patient: StoredPatient = {
+      ...fields,
+      id: newId("p"),
+      name: requireText(body.name, "name"),
+      dob: requireText(body.dob, "dob"),
+      lesionImages: [],
+      messages: [],
+      symptomLogs: [],
+      careTasks: [],
+    };
+    await updateDatabase(db => {
+      db.patients.unshift(patient);
+    });
+    res.locals.audit = { patientId: patient.id };
+    res.status(201).json(patient);
+  });
+
+  router.get("/:patientId", audited("view", "Viewed the patient file"), async (req, res) => {
+    const db = await readDatabase();
+    res.json(findPatient(db, req.params.patientId));
+  });
+
+  router.patch("/:patientId", audited("edit", "Edited patient details"), practitionerOnly, async (req, res) => {
+    const fields = pick(req.body ?? {}, PATIENT_FIELDS);
+    const patient = await updateDatabase(db => {
+      const existing = findPatient(db, req.params.patientId);
+      Object.assign(existing, fields);
+      return existing;
+    });
+    res.json(patient);
+  });
+
+  router.delete("/:patientId", audited("edit", "Deleted the patient"), practitionerOnly, async (req, res) => {
+    await updateDatabase(db => {
+      const patient = findPatient(db, req.params.patientId);
+      db.patients = db.patients.filter(p => p !== patient);
+    });
+    res.status(204).end();
+  });
+
+  // --- LESION IMAGES ---
+  // Multipart: the photo arrives as the "image" file part, JSON-valued fields as encoded strings
+  router.post("/:patientId/images", audited("upload", "Uploaded a lesion image"), acceptImages("image"), async (req, res) => {
+    const body = req.body ?? {};
+    const upload = await normalizeImage(readImage(req, "image"));
+    const fields = {
+      analysisResult: readJsonField(body, "analysisResult"),
+      ...readAnnotations(body),
+      patientNotes: typeof body.patientNotes === "string" ? body.patientNotes : undefined,
+    };
+    const image: StoredLesionImage = {
+      analysisResult: null,
+      ...pick(fields, req.user!.role === "practitioner" ? IMAGE_FIELDS : PATIENT_IMAGE_FIELDS),
+      id: newId("img_"),
+      imageDataUrl: toDataUrl(upload),
+      timestamp: new Date().toISOString(),
+      // Patient uploads stay on the practitioner triage worklist until reviewed
+      uploadedBy: req.user!.role,
+    };
+    const patient = await updateDatabase(db => {
+      const existing = findPatient(db, req.params.patientId);
+      existing.lesionImages.unshift(image);
+      return existing;
+    });
+    res.status(201).json(patient);
+  });
+
+  router.patch("/:patientId/images/:imageId", audited("edit", "Edited a lesion image"), practitionerOnly, async (req, res) => {
+    const fields = pick(req.body ?? {}, IMAGE_FIELDS);
+    const patient = await updateDatabase(db => {
+      const existing = findPatient(db, req.params.patientId);
+      const index = findIndex(existing.lesionImages, req.params.imageId, "Lesion image");
+      existing.lesionImages[index] = { ...existing.lesionImages[index], ...fields };
+      if (fields.analysisResult !== undefined) {
+        // A replaced result has not been reviewed yet, and its translations describe the old one
+        delete existing.lesionImages[index].reviewedAt;
+        delete existing.lesionImages[index].analysisTranslations;
+      }
+      return existing;
+    });
+    res.json(patient);
+  });
+
+  // Marks the image's current result as reviewed, removing it from the triage worklist
+  router.post("/:patientId/images/:imageId/review", audited("edit", "Marked a scan reviewed"), practitionerOnly, async (req, res) => {
+    const patient = await updateDatabase(db => {
+      const existing = findPatient(db, req.params.patientId);
+      existing.lesionImages[findIndex(existing.lesionImages, req.params.imageId, "Lesion image")].reviewedAt = new Date().toISOString();
+      return existing;
+    });
+    res.json(patient);
+  });
+
+  // Translates the image's result into the requested language (default: the reader's) and keeps the copy on the image,
+  // so practitioners and patients can each read the same result in their own language
+  router.post("/:patientId/images/:imageId/translations", audited("view", "Viewed a translated scan result"), async (req, res) => {
+    const locale = readLocale(req.body, req.user!.locale);
+    // A fresh translation is a new model call, so only practitioners may skip the stored copy and the cache
+    const bypassCache = req.user!.role === "practitioner" && readFlag(req.body, "bypassCache");
+    const patient = findPatient(await readDatabase(), req.params.patientId);
+    const image = patient.lesionImages[findIndex(patient.lesionImages, req.params.imageId, "Lesion image")];
+    const source = image.analysisResult;
+    if (!source) {
+      throw new HttpError(409, "This scan has no analysis result to translate yet.", "CONFLICT");
+    }
+    if ((source.provenance?.locale ?? "en") === locale) {
+      res.json(source);
+      return;
+    }
+    const stored = image.analysisTranslations?.[locale];
+    if (stored && !bypassCache) {
+      res.json(stored);
+      return;
+    }
+    const { result } = await runTranslation(source, locale, { bypassCache });
+    await updateDatabase(db => {
+      const current = db.patients.find(p => p.id === patient.id)?.lesionImages.find(img => img.id === image.id);
+      // The result may have been replaced (or the image deleted) while the model was translating it
+      if (current && JSON.stringify(current.analysisResult) === JSON.stringify(source)) {
+        current.analysisTranslations = { ...current.analysisTranslations, [locale]: result };
+      }
+    });
+    res.json(result);
+  });
+
+  router.delete("/:patientId/images/:imageId", audited("edit", "Deleted a lesion image"), practitionerOnly, async (req, res) => {
+    const patient = await updateDatabase(db => {
+      const existing = findPatient(db, req.params.patientId);
+      existing.lesionImages.splice(findIndex(existing.lesionImages, req.params.imageId, "Lesion image"), 1);
+      return existing;
+    });
+    res.json(patient);
+  });
+
+  // --- EXPORTS ---
+  // Reports are rendered in the browser, so the client records each export here for the audit trail
+  router.post("/:patientId/exports", audited("export", "Exported the clinical report PDF"), async (req, res) => {
+    res.status(204).end();
+  });
+
+  // --- MESSAGES ---
+  router.post("/:patientId/messages", audited("message", "Sent a message"), async (req, res) => {
+    const body = req.body ?? {};
+    const message: PatientMessage = {
+      id: newId("m_"),
+      // The sender is derived from the session so patients cannot post as the doctor
+      sender: req.user!.role === "patient" ? "patient" : "doctor",
+      text: requireText(body.text, "text"),
+      timestamp: typeof body.timestamp === "string" ? body.timestamp : new Date().toISOString(),
+    };
+    const patient = await updateDatabase(db => {
+      const existing = findPatient(db, req.params.patientId);
+      existing.messages = [...(existing.messages || []), message];
+      return existing;
+    });
+    res.status(201).json(patient);
+  });
+
+  router.delete("/:patientId/messages/:messageId", audited("edit", "Deleted a message"), practitionerOnly, async (req, res) => {
+    const patient = await updateDatabase(db => {
+      const existing = findPatient(db, req.params.patientId);
+      existing.messages!.splice(findIndex(existing.messages, req.params.messageId, "Message"), 1);
+      return existing;
+    });
+    res.json(patient);
+  });
+
+  // --- SYMPTOM LOGS ---
+  router.post("/:patientId/symptom-logs", audited("edit", "Logged symptoms"), async (req, res) => {
+    const body = req.body ?? {};
+    const log: SymptomLog = {
+      id: newId("symptom_"),
+      timestamp: typeof body.timestamp === "string" ? body.timestamp : new Date().toISOString(),
+      itching: Boolean(body.itching),
+      bleeding: Boolean(body.bleeding),
+      colorChange: Boolean(body.colorChange),
+      notes: typeof body.notes === "string" ? body.notes.trim() : "",
+    };
+    const patient = await updateDatabase(db => {
+      const existing = findPatient(db, req.params.patientId);
+      existing.symptomLogs = [log, ...(existing.symptomLogs || [])];
+      return existing;
+    });
+    res.status(201).json(patient);
+  });
+
+  router.delete("/:patientId/symptom-logs/:logId", audited("edit", "Deleted a symptom log"), async (req, res) => {
+    const patient = await updateDatabase(db => {
+      const existing = findPatient(db, req.params.patientId);
+      existing.symptomLogs!.splice(findIndex(existing.symptomLogs, req.params.logId, "Symptom log"), 1);
+      return existing;
+    });
+    res.json(patient);
+  });
+
+  // --- CARE TASKS ---
+  // Practitioners own the care plan. A patient may only seed the default plan into an empty list and tick tasks off.
+  router.put("/:patientId/care-tasks", audited("edit", "Replaced care tasks"), async (req, res) => {
+    if (!Array.isArray(req.body)) {
+      throw new HttpError(400, "Request body must be an array of care tasks.");
+    }
+    const tasks: CareTask[] = req.body.map((task: any) => ({
+      id: typeof task?.id === "string" && task.id ? task.id : newId("t"),
+      task: requireText(task?.task, "task"),
+      completed: Boolean(task?.completed),
+    }));
+    const patient = await updateDatabase(db => {
+      const existing = findPatient(db, req.params.patientId);
+      if (req.user!.role !== "practitioner" && existing.careTasks && existing.careTasks.length > 0) {
+        throw new HttpError(403, "Only a practitioner can replace an existing care plan.", "FORBIDDEN");
+      }
+      existing.careTasks = tasks;
+      return existing;
+    });
+    res.json(patient);
+  });
+
+  router.post("/:patientId/care-tasks", audited("edit", "Added a care task"), practitionerOnly, async (req, res) => {
+    const task: CareTask = {
+      id: newId("t"),
+      task: requireText(req.body?.task, "task"),
+      completed: Boolean(req.body?.completed),
+    };
+    const patient = await updateDatabase(db => {
+      const existing = findPatient(db, req.params.patientId);
+      existing.careTasks = [...(existing.careTasks || []), task];
+      return existing;
+    });
+    res.status(201).json(patient);
+  });
+
+  router.patch("/:patientId/care-tasks/:taskId", audited("edit", "Updated a care task"), async (req, res) => {
+    const body = req.body ?? {};
+    if (body.task !== undefined && req.user!.role !== "practitioner") {
+      throw new HttpError(403, "Patients can only mark care tasks as completed.", "FORBIDDEN");
+    }
+    const patient = await updateDatabase(db => {
+      const existing = findPatient(db, req.params.patientId);
+      const index = findIndex(existing.careTasks, req.params.taskId, "Care task");
+      const task = existing.careTasks![index];
+      if (body.task !== undefined) {
+        task.task = requireText(body.task, "task");
+      }
+      if (body.completed !== undefined) {
+        task.completed = Boolean(body.completed);
+      }
+      return existing;
+    });
+    res.json(patient);
+  });
+
+  router.delete("/:patientId/care-tasks/:taskId", audited("edit", "Deleted a care task"), practitionerOnly, async (req, res) => {
+    const patient = await updateDatabase(db => {
+      const existing = findPatient(db, req.params.patientId);
+      existing.careTasks!.splice(findIndex(existing.careTasks, req.params.taskId, "Care task"), 1);
+      return existing;
+    });
+    res.json(patient);
+  });
+
+  return router;
+};
@@ -0,0 +1,226 @@
+import type { AnalysisResult, ComparisonResult, Locale, ResultProvenance, SafetyFinding, SafetyReport, SeriesComparisonResult } from "../types";
+import { HttpError } from "./httpError";
+import { logger } from "./logger";
+import { config } from "./config";
+import { DEFAULT_SAFETY_TERMS, type SafetyTermList } from "./safetyTerms";
+import { DEFAULT_LOCALE, MANDATORY_DISCLAIMERS, SUPPORTED_LOCALES } from "./locales";
+
+const MODE: SafetyReport["mode"] = config.analysis.safetyMode;
+
+// Used when redaction empties a prose field entirely
+const REDACTED_PLACEHOLDERS: Record<Locale, string> = {
+  en: "Please discuss management options with a qualified dermatologist.",
+  es: "Hable de las opciones de manejo con un dermatólogo cualificado.",
+  fr: "Veuillez discuter des options de prise en charge avec un dermatologue qualifié.",
+};
+
+interface CompiledTerm {
+  category: SafetyFinding["category"];
+  term: string;
+  pattern: RegExp;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Whole-word match that also works next to accented letters, where \b does not
+const wordPattern = (term: string) => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(e?s)?(?![\\p{L}\\p{N}])`, "iu");
+
+const compileTerms = (list: SafetyTermList): CompiledTerm[] => [
+  ...list.drugs.map(term => ({ category: "drug" as const, term, pattern: wordPattern(term) })),
+  ...list.treatments.map(term => ({ category: "treatment" as const, term, pattern: wordPattern(term) })),
+  ...list.dosagePatterns.map(term => ({ category: "dosage" as const, term, pattern: new RegExp(term, "i") })),
+];
+
+// SAFETY_TERMS_PATH is read and checked with the rest of the configuration
+const termListFor = (locale: Locale) => config.analysis.safetyTerms?.[locale] ?? DEFAULT_SAFETY_TERMS[locale];
+
+// Each language's own list, plus the English one for drug names left untranslated
+const TERMS = Object.fromEntries(SUPPORTED_LOCALES.map(locale => [
+  locale,
+  compileTerms(termListFor(locale)).concat(locale === "en" ? [] : compileTerms(termListFor("en"))),
+])) as Record<Locale, CompiledTerm[]>;
+
+// Streaming text is checked before its language is known, so it is held to every list
+const ALL_TERMS = SUPPORTED_LOCALES.flatMap(locale => compileTerms(termListFor(locale)));
+
+const findMatch = (text: string, terms: CompiledTerm[]): CompiledTerm | undefined => terms.find(term => term.pattern.test(text));
+
+const normalize = (text: string) => text.replace(/\s+/g, " ").trim().toLowerCase();
+
+const DISCLAIMERS = Object.values(MANDATORY_DISCLAIMERS);
+
+/**
+ * Whether a recommendation is the mandatory disclaimer, in any supported language
+ */
+export const isDisclaimer = (text: string) => DISCLAIMERS.some(disclaimer => normalize(text) === normalize(disclaimer));
+
+const DISCLAIMER_PATTERN = new RegExp(DISCLAIMERS.map(disclaimer => escapeRegExp(disclaimer).replace(/ /g, "\\s+")).join("|"), "gi");
+
+const stripDisclaimer = (text: string) => text.replace(DISCLAIMER_PATTERN, "").replace(/\s{2,}/g, " ").trim();
+
+/**
+ * Tracks findings for one result and applies the configured mode to each piece of text.
+ * The term list, disclaimer and placeholder all follow the result's language.
+ */
+class SafetyPass {
+  readonly findings: SafetyFinding[] = [];
+  readonly disclaimer: string;
+  readonly placeholder: string;
+  private readonly terms: CompiledTerm[];
+
+  constructor(provenance?: ResultProvenance) {
+    const locale = provenance?.locale ?? DEFAULT_LOCALE;
+    this.disclaimer = MANDATORY_DISCLAIMERS[locale];
+    this.placeholder = REDACTED_PLACEHOLDERS[locale];
+    this.terms = TERMS[locale];
+  }
+
+  private record(field: string, text: string, match: CompiledTerm, action: SafetyFinding["action"]) {
+    this.findings.push({ field, category: match.category, term: match.term, action, excerpt: text.slice(0, 160) });
+    if (MODE === "reject") {
+      throw new HttpError(
+        502,
+        `The AI output was withheld by the clinical safety filter (${match.category} mention: "${match.term}" in ${field}).`,
+        "SAFETY_REJECTED"
+      );
+    }
+  }
+
+  /** Drops list items that mention a flagged term */
+  filterList(field: string, items: string[]): string[] {
+    return items.filter((item, index) => {
+      const match = findMatch(item, this.terms);
+      if (match) {
+        this.record(`${field}[${index}]`, item, match, "removed-item");
+      }
+      return !match;
+    });
+  }
+
+  /** Removes sentences that mention a flagged term from a prose field */
+  filterText(field: string, text: string): string {
+    const sentences = text.match(/[^.!?]+[.!?]*\s*/g) ?? [text];
+    const kept = sentences.filter(sentence => {
+      const match = findMatch(sentence, this.terms);
+      if (match) {
+        this.record(field, sentence.trim(), match, "removed-sentence");
+      }
+      return !match;
+    });
+    const result = kept.join("").trim();
+    return result || this.placeholder;
+  }
+}
+
+/**
+ * Redacts (or rejects) medication, treatment and dosage mentions in an analysis and guarantees that the
+ * mandatory disclaimer, in the language recorded in its provenance, is the last recommendation, exactly once
+ */
+export const applyAnalysisSafety = (result: AnalysisResult): AnalysisResult => {
+  const pass = new SafetyPass(result.provenance);
+  const description = pass.filterText("description", result.description);
+  const withoutDisclaimer = result.recommendations.filter(rec => !isDisclaimer(rec)).map(stripDisclaimer).filter(Boolean);
+  const recommendations = [...pass.filterList("recommendations", withoutDisclaimer), pass.disclaimer];
+  const disclaimerAdjusted = result.recommendations.length !== withoutDisclaimer.length + 1
+    || normalize(result.recommendations[result.recommendations.length - 1]) !== normalize(pass.disclaimer);
+  const differentials = result.differentials?.map((candidate, index) => ({
+    ...candidate,
+    supportingFeatures: pass.filterList(`differentials[${index}].supportingFeatures`, candidate.supportingFeatures),
+    distinguishingFeatures: pass.filterList(`differentials[${index}].distinguishingFeatures`, candidate.distinguishingFeatures),
+  }));
+
+  const abcde = result.abcde && {
+    ...result.abcde,
+    asymmetry: { ...result.abcde.asymmetry, rationale: pass.filterText("abcde.asymmetry.rationale", result.abcde.asymmetry.rationale) },
+    border: { ...result.abcde.border, rationale: pass.filterText("abcde.border.rationale", result.abcde.border.rationale) },
+    color: { ...result.abcde.color, rationale: pass.filterText("abcde.color.rationale", result.abcde.color.rationale) },
+    diameter: { ...result.abcde.diameter, rationale: pass.filterText("abcde.diameter.rationale", result.abcde.diameter.rationale) },
+    evolution: { ...result.abcde.evolution, rationale: pass.filterText("abcde.evolution.rationale", result.abcde.evolution.rationale) },
+  };
+
+  const urgency = result.urgency && { ...result.urgency, reason: pass.filterText("urgency.reason", result.urgency.reason) };
+
+  const clinicianSummary = result.clinicianSummary && {
+    morphology: pass.filterText("clinicianSummary.morphology", result.clinicianSummary.morphology),
+    differentialReasoning: pass.filterText("clinicianSummary.differentialReasoning", result.clinicianSummary.differentialReasoning),
+  };
+  const patientSummary = result.patientSummary && {
+    ...result.patientSummary,
+    explanation: pass.filterText("patientSummary.explanation", result.patientSummary.explanation),
+  };
+
+  return finish(
+    { ...result, description, recommendations, differentials, abcde, urgency, clinicianSummary, patientSummary },
+    pass,
+    disclaimerAdjusted,
+    "analysis"
+  );
+};
+
+/**
+ * Comparison counterpart: filters every free-text field and ends the recommendation with the disclaimer
+ */
+export const applyComparisonSafety = (result: ComparisonResult): ComparisonResult => {
+  const pass = new SafetyPass(result.provenance);
+  const baseRecommendation = stripDisclaimer(result.recommendation);
+  const recommendation = `${pass.filterText("recommendation", baseRecommendation || pass.placeholder)} ${pass.disclaimer}`;
+  const disclaimerAdjusted = result.recommendation.trim() !== `${baseRecommendation} ${pass.disclaimer}`;
+
+  return finish({
+    ...result,
+    changeSummary: pass.filterText("changeSummary", result.changeSummary),
+    keyObservations: pass.filterList("keyObservations", result.keyObservations),
+    updatedConditionAssessment: pass.filterText("updatedConditionAssessment", result.updatedConditionAssessment),
+    regionComparisons: result.regionComparisons?.map((region, index) => ({
+      ...region,
+      change: pass.filterText(`regionComparisons[${index}].change`, region.change),
+    })),
+    urgency: result.urgency && { ...result.urgency, reason: pass.filterText("urgency.reason", result.urgency.reason) },
+    recommendation,
+  }, pass, disclaimerAdjusted, "comparison");
+};
+
+export const applySeriesSafety = (result: SeriesComparisonResult): SeriesComparisonResult => {
+  const pass = new SafetyPass(result.provenance);
+  const baseRecommendation = stripDisclaimer(result.recommendation);
+  const recommendation = `${pass.filterText("recommendation", baseRecommendation || pass.placeholder)} ${pass.disclaimer}`;
+  const disclaimerAdjusted = result.recommendation.trim() !== `${baseRecommendation} ${pass.disclaimer}`;
+
+  return finish({
+    ...result,
+    intervals: result.intervals.map((interval, index) => ({
+      ...interval,
+      changeSummary: pass.filterText(`intervals[${index}].changeSummary`, interval.changeSummary),
+      keyObservations: pass.filterList(`intervals[${index}].keyObservations`, interval.keyObservations),
+    })),
+    trajectorySummary: pass.filterText("trajectorySummary", result.trajectorySummary),
+    urgency: result.urgency && { ...result.urgency, reason: pass.filterText("urgency.reason", result.urgency.reason) },
+    recommendation,
+  }, pass, disclaimerAdjusted, "series comparison");
+};
+
+/**
+ * Filters model prose that is still streaming in. Until the text is complete only whole sentences are released,
+ * so a flagged term is never shown half-written; flagged sentences are dropped. The final result still goes
+ * through the full filter.
+ */
+export const filterStreamingText = (text: string, complete: boolean): string => {
+  const released = complete ? text : text.match(/^[\s\S]*[.!?](?=\s)/)?.[0] ?? "";
+  const sentences = released.match(/[^.!?]+[.!?]*\s*/g) ?? [];
+  return sentences.filter(sentence => !findMatch(sentence, ALL_TERMS)).join("").trim();
+};
+
+const finish = <T extends { safety?: SafetyReport }>(result: T, pass: SafetyPass, disclaimerAdjusted: boolean, operation: string): T => {
+  if (pass.findings.length > 0) {
+    logger.warn(`Clinical safety filter redacted ${pass.findings.length} item(s) from ${operation} output`, { findings: pass.findings });
+  }
+  return {
+    ...result,
+    safety: {
+      mode: MODE,
+      findings: pass.findings,
+      disclaimerAdjusted,
+      checkedAt: new Date().toISOString(),
+    },
+  };
+};
@@ -0,0 +1,139 @@
+import type { Locale } from "../types";
+
+/**
+ * Clinical safety term list for one language. Terms match case-insensitively as whole words (simple plurals
+ * included); patterns are regular expressions.
+ */
+export interface SafetyTermList {
+  drugs: string[];
+  treatments: string[];
+  dosagePatterns: string[];
+}
+
+const TERM_LIST_FIELDS = ["drugs", "treatments", "dosagePatterns"] as const;
+
+/**
+ * Lists what is wrong with a parsed term list: fields must be arrays of non-empty strings (missing fields count as
+ * empty), and dosage patterns must compile as regular expressions
+ */
+export const checkTermList = (value: unknown, label: string): string[] => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return [`${label} must be a JSON object with "drugs", "treatments" and "dosagePatterns" arrays.`];
+  }
+  const problems: string[] = [];
+  for (const field of TERM_LIST_FIELDS) {
+    const entries = (value as Record<string, unknown>)[field];
+    if (entries === undefined) {
+      continue;
+    }
+    if (!Array.isArray(entries) || entries.some(entry => typeof entry !== "string" || !entry.trim())) {
+      problems.push(`${label} field "${field}" must be an array of non-empty strings.`);
+      continue;
+    }
+    if (field === "dosagePatterns") {
+      for (const pattern of entries as string[]) {
+        try {
+          new RegExp(pattern, "i");
+        } catch (error: any) {
+          problems.push(`${label} dosage pattern "${pattern}" is not a valid regular expression: ${error.message}`);
+        }
+      }
+    }
+  }
+  return problems;
+};
+
+/**
+ * Fills in missing fields of a list that passed checkTermList
+ */
+export const toTermList = (value: Partial<SafetyTermList>): SafetyTermList => ({
+  drugs: value.drugs ?? [],
+  treatments: value.treatments ?? [],
+  dosagePatterns: value.dosagePatterns ?? [],
+});
+
+/**
+ * Built-in term lists per result language. A SAFETY_TERMS_PATH file replaces them: either one list of this shape
+ * (the English list) or an object keyed by locale, e.g. { "en": {...}, "es": {...} }; locales it leaves out keep
+ * the built-in list. Non-English results are checked against their own list and the English one, since drug
+ * names often stay untranslated.
+ */
+export type SafetyTermLists = Partial<Record<Locale, SafetyTermList>>;
+
+const ENGLISH_TERMS: SafetyTermList = {
+  drugs: [
+    "hydrocortisone", "corticosteroid", "steroid", "cortisone", "betamethasone", "clobetasol", "triamcinolone",
+    "mometasone", "fluocinonide", "antibiotic", "antifungal", "antihistamine", "mupirocin", "neomycin", "bacitracin",
+    "clindamycin", "doxycycline", "minocycline", "cephalexin", "clotrimazole", "miconazole", "ketoconazole",
+    "terbinafine", "fluconazole", "isotretinoin", "tretinoin", "retinoid", "adapalene", "benzoyl peroxide",
+    "salicylic acid", "azelaic acid", "imiquimod", "fluorouracil", "5-fu", "tacrolimus", "pimecrolimus",
+    "methotrexate", "cyclosporine", "dupilumab", "biologic", "acyclovir", "valacyclovir", "ivermectin",
+    "permethrin", "ibuprofen", "acetaminophen", "paracetamol", "aspirin", "naproxen", "cetirizine", "loratadine",
+    "diphenhydramine", "prednisone", "prednisolone", "spironolactone",
+  ],
+  treatments: [
+    "cryotherapy", "liquid nitrogen", "laser therapy", "photodynamic therapy", "phototherapy", "chemical peel",
+    "electrocautery", "curettage", "mohs surgery", "radiotherapy", "chemotherapy", "prescription", "prescribe",
+  ],
+  dosagePatterns: [
+    "\\b\\d+(\\.\\d+)?\\s?(mg|mcg|µg|ml|iu|units?)\\b",
+    "\\b\\d+(\\.\\d+)?\\s?%\\s?(cream|ointment|lotion|gel|solution|wash|foam)",
+    "\\b(once|twice|three times|\\d+ times)\\s+(a|per)\\s+day\\b",
+    "\\b(once|twice|three times) daily\\b",
+  ],
+};
+
+const SPANISH_TERMS: SafetyTermList = {
+  drugs: [
+    "hidrocortisona", "corticoide", "corticosteroide", "esteroide", "cortisona", "betametasona", "clobetasol",
+    "triamcinolona", "mometasona", "fluocinonida", "antibiótico", "antifúngico", "antimicótico", "antihistamínico",
+    "mupirocina", "neomicina", "bacitracina", "clindamicina", "doxiciclina", "minociclina", "cefalexina",
+    "clotrimazol", "miconazol", "ketoconazol", "terbinafina", "fluconazol", "isotretinoína", "tretinoína",
+    "retinoide", "adapaleno", "peróxido de benzoilo", "ácido salicílico", "ácido azelaico", "imiquimod",
+    "fluorouracilo", "tacrolimus", "pimecrolimus", "metotrexato", "ciclosporina", "dupilumab", "biológico",
+    "aciclovir", "valaciclovir", "ivermectina", "permetrina", "ibuprofeno", "paracetamol", "acetaminofén",
+    "aspirina", "naproxeno", "cetirizina", "loratadina", "difenhidramina", "prednisona", "prednisolona",
+    "espironolactona",
+  ],
+  treatments: [
+    "crioterapia", "nitrógeno líquido", "terapia láser", "terapia con láser", "terapia fotodinámica", "fototerapia",
+    "peeling químico", "electrocauterización", "curetaje", "cirugía de mohs", "radioterapia", "quimioterapia",
+    "receta", "recetar", "prescripción", "prescribir",
+  ],
+  dosagePatterns: [
+    "\\b\\d+([.,]\\d+)?\\s?(mg|mcg|µg|ml|ui|unidad(es)?)(?![a-z])",
+    "\\b\\d+([.,]\\d+)?\\s?%\\s?(en\\s)?(crema|pomada|loción|gel|solución|espuma)",
+    "\\b(una|dos|tres|\\d+) veces (al|por) día",
+    "\\bcada \\d+ horas\\b",
+  ],
+};
+
+const FRENCH_TERMS: SafetyTermList = {
+  drugs: [
+    "hydrocortisone", "corticoïde", "corticostéroïde", "stéroïde", "cortisone", "bétaméthasone", "clobétasol",
+    "triamcinolone", "mométasone", "fluocinonide", "antibiotique", "antifongique", "antihistaminique", "mupirocine",
+    "néomycine", "bacitracine", "clindamycine", "doxycycline", "minocycline", "céfalexine", "clotrimazole",
+    "miconazole", "kétoconazole", "terbinafine", "fluconazole", "isotrétinoïne", "trétinoïne", "rétinoïde",
+    "adapalène", "peroxyde de benzoyle", "acide salicylique", "acide azélaïque", "imiquimod", "fluorouracile",
+    "tacrolimus", "pimécrolimus", "méthotrexate", "ciclosporine", "dupilumab", "biothérapie", "aciclovir",
+    "valaciclovir", "ivermectine", "perméthrine", "ibuprofène", "paracétamol", "aspirine", "naproxène",
+    "cétirizine", "loratadine", "diphénhydramine", "prednisone", "prednisolone", "spironolactone",
+  ],
+  treatments: [
+    "cryothérapie", "azote liquide", "thérapie laser", "traitement au laser", "photothérapie dynamique",
+    "photothérapie", "peeling chimique", "électrocoagulation", "curetage", "chirurgie de mohs", "radiothérapie",
+    "chimiothérapie", "ordonnance", "prescription", "prescrire",
+  ],
+  dosagePatterns: [
+    "\\b\\d+([.,]\\d+)?\\s?(mg|mcg|µg|ml|ui|unités?)(?![a-z])",
+    "\\b\\d+([.,]\\d+)?\\s?%\\s?(en\\s)?(crème|pommade|lotion|gel|solution|mousse)",
+    "\\b(une|deux|trois|\\d+) fois par jour",
+    "\\btoutes les \\d+ heures\\b",
+  ],
+};
+
+export const DEFAULT_SAFETY_TERMS: Record<Locale, SafetyTermList> = {
+  en: ENGLISH_TERMS,
+  es: SPANISH_TERMS,
+  fr: FRENCH_TERMS,
+};
@@ -0,0 +1,57 @@
+import type { Response } from "express";
+import type { AnalysisStreamEvent } from "../types";
+import type { RunOptions } from "./analysisService";
+import { errorCodeOf, HttpError } from "./httpError";
+import { currentRequestId, logger } from "./logger";
+
+// Comment lines keep proxies and slow connections from timing out while the model runs
+const HEARTBEAT_MS = 15_000;
+
+export type StreamProgress = Required<Pick<RunOptions, "onStage" | "onPartialText">>;
+
+/**
+ * Runs an analysis while reporting it to the client as Server-Sent Events: a stage event as each step starts,
+ * partial text while the model generates, then the result (or the error) and the end of the stream.
+ * Inputs should be checked before calling this so invalid requests still get a plain 4xx response.
+ */
+export const streamAnalysis = async <T>(
+  res: Response,
+  operation: string,
+  run: (progress: StreamProgress) => Promise<{ data: T; cache: string }>
+) => {
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  const send = (event: AnalysisStreamEvent<T>) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+  };
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), HEARTBEAT_MS);
+  res.on("close", () => clearInterval(heartbeat));
+
+  send({ type: "stage", stage: "received" });
+  try {
+    const { data, cache } = await run({
+      onStage: stage => send({ type: "stage", stage }),
+      onPartialText: text => send({ type: "partial", text }),
+    });
+    send({ type: "stage", stage: "done" });
+    send({ type: "result", data, cache });
+  } catch (error: any) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (!(error instanceof HttpError)) {
+      logger.error(`Error during streamed ${operation}`, { error });
+    }
+    const message = error.message || `Internal server error during ${operation}.`;
+    // The response status is already 200, so the audit entry carries the failure in its detail
+    res.locals.audit = { ...res.locals.audit, detail: `Streamed ${operation} failed (${status}): ${message}` };
+    send({ type: "error", error: message, code: errorCodeOf(error), status, requestId: currentRequestId() });
+  } finally {
+    clearInterval(heartbeat);
+    res.end();
+  }
+};
@@ -0,0 +1,129 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import type { AnalysisJob, Patient, LesionImage, User } from "../types";
+import { config } from "./config";
+
+// Records as persisted on disk: timestamps are ISO strings and client-only File handles are never stored
+export type StoredLesionImage = Omit<LesionImage, "file" | "timestamp"> & { timestamp: string };
+export type StoredPatient = Omit<Patient, "lesionImages"> & { lesionImages: StoredLesionImage[] };
+
+export type StoredUser = User & { passwordHash: string; createdAt: string };
+
+export interface StoredSession {
+  tokenHash: string; // SHA-256 of the cookie token; the raw token is never persisted
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface Database {
+  patients: StoredPatient[];
+  users: StoredUser[];
+  sessions: StoredSession[];
+  jobs: AnalysisJob[];
+}
+
+export const DATA_DIR = config.dataDir;
+const DB_FILE = path.join(DATA_DIR, "db.json");
+
+const createSeedDatabase = (): Database => ({
+  patients: [
+    {
+      id: 'p1',
+      name: 'John Doe',
+      dob: '1985-05-23',
+      lesionImages: [],
+      patientId: 'JD-001',
+      gender: 'Male',
+      bloodType: 'O+',
+      existingConditions: 'None reported',
+      email: 'john@patient.com',
+      messages: [],
+      symptomLogs: [],
+      careTasks: []
+    },
+    {
+      id: 'p2',
+      name: 'Jane Smith',
+      dob: '1992-11-14',
+      lesionImages: [],
+      email: 'jane@patient.com',
+      messages: [],
+      symptomLogs: [],
+      careTasks: []
+    }
+  ],
+  users: [],
+  sessions: [],
+  jobs: [],
+});
+
+// Fills collections added after a database file was first written
+const upgrade = (db: Partial<Database>): Database => ({
+  ...db,
+  patients: db.patients ?? [],
+  users: db.users ?? [],
+  sessions: db.sessions ?? [],
+  jobs: db.jobs ?? [],
+});
+
+let cache: Database | null = null;
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Write to a sibling temp file first so a crash mid-write never leaves a truncated database behind
+const persist = async (db: Database) => {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const tmpFile = `${DB_FILE}.${process.pid}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify(db));
+  await fs.rename(tmpFile, DB_FILE);
+};
+
+const load = async (): Promise<Database> => {
+  if (cache) {
+    return cache;
+  }
+  try {
+    cache = upgrade(JSON.parse(await fs.readFile(DB_FILE, "utf8")));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      throw error;
+    }
+    cache = createSeedDatabase();
+    await persist(cache);
+  }
+  return cache;
+};
+
+/**
+ * Generates a collision-resistant record id using the same prefixes the client historically used
+ */
+export const newId = (prefix: string) => `${prefix}${Date.now().toString(36)}${randomBytes(3).toString("hex")}`;
+
+/**
+ * Returns the current database contents. Callers must not mutate the result; use updateDatabase instead.
+ */
+export const readDatabase = async (): Promise<Database> => {
+  await writeQueue;
+  return load();
+};
+
+/**
+ * Applies a mutation and persists it. Mutations are serialized so concurrent requests never interleave writes.
+ * If the mutator throws, the in-memory copy is discarded and reloaded from disk on next access.
+ */
+export const updateDatabase = <T>(mutator: (db: Database) => T | Promise<T>): Promise<T> => {
+  const run = writeQueue.then(async () => {
+    const db = await load();
+    try {
+      const result = await mutator(db);
+      await persist(db);
+      return result;
+    } catch (error) {
+      cache = null;
+      throw error;
+    }
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
@@ -0,0 +1,175 @@
+import multer from "multer";
+import type { RequestHandler, Request } from "express";
+import type { Annotations, ImageInput } from "./analysisProvider";
+import { HttpError } from "./httpError";
+import { config } from "./config";
+
+const MAX_UPLOAD_BYTES = config.uploads.maxBytes;
+export const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+const unsupportedType = (file: Express.Multer.File) =>
+  new HttpError(415, `Unsupported image type "${file.mimetype}" for "${file.fieldname}". Upload a JPEG, PNG or WebP image.`, "UNSUPPORTED_MEDIA_TYPE");
+
+const limits = {
+  fileSize: MAX_UPLOAD_BYTES,
+  fieldSize: 256 * 1024,
+  fields: 20,
+};
+
+// Multer streams each part through busboy and aborts as soon as a file exceeds the size limit,
+// so oversized photos are rejected without buffering the whole request first
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits,
+  fileFilter: (req, file, callback) => {
+    if (ALLOWED_IMAGE_TYPES.includes(file.mimetype)) {
+      callback(null, true);
+    } else {
+      callback(unsupportedType(file));
+    }
+  },
+});
+
+// Batches keep every part so an unsupported file fails only its own item (see readImageBatch)
+const batchUpload = multer({ storage: multer.memoryStorage(), limits });
+
+// Translates upload failures into 413 (too large) and 415 (wrong content or image type) errors
+const withUploadErrors = (handler: RequestHandler): RequestHandler<any> => (req, res, next) => {
+  if (!req.is("multipart/form-data")) {
+    next(new HttpError(415, "Expected a multipart/form-data request body.", "UNSUPPORTED_MEDIA_TYPE"));
+    return;
+  }
+  handler(req, res, error => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === "LIMIT_FILE_SIZE") {
+        next(new HttpError(413, `Image "${error.field}" exceeds the ${(MAX_UPLOAD_BYTES / (1024 * 1024)).toFixed(1)} MB upload limit.`, "PAYLOAD_TOO_LARGE"));
+      } else if (error.code === "LIMIT_UNEXPECTED_FILE") {
+        next(new HttpError(400, `Unexpected file in field "${error.field}": the field is unknown or has too many files.`));
+      } else {
+        next(new HttpError(400, `Invalid upload: ${error.message}.`));
+      }
+      return;
+    }
+    next(error);
+  });
+};
+
+/**
+ * Accepts multipart/form-data with the named single-file image parts
+ */
+export const acceptImages = (...fieldNames: string[]): RequestHandler<any> =>
+  withUploadErrors(upload.fields(fieldNames.map(name => ({ name, maxCount: 1 }))));
+
+/**
+ * Accepts up to maxCount image parts under one field name, for batch analysis
+ */
+export const acceptImageBatch = (fieldName: string, maxCount: number): RequestHandler<any> =>
+  withUploadErrors(batchUpload.array(fieldName, maxCount));
+
+export interface BatchUpload {
+  fileName: string;
+  image?: ImageInput;
+  error?: HttpError;
+}
+
+/**
+ * Returns the batch's image parts in upload order, flagging unsupported types per item
+ */
+export const readImageBatch = (req: Request): BatchUpload[] =>
+  ((req.files as Express.Multer.File[] | undefined) ?? []).map(file =>
+    ALLOWED_IMAGE_TYPES.includes(file.mimetype)
+      ? { fileName: file.originalname, image: { data: file.buffer, mimeType: file.mimetype } }
+      : { fileName: file.originalname, error: unsupportedType(file) }
+  );
+
+/**
+ * Returns the uploaded image part as model input, or undefined when the part was not sent
+ */
+export const readOptionalImage = (req: Request, fieldName: string): ImageInput | undefined => {
+  const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+  const file = files?.[fieldName]?.[0];
+  return file && { data: file.buffer, mimeType: file.mimetype };
+};
+
+/**
+ * Returns the uploaded image part as model input, or throws 400 if it is missing
+ */
+export const readImage = (req: Request, fieldName: string): ImageInput => {
+  const image = readOptionalImage(req, fieldName);
+  if (!image) {
+    throw new HttpError(400, `Missing "${fieldName}" image file in the multipart request.`);
+  }
+  return image;
+};
+
+/**
+ * Parses a form field that carries JSON (annotations travel this way alongside file parts)
+ */
+export const readJsonField = (body: Record<string, unknown>, name: string): any => {
+  const raw = body?.[name];
+  if (raw === undefined || raw === "") {
+    return undefined;
+  }
+  if (typeof raw !== "string") {
+    return raw;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, `Field "${name}" must contain valid JSON.`);
+  }
+};
+
+/**
+ * Reads a boolean form field; checkboxes and curl send "true", "1" or "on"
+ */
+export const readFlag = (body: Record<string, unknown>, name: string): boolean =>
+  ["true", "1", "on"].includes(String(body?.[name] ?? "").trim().toLowerCase());
+
+const isPercent = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 100;
+
+/**
+ * Reads and validates the boundingBox, pins and practitionerNotes annotation fields.
+ * A suffix selects one image's fields in multi-image requests, e.g. "boundingBox1" for /api/compare.
+ */
+export const readAnnotations = (body: Record<string, unknown>, suffix = ""): Annotations => {
+  const boundingBox = readJsonField(body, `boundingBox${suffix}`);
+  if (boundingBox != null && !["x1", "y1", "x2", "y2"].every(key => isPercent(boundingBox[key]))) {
+    throw new HttpError(400, `Field "boundingBox${suffix}" must have numeric x1, y1, x2 and y2 percentages.`);
+  }
+  const pins = readJsonField(body, `pins${suffix}`);
+  if (pins !== undefined && (!Array.isArray(pins) || !pins.every(pin => isPercent(pin?.x) && isPercent(pin?.y) && typeof pin?.label === "string"))) {
+    throw new HttpError(400, `Field "pins${suffix}" must be an array of { x, y, label } percentages.`);
+  }
+  const notes = body?.[`practitionerNotes${suffix}`];
+  const practitionerNotes = typeof notes === "string" && notes.trim() ? notes : undefined;
+  return { boundingBox, pins, practitionerNotes };
+};
+
+/**
+ * Reads an optional ISO capture date field, rejecting values that do not parse as dates
+ */
+export const readDateField = (body: Record<string, unknown>, name: string): string | undefined => {
+  const raw = body?.[name];
+  if (raw === undefined || raw === "") {
+    return undefined;
+  }
+  const date = new Date(String(raw));
+  if (Number.isNaN(date.getTime())) {
+    throw new HttpError(400, `Field "${name}" must be a valid date.`);
+  }
+  return date.toISOString();
+};
+
+export const toDataUrl = (image: ImageInput) => `data:${image.mimeType};base64,${image.data.toString("base64")}`;
+
+/**
+ * Decodes a stored image data URL back into model input
+ */
+export const fromDataUrl = (dataUrl: string): ImageInput => {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl);
+  if (!match) {
+    throw new HttpError(422, "Stored image is not a base64 data URL.", "IMAGE_UNREADABLE");
+  }
+  return { data: Buffer.from(match[2], "base64"), mimeType: match[1] };
+};
@@ -0,0 +1,274 @@
+import type { AnalysisResult, ComparisonResult, SeriesComparisonResult } from "../types";
+import { HttpError } from "./httpError";
+import { logger } from "./logger";
+import { config } from "./config";
+
+const MAX_ATTEMPTS = config.analysis.maxAttempts;
+
+/**
+ * Raised when a single model reply cannot be parsed or does not match the expected result shape
+ */
+export class ModelOutputError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Model output failed validation: ${issues.join("; ")}`);
+    this.name = "ModelOutputError";
+  }
+}
+
+/**
+ * Parses raw model text, treating empty, truncated or non-object replies as malformed output
+ */
+export const parseModelJson = (text: string | undefined): unknown => {
+  const trimmed = (text || "").trim();
+  if (!trimmed) {
+    throw new ModelOutputError(["empty response"]);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch (error: any) {
+    throw new ModelOutputError([`invalid JSON (${error.message})`]);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ModelOutputError(["response is not a JSON object"]);
+  }
+  return parsed;
+};
+
+/**
+ * Reads a string field out of incomplete JSON that is still streaming in, e.g. the description so far,
+ * and whether the field's closing quote has arrived. Returns undefined until the field has started.
+ */
+export const readPartialStringField = (text: string, field: string): { text: string; complete: boolean } | undefined => {
+  const match = new RegExp(`"${field}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)(")?`).exec(text);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    // Drop a unicode escape that was cut off mid-chunk
+    return { text: JSON.parse(`"${match[1].replace(/\\u[0-9a-fA-F]{0,3}$/, "")}"`), complete: !!match[2] };
+  } catch {
+    return undefined;
+  }
+};
+
+const checkString = (obj: Record<string, unknown>, key: string, issues: string[]) => {
+  if (typeof obj[key] !== "string" || !(obj[key] as string).trim()) {
+    issues.push(`"${key}" must be a non-empty string`);
+  }
+};
+
+const checkStringArray = (obj: Record<string, unknown>, key: string, issues: string[]) => {
+  const value = obj[key];
+  if (!Array.isArray(value) || value.length === 0) {
+    issues.push(`"${key}" must be a non-empty array`);
+  } else if (value.some(item => typeof item !== "string" || !item.trim())) {
+    issues.push(`"${key}" must only contain non-empty strings`);
+  }
+};
+
+const checkDifferentials = (obj: Record<string, unknown>, issues: string[]) => {
+  const value = obj.differentials;
+  if (!Array.isArray(value) || value.length === 0) {
+    issues.push('"differentials" must be a non-empty array');
+    return;
+  }
+  value.forEach((item, index) => {
+    const label = `differentials[${index}]`;
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      issues.push(`"${label}" must be an object`);
+      return;
+    }
+    if (typeof item.condition !== "string" || !item.condition.trim()) {
+      issues.push(`"${label}.condition" must be a non-empty string`);
+    }
+    if (typeof item.likelihood !== "number" || !(item.likelihood >= 0 && item.likelihood <= 1)) {
+      issues.push(`"${label}.likelihood" must be a number between 0 and 1`);
+    }
+    for (const key of ["supportingFeatures", "distinguishingFeatures"]) {
+      if (!Array.isArray(item[key]) || item[key].some((feature: unknown) => typeof feature !== "string")) {
+        issues.push(`"${label}.${key}" must be an array of strings`);
+      }
+    }
+  });
+};
+
+const ABCDE_CRITERIA = ["asymmetry", "border", "color", "diameter", "evolution"] as const;
+
+const checkAbcde = (obj: Record<string, unknown>, issues: string[]) => {
+  const abcde = obj.abcde as Record<string, any> | undefined;
+  if (!abcde || typeof abcde !== "object" || Array.isArray(abcde)) {
+    issues.push('"abcde" must be an object');
+    return;
+  }
+  if (typeof abcde.pigmentedLesion !== "boolean") {
+    issues.push('"abcde.pigmentedLesion" must be a boolean');
+  }
+  for (const criterion of ABCDE_CRITERIA) {
+    const entry = abcde[criterion];
+    const scoreValid = [0, 1, 2].includes(entry?.score) || (criterion === "evolution" && entry?.score === null);
+    if (!scoreValid) {
+      issues.push(`"abcde.${criterion}.score" must be 0, 1 or 2${criterion === "evolution" ? " (or null)" : ""}`);
+    }
+    if (typeof entry?.rationale !== "string" || !entry.rationale.trim()) {
+      issues.push(`"abcde.${criterion}.rationale" must be a non-empty string`);
+    }
+  }
+};
+
+const checkRegionComparisons = (obj: Record<string, unknown>, issues: string[]) => {
+  const value = obj.regionComparisons;
+  if (!Array.isArray(value)) {
+    issues.push('"regionComparisons" must be an array');
+    return;
+  }
+  value.forEach((item, index) => {
+    for (const key of ["region", "change"]) {
+      if (typeof item?.[key] !== "string" || !item[key].trim()) {
+        issues.push(`"regionComparisons[${index}].${key}" must be a non-empty string`);
+      }
+    }
+  });
+};
+
+const URGENCY_TIERS = ["routine", "soon", "urgent"];
+
+const checkUrgency = (obj: Record<string, unknown>, issues: string[]) => {
+  const urgency = obj.urgency as Record<string, unknown> | undefined;
+  if (!urgency || !URGENCY_TIERS.includes(urgency.tier as string)) {
+    issues.push(`"urgency.tier" must be one of ${URGENCY_TIERS.join(", ")}`);
+  }
+  if (typeof urgency?.reason !== "string" || !urgency.reason.trim()) {
+    issues.push('"urgency.reason" must be a non-empty string');
+  }
+};
+
+const checkSummaries = (obj: Record<string, unknown>, issues: string[]) => {
+  const summaries = { clinicianSummary: ["morphology", "differentialReasoning"], patientSummary: ["explanation"] };
+  for (const [section, fields] of Object.entries(summaries)) {
+    const value = obj[section] as Record<string, unknown> | undefined;
+    for (const field of fields) {
+      if (typeof value?.[field] !== "string" || !(value[field] as string).trim()) {
+        issues.push(`"${section}.${field}" must be a non-empty string`);
+      }
+    }
+  }
+};
+
+const asObject = (value: unknown): Record<string, unknown> => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ModelOutputError(["response is not a JSON object"]);
+  }
+  return value as Record<string, unknown>;
+};
+
+export const validateAnalysisResult = (value: unknown): AnalysisResult => {
+  const obj = asObject(value);
+  const issues: string[] = [];
+  checkString(obj, "conditionName", issues);
+  checkString(obj, "confidence", issues);
+  checkString(obj, "description", issues);
+  checkStringArray(obj, "recommendations", issues);
+  checkDifferentials(obj, issues);
+  checkAbcde(obj, issues);
+  checkUrgency(obj, issues);
+  checkSummaries(obj, issues);
+  if (issues.length > 0) {
+    throw new ModelOutputError(issues);
+  }
+  const result = obj as unknown as AnalysisResult;
+  // The ranking is part of the contract, so don't rely on the model's ordering
+  return { ...result, differentials: [...result.differentials!].sort((a, b) => b.likelihood - a.likelihood) };
+};
+
+export const validateComparisonResult = (value: unknown): ComparisonResult => {
+  const obj = asObject(value);
+  const issues: string[] = [];
+  checkString(obj, "changeSummary", issues);
+  checkStringArray(obj, "keyObservations", issues);
+  checkString(obj, "recommendation", issues);
+  checkString(obj, "updatedConditionAssessment", issues);
+  checkString(obj, "postComparisonCondition", issues);
+  checkRegionComparisons(obj, issues);
+  checkUrgency(obj, issues);
+  if (issues.length > 0) {
+    throw new ModelOutputError(issues);
+  }
+  return obj as unknown as ComparisonResult;
+};
+
+const TRAJECTORIES = ["improving", "stable", "worsening", "fluctuating"];
+
+/**
+ * Builds the validator for a series of the given length; the model must describe every interval, in order
+ */
+export const seriesResultValidator = (captureCount: number) => (value: unknown): SeriesComparisonResult => {
+  const obj = asObject(value);
+  const issues: string[] = [];
+  const intervals = obj.intervals;
+  if (!Array.isArray(intervals) || intervals.length !== captureCount - 1) {
+    issues.push(`"intervals" must have exactly ${captureCount - 1} entries`);
+  } else {
+    intervals.forEach((interval, index) => {
+      const label = `intervals[${index}]`;
+      if (typeof interval?.changeSummary !== "string" || !interval.changeSummary.trim()) {
+        issues.push(`"${label}.changeSummary" must be a non-empty string`);
+      }
+      if (!Array.isArray(interval?.keyObservations) || interval.keyObservations.some((item: unknown) => typeof item !== "string" || !item.trim())) {
+        issues.push(`"${label}.keyObservations" must be an array of non-empty strings`);
+      }
+    });
+  }
+  if (!TRAJECTORIES.includes(obj.trajectory as string)) {
+    issues.push(`"trajectory" must be one of ${TRAJECTORIES.join(", ")}`);
+  }
+  checkString(obj, "trajectorySummary", issues);
+  checkString(obj, "recommendation", issues);
+  checkUrgency(obj, issues);
+  if (issues.length > 0) {
+    throw new ModelOutputError(issues);
+  }
+  return obj as unknown as SeriesComparisonResult;
+};
+
+/**
+ * Builds the validator for a translation of the given number of strings; every string must come back, in order
+ */
+export const translationValidator = (textCount: number) => (value: unknown): string[] => {
+  const translations = asObject(value).translations;
+  if (!Array.isArray(translations) || translations.length !== textCount) {
+    throw new ModelOutputError([`"translations" must have exactly ${textCount} entries`]);
+  }
+  if (translations.some(item => typeof item !== "string")) {
+    throw new ModelOutputError(['"translations" must only contain strings']);
+  }
+  return translations;
+};
+
+/**
+ * Calls the model until its output validates, up to MODEL_MAX_ATTEMPTS (default 3).
+ * Only malformed output is retried; transport and configuration errors propagate immediately.
+ */
+export const generateValidated = async <T>(
+  operation: string,
+  generate: () => Promise<unknown>,
+  validate: (value: unknown) => T
+): Promise<T> => {
+  let lastError: ModelOutputError | null = null;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      return validate(await generate());
+    } catch (error) {
+      if (!(error instanceof ModelOutputError)) {
+        throw error;
+      }
+      lastError = error;
+      logger.warn(`Malformed model output during ${operation}`, { attempt, maxAttempts: MAX_ATTEMPTS, issues: error.issues });
+    }
+  }
+  throw new HttpError(
+    502,
+    `The AI model returned malformed ${operation} output after ${MAX_ATTEMPTS} attempt(s): ${lastError!.issues.join("; ")}`,
+    "MODEL_OUTPUT_INVALID"
+  );
+};
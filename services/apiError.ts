@@ -0,0 +1,45 @@
+import type { ErrorCode } from '../types';
+
+// Server codes plus the one failure only the browser can see
+export type ClientErrorCode = ErrorCode | 'NETWORK_ERROR';
+
+/**
+ * A failed API call with the server's machine-readable code, so the UI can tailor guidance and retry options
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ClientErrorCode,
+    public readonly status?: number,
+    public readonly requestId?: string // Quoted in support requests to find the failed request in the server logs
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Builds the ApiError for a non-OK response from its { error, code } body
+ */
+export const readApiError = async (response: Response): Promise<ApiError> => {
+  const errorData = await response.json().catch(() => ({}));
+  return new ApiError(
+    errorData.error || `Server responded with status code ${response.status}`,
+    errorData.code || (response.status >= 500 ? 'INTERNAL_ERROR' : 'VALIDATION_FAILED'),
+    response.status,
+    errorData.requestId || response.headers.get('X-Request-Id') || undefined
+  );
+};
+
+/**
+ * Normalizes anything a request threw into an ApiError. fetch rejects with a TypeError when the server is unreachable.
+ */
+export const toApiError = (error: unknown, fallbackMessage: string): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof TypeError) {
+    return new ApiError('Could not reach the DermDetect server. Check your connection.', 'NETWORK_ERROR');
+  }
+  return new ApiError(error instanceof Error && error.message ? error.message : fallbackMessage, 'INTERNAL_ERROR');
+};
@@ -0,0 +1,43 @@
+import type { AuditAction, AuditEntry, AuditIntegrity } from '../types';
+import { readApiError } from './apiError';
+
+export interface AuditQuery {
+  patientId?: string;
+  actorId?: string;
+  action?: AuditAction;
+  from?: string; // YYYY-MM-DD or ISO timestamp
+  to?: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditEntry[]; // Newest first
+  total: number;
+  integrity: AuditIntegrity;
+}
+
+const toQueryString = (params: Record<string, string | number | undefined>) => {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') {
+      search.set(key, String(value));
+    }
+  }
+  return search.toString();
+};
+
+/**
+ * Fetches the newest matching audit entries along with the hash chain check of the whole log
+ */
+export const fetchAuditLog = async (query: AuditQuery = {}, limit = 200): Promise<AuditLogPage> => {
+  const response = await fetch(`/api/audit?${toQueryString({ ...query, limit })}`);
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+  return await response.json();
+};
+
+/**
+ * Download URL for the filtered log; the browser sends the session cookie and saves the attachment
+ */
+export const auditExportUrl = (query: AuditQuery, format: 'csv' | 'json'): string =>
+  `/api/audit/export?${toQueryString({ ...query, format })}`;
@@ -0,0 +1,63 @@
+import type { Locale, User } from '../types';
+import { readApiError } from './apiError';
+
+/**
+ * Shared POST helper for the auth API. Session state lives in an HTTP-only cookie set by the server.
+ */
+const post = async <T,>(path: string, body?: unknown): Promise<T> => {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+
+  return response.status === 204 ? (undefined as T) : await response.json();
+};
+
+/**
+ * Restores the signed-in user from the session cookie, or resolves null when there is no valid session
+ */
+export const fetchCurrentUser = async (): Promise<User | null> => {
+  const response = await fetch('/api/me');
+  if (response.status === 401) {
+    return null;
+  }
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+  return await response.json();
+};
+
+export const login = (email: string, password: string): Promise<User> =>
+  post<User>('/api/auth/login', { email, password });
+
+// Self-signup always creates a patient account with its own clinical file
+export const signUp = (name: string, email: string, password: string, dob: string, locale?: Locale): Promise<User> =>
+  post<User>('/api/auth/signup', { name, email, password, dob, locale });
+
+/**
+ * Adds a practitioner account for a colleague; only practitioners may call it, and the caller stays signed in
+ */
+export const createPractitioner = (name: string, email: string, password: string): Promise<User> =>
+  post<User>('/api/auth/practitioners', { name, email, password });
+
+/**
+ * Saves the signed-in user's preferences (currently the interface and AI output language)
+ */
+export const updatePreferences = async (preferences: { locale: Locale }): Promise<User> => {
+  const response = await fetch('/api/me', {
+    method: 'PATCH',
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(preferences),
+  });
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+  return await response.json();
+};
+
+export const logout = (): Promise<void> => post<void>('/api/auth/logout');
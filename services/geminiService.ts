@@ -1,117 +1,115 @@
-import type { AnalysisResult, ComparisonResult } from '../types';
+import type { AnalysisResponse, BatchAnalysisItem, ComparisonResult, LesionImage, Locale, Patient } from '../types';
+import { buildUploadForm } from './uploadForm';
+import { hydratePatient } from './patientService';
+import { readApiError, toApiError } from './apiError';
 
 /**
- * Utility to convert a File to a raw base64 encoded string
- */
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise<string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (typeof reader.result === 'string') {
-        // Extract the base64 portion from the Data URL
-        const base64Data = reader.result.split(',')[1];
-        resolve(base64Data);
-      } else {
-        reject(new Error("Failed to parse file into a valid base64 string."));
-      }
-    };
-    reader.onerror = () => reject(reader.error || new Error("File reading error."));
-    reader.readAsDataURL(file);
-  });
-};
-
-/**
- * Calls proxy API route to analyze a single skin lesion image with optional coordinate tags or annotations
+ * Calls proxy API route to analyze a single skin lesion image with optional coordinate tags or annotations.
+ * Resolves with the result and the normalized image the server analyzed, which is the copy to store.
+ * Identical requests are answered from the server's analysis cache unless bypassCache is set. The model writes in
+ * options.locale, defaulting to the signed-in user's saved language.
+ * Every helper in this module rejects with an ApiError whose code identifies the failure.
  */
 export const analyzeSkinCondition = async (
   imageFile: File | string,
   boundingBox?: { x1: number; y1: number; x2: number; y2: number } | null,
   pins?: Array<{ x: number; y: number; label: string }>,
-  practitionerNotes?: string
-): Promise<AnalysisResult> => {
+  practitionerNotes?: string,
+  options: { bypassCache?: boolean; locale?: Locale } = {}
+): Promise<AnalysisResponse> => {
   try {
-    let base64Data = '';
-    let mimeType = 'image/jpeg';
-
-    if (typeof imageFile === 'string') {
-      if (imageFile.startsWith('data:')) {
-        const parts = imageFile.split(',');
-        base64Data = parts[1];
-        const mimePart = parts[0].match(/data:(.*?);/);
-        if (mimePart) {
-          mimeType = mimePart[1];
-        }
-      } else {
-        base64Data = imageFile;
-      }
-    } else {
-      base64Data = await fileToBase64(imageFile);
-      mimeType = imageFile.type;
-    }
-
     const response = await fetch("/api/analyze", {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        image: {
-          data: base64Data,
-          mimeType,
-        },
-        boundingBox,
-        pins,
-        practitionerNotes
-      }),
+      body: await buildUploadForm({ image: imageFile }, { boundingBox, pins, practitionerNotes, locale: options.locale, bypassCache: options.bypassCache ? 'true' : undefined }),
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `Server responded with status code ${response.status}`);
+      throw await readApiError(response);
     }
 
     return await response.json();
-  } catch (error: any) {
+  } catch (error) {
     console.error("Client error during analyzeSkinCondition:", error);
-    throw new Error(error.message || "An unexpected error occurred while communicating with the analysis server. Please try again.");
+    throw toApiError(error, "An unexpected error occurred while communicating with the analysis server. Please try again.");
   }
 };
 
+export interface BatchImage {
+  file: File | string;
+  boundingBox?: { x1: number; y1: number; x2: number; y2: number } | null;
+  pins?: Array<{ x: number; y: number; label: string }>;
+  practitionerNotes?: string;
+}
+
 /**
- * Calls proxy API route to compare progression between two lesion images
+ * Calls proxy API route to analyze many lesion photos in one request. Each photo succeeds or fails on its own;
+ * with a patientId every decodable photo is added to that patient and the updated record is returned.
  */
-export const compareLesions = async (imageFile1: File, imageFile2: File): Promise<ComparisonResult> => {
+export const analyzeSkinConditionBatch = async (
+  images: BatchImage[],
+  options: { patientId?: string; bypassCache?: boolean; locale?: Locale } = {}
+): Promise<{ items: BatchAnalysisItem[]; patient?: Patient }> => {
   try {
-    const [base64_1, base64_2] = await Promise.all([
-      fileToBase64(imageFile1),
-      fileToBase64(imageFile2),
-    ]);
+    const response = await fetch("/api/analyze/batch", {
+      method: "POST",
+      body: await buildUploadForm(
+        { images: images.map(image => image.file) },
+        {
+          annotations: images.map(({ boundingBox, pins, practitionerNotes }) => ({ boundingBox, pins, practitionerNotes })),
+          patientId: options.patientId,
+          locale: options.locale,
+          bypassCache: options.bypassCache ? 'true' : undefined,
+        }
+      ),
+    });
 
+    if (!response.ok) {
+      throw await readApiError(response);
+    }
+
+    const { items, patient } = await response.json();
+    return { items, patient: patient ? hydratePatient(patient) : undefined };
+  } catch (error) {
+    console.error("Client error during analyzeSkinConditionBatch:", error);
+    throw toApiError(error, "An unexpected error occurred while communicating with the analysis server. Please try again.");
+  }
+};
+
+// Annotations and capture date of one side of a comparison, telling the model which region to compare
+export type ComparisonCapture = Pick<LesionImage, 'boundingBox' | 'pins' | 'practitionerNotes'> & { capturedAt?: Date };
+
+const captureFields = (capture: ComparisonCapture | undefined, suffix: string): Record<string, unknown> => ({
+  [`boundingBox${suffix}`]: capture?.boundingBox,
+  [`pins${suffix}`]: capture?.pins,
+  [`practitionerNotes${suffix}`]: capture?.practitionerNotes,
+  [`capturedAt${suffix}`]: capture?.capturedAt?.toISOString(),
+});
+
+/**
+ * Calls proxy API route to compare progression between two lesion images.
+ * Pass each image's stored annotations and capture date so the model compares the marked lesion over the real interval.
+ */
+export const compareLesions = async (
+  imageFile1: File | string,
+  imageFile2: File | string,
+  options: { bypassCache?: boolean; locale?: Locale; before?: ComparisonCapture; after?: ComparisonCapture } = {}
+): Promise<ComparisonResult> => {
+  try {
     const response = await fetch("/api/compare", {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        image1: {
-          data: base64_1,
-          mimeType: imageFile1.type,
-        },
-        image2: {
-          data: base64_2,
-          mimeType: imageFile2.type,
-        },
-      }),
+      body: await buildUploadForm(
+        { image1: imageFile1, image2: imageFile2 },
+        { ...captureFields(options.before, '1'), ...captureFields(options.after, '2'), locale: options.locale, bypassCache: options.bypassCache ? 'true' : undefined }
+      ),
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `Server responded with status code ${response.status}`);
+      throw await readApiError(response);
     }
 
     return await response.json();
-  } catch (error: any) {
+  } catch (error) {
     console.error("Client error during compareLesions:", error);
-    throw new Error(error.message || "An unexpected error occurred while communicating with the comparison server. Please try again.");
+    throw toApiError(error, "An unexpected error occurred while communicating with the comparison server. Please try again.");
   }
 };
@@ -0,0 +1,110 @@
+import type { AnalysisJob, Locale, Patient } from '../types';
+import { hydratePatient } from './patientService';
+import { ApiError, readApiError } from './apiError';
+
+const POLL_INTERVAL_MS = 1500;
+
+const request = async <T,>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(path, {
+    ...init,
+    headers: init.body ? { "Content-Type": "application/json" } : undefined,
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+
+  return await response.json();
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Polling was cancelled.', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Polling was cancelled.', 'AbortError'));
+    }, { once: true });
+  });
+
+/**
+ * Queues AI analysis of a stored lesion image. The returned patient already carries the image's analysisJobId.
+ */
+export const submitAnalysisJob = async (
+  patientId: string,
+  imageId: string,
+  options: { bypassCache?: boolean; locale?: Locale } = {}
+): Promise<{ job: AnalysisJob; patient: Patient }> => {
+  const { job, patient } = await request<{ job: AnalysisJob; patient: any }>('/api/analyze/jobs', {
+    method: 'POST',
+    body: JSON.stringify({ patientId, imageId, bypassCache: options.bypassCache, locale: options.locale }),
+  });
+  return { job, patient: hydratePatient(patient) };
+};
+
+/**
+ * Queues a before/after comparison of two stored lesion images
+ */
+export const submitComparisonJob = async (
+  patientId: string,
+  imageIds: [string, string],
+  options: { bypassCache?: boolean; locale?: Locale } = {}
+): Promise<AnalysisJob> => {
+  const { job } = await request<{ job: AnalysisJob }>('/api/compare/jobs', {
+    method: 'POST',
+    body: JSON.stringify({ patientId, imageIds, bypassCache: options.bypassCache, locale: options.locale }),
+  });
+  return job;
+};
+
+/**
+ * Queues a progression analysis across several stored lesion images; the server orders them by capture date
+ */
+export const submitSeriesJob = async (
+  patientId: string,
+  imageIds: string[],
+  options: { bypassCache?: boolean; locale?: Locale } = {}
+): Promise<AnalysisJob> => {
+  const { job } = await request<{ job: AnalysisJob }>('/api/compare/series/jobs', {
+    method: 'POST',
+    body: JSON.stringify({ patientId, imageIds, bypassCache: options.bypassCache, locale: options.locale }),
+  });
+  return job;
+};
+
+export const fetchJob = (jobId: string): Promise<AnalysisJob> => request<AnalysisJob>(`/api/jobs/${jobId}`);
+
+/**
+ * Lists queued and running jobs for a patient so a reloaded view can resume polling them
+ */
+export const fetchActiveJobs = (patientId: string): Promise<AnalysisJob[]> =>
+  request<AnalysisJob[]>(`/api/jobs?patientId=${encodeURIComponent(patientId)}&active=true`);
+
+/**
+ * Polls a job until it succeeds or fails. Dropped connections and server hiccups are retried
+ * rather than surfaced, since the job keeps running server-side; only client errors (e.g. 404) abort.
+ * While the job is active, onProgress receives each polled copy with its live stage and partial text.
+ * Resolves with the finished job; rejects when it failed or polling is aborted.
+ */
+export const waitForJob = async (jobId: string, signal?: AbortSignal, onProgress?: (job: AnalysisJob) => void): Promise<AnalysisJob> => {
+  while (true) {
+    try {
+      const job = await fetchJob(jobId);
+      if (job.status === 'succeeded') {
+        return job;
+      }
+      if (job.status === 'failed') {
+        throw new ApiError(job.error?.message || 'The analysis job failed.', job.error?.code ?? 'INTERNAL_ERROR', undefined, job.requestId);
+      }
+      onProgress?.(job);
+    } catch (error) {
+      if (!(error instanceof TypeError) && !(error instanceof ApiError && error.status !== undefined && error.status >= 500)) {
+        throw error;
+      }
+    }
+    await sleep(POLL_INTERVAL_MS, signal);
+  }
+};
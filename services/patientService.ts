@@ -0,0 +1,86 @@
+import type { AnalysisResult, CareTask, LesionImage, Locale, Patient, PatientMessage, SymptomLog } from '../types';
+import { buildUploadForm } from './uploadForm';
+import { readApiError } from './apiError';
+
+export type PatientFields = Omit<Patient, 'id' | 'lesionImages' | 'messages' | 'symptomLogs' | 'careTasks'>;
+export type NewLesionImage = Omit<LesionImage, 'id' | 'timestamp' | 'file' | 'imageDataUrl'>;
+export type LesionImageUpdate = Partial<Omit<LesionImage, 'id' | 'timestamp' | 'file' | 'imageDataUrl'>>;
+
+/**
+ * Re-hydrates fields that travel as strings over JSON (lesion image timestamps become Dates)
+ */
+export const hydratePatient = (patient: any): Patient => ({
+  ...patient,
+  lesionImages: (patient.lesionImages || []).map((img: any) => ({ ...img, timestamp: new Date(img.timestamp) })),
+});
+
+/**
+ * Shared request helper for the patient registry API. Rejects with an ApiError carrying the server's message and code.
+ */
+const request = async <T,>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`/api/patients${path}`, {
+    ...init,
+    // Multipart bodies must let the browser set the boundary in the Content-Type header
+    headers: init.body && !(init.body instanceof FormData) ? { "Content-Type": "application/json", ...init.headers } : init.headers,
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+
+  return response.status === 204 ? (undefined as T) : await response.json();
+};
+
+const send = (path: string, method: string, body?: unknown) =>
+  request<any>(path, { method, body: body === undefined ? undefined : JSON.stringify(body) }).then(hydratePatient);
+
+export const fetchPatients = async (): Promise<Patient[]> => {
+  const patients = await request<any[]>('');
+  return patients.map(hydratePatient);
+};
+
+export const fetchPatient = async (patientId: string): Promise<Patient> =>
+  hydratePatient(await request<any>(`/${patientId}`));
+
+export const createPatient = (fields: PatientFields): Promise<Patient> => send('', 'POST', fields);
+
+export const updatePatientDetails = (patientId: string, fields: Partial<PatientFields>): Promise<Patient> =>
+  send(`/${patientId}`, 'PATCH', fields);
+
+export const deletePatient = (patientId: string): Promise<void> => request<void>(`/${patientId}`, { method: 'DELETE' });
+
+export const addLesionImage = async (patientId: string, image: File | string, fields: NewLesionImage): Promise<Patient> =>
+  hydratePatient(await request<any>(`/${patientId}/images`, { method: 'POST', body: await buildUploadForm({ image }, fields) }));
+
+export const updateLesionImage = (patientId: string, imageId: string, update: LesionImageUpdate): Promise<Patient> =>
+  send(`/${patientId}/images/${imageId}`, 'PATCH', update);
+
+export const deleteLesionImage = (patientId: string, imageId: string): Promise<Patient> =>
+  send(`/${patientId}/images/${imageId}`, 'DELETE');
+
+export const reviewLesionImage = (patientId: string, imageId: string): Promise<Patient> =>
+  send(`/${patientId}/images/${imageId}/review`, 'POST');
+
+/**
+ * Fetches a stored scan result in the given language. The server translates it once and keeps the copy.
+ */
+export const translateLesionResult = (patientId: string, imageId: string, locale: Locale): Promise<AnalysisResult> =>
+  request<AnalysisResult>(`/${patientId}/images/${imageId}/translations`, { method: 'POST', body: JSON.stringify({ locale }) });
+
+/**
+ * Records a client-side report export in the server's audit trail
+ */
+export const recordPatientExport = (patientId: string): Promise<void> =>
+  request<void>(`/${patientId}/exports`, { method: 'POST' });
+
+export const addMessage = (patientId: string, message: Omit<PatientMessage, 'id'>): Promise<Patient> =>
+  send(`/${patientId}/messages`, 'POST', message);
+
+export const addSymptomLog = (patientId: string, log: Omit<SymptomLog, 'id'>): Promise<Patient> =>
+  send(`/${patientId}/symptom-logs`, 'POST', log);
+
+export const replaceCareTasks = (patientId: string, tasks: CareTask[]): Promise<Patient> =>
+  send(`/${patientId}/care-tasks`, 'PUT', tasks);
+
+export const updateCareTask = (patientId: string, taskId: string, update: Partial<Omit<CareTask, 'id'>>): Promise<Patient> =>
+  send(`/${patientId}/care-tasks/${taskId}`, 'PATCH', update);
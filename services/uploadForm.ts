@@ -0,0 +1,35 @@
+/**
+ * Turns a picked File or a stored image data URL into a Blob that can travel as a multipart file part
+ */
+export const toImageBlob = async (image: Blob | string): Promise<Blob> => {
+  if (typeof image !== 'string') {
+    return image;
+  }
+  const response = await fetch(image);
+  return await response.blob();
+};
+
+/**
+ * Builds a multipart body from image parts and plain fields. An array of images becomes repeated parts
+ * under the same name. Strings are sent as-is; structured values (bounding boxes, pins, results) are
+ * JSON encoded for the server to parse.
+ */
+export const buildUploadForm = async (
+  images: Record<string, Blob | string | Array<Blob | string>>,
+  fields: Record<string, unknown> = {}
+): Promise<FormData> => {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(images)) {
+    for (const image of Array.isArray(value) ? value : [value]) {
+      const blob = await toImageBlob(image);
+      form.append(name, blob, image instanceof File ? image.name : `${name}.${blob.type.split('/')[1] || 'jpg'}`);
+    }
+  }
+  for (const [name, value] of Object.entries(fields)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    form.append(name, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+  return form;
+};
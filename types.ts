@@ -1,9 +1,145 @@
 
+// Machine-readable error codes. Every API error response is { error, code }, and failed jobs and stream events carry the code too.
+export type ErrorCode =
+  | 'VALIDATION_FAILED' // A request field is missing or malformed
+  | 'UNAUTHENTICATED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UNSUPPORTED_MEDIA_TYPE' // Not a JPEG, PNG or WebP upload
+  | 'IMAGE_UNREADABLE' // The file could not be decoded as an image
+  | 'MODEL_NOT_CONFIGURED' // Missing or rejected API key
+  | 'MODEL_RATE_LIMITED'
+  | 'MODEL_UNAVAILABLE' // The model service is down or unreachable
+  | 'MODEL_OUTPUT_INVALID'
+  | 'SAFETY_REJECTED'
+  | 'JOB_INTERRUPTED'
+  | 'INTERNAL_ERROR';
+
+// Languages the UI and the AI output are available in; results stored before localization are English
+export type Locale = 'en' | 'es' | 'fr';
+
+export interface ApiErrorBody {
+  error: string;
+  code: ErrorCode;
+  requestId?: string; // Correlation id of the failed request, for finding it in the server logs
+}
+
+export interface SafetyFinding {
+  field: string;
+  category: 'drug' | 'treatment' | 'dosage';
+  term: string;
+  action: 'removed-item' | 'removed-sentence';
+  excerpt: string;
+}
+
+// Record of what the server-side clinical safety filter changed in a model result
+export interface SafetyReport {
+  mode: 'redact' | 'reject';
+  findings: SafetyFinding[];
+  disclaimerAdjusted: boolean;
+  checkedAt: string;
+}
+
+// One candidate in a ranked differential diagnosis
+export interface DifferentialDiagnosis {
+  condition: string;
+  likelihood: number; // 0-1
+  supportingFeatures: string[]; // Visual features in the image that support this candidate
+  distinguishingFeatures: string[]; // How this candidate differs from the top-ranked one (empty for the top candidate)
+}
+
+export type UrgencyTier = 'routine' | 'soon' | 'urgent';
+
+// How soon the patient should be seen by a clinician, and why
+export interface Urgency {
+  tier: UrgencyTier;
+  reason: string;
+}
+
+export interface AbcdeCriterion {
+  score: number | null; // 0 = reassuring, 1 = equivocal, 2 = concerning; null when it cannot be assessed
+  rationale: string;
+}
+
+// ABCDE melanoma checklist, mirroring the clinic's paper form
+export interface AbcdeAssessment {
+  pigmentedLesion: boolean; // The criteria are designed for pigmented lesions
+  asymmetry: AbcdeCriterion;
+  border: AbcdeCriterion;
+  color: AbcdeCriterion;
+  diameter: AbcdeCriterion;
+  evolution: AbcdeCriterion & { comparedTo?: { imageId?: string; capturedAt: string } }; // Prior capture used as the baseline
+}
+
+// The annotation inputs a result was generated from, as normalized by the server
+export interface ProvenanceAnnotations {
+  boundingBox: { x1: number; y1: number; x2: number; y2: number } | null;
+  pins: Array<{ x: number; y: number; label: string }>;
+  practitionerNotes: string | null;
+}
+
+// What produced an AI result, so historic results can be traced back to a model and prompt template version
+export interface ResultProvenance {
+  provider: string;
+  model: string;
+  promptVersion: string;
+  generatedAt: string; // When the model produced the output; a cached result keeps its original time
+  locale?: Locale; // Language of the prose fields; absent means English
+  translatedFrom?: Locale; // Set on a translated copy of a stored result, with the time of translation
+  translatedAt?: string;
+  annotations?: ProvenanceAnnotations; // Single-image analyses
+  captures?: Array<Partial<ProvenanceAnnotations> & { capturedAt: string | null }>; // Comparison before/after, or the series oldest first
+}
+
+// The chart note: morphology in dermatological terms and why the differential is ranked as it is
+export interface ClinicianSummary {
+  morphology: string;
+  differentialReasoning: string;
+}
+
+// The patient note: a plain-language explanation written to the configured reading level
+export interface PatientSummary {
+  explanation: string;
+  readingGrade?: number; // Flesch-Kincaid grade of the explanation, measured for English text only
+}
+
 export interface AnalysisResult {
   conditionName: string;
   confidence: string;
   description: string;
   recommendations: string[];
+  clinicianSummary?: ClinicianSummary; // Absent on results stored before dual-audience summaries existed
+  patientSummary?: PatientSummary; // Absent on results stored before dual-audience summaries existed
+  differentials?: DifferentialDiagnosis[]; // Ranked most likely first; absent on results stored before differentials existed
+  abcde?: AbcdeAssessment; // Absent on results stored before ABCDE scoring existed
+  urgency?: Urgency; // Absent on results stored before triage existed
+  safety?: SafetyReport;
+  provenance?: ResultProvenance; // Absent on results stored before provenance was recorded
+}
+
+// The upright, metadata-free JPEG the server actually analyzed
+export interface NormalizedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export interface AnalysisResponse {
+  result: AnalysisResult;
+  image: NormalizedImage;
+}
+
+// Per-photo outcome of /api/analyze/batch; a failed item never fails the rest of the batch
+export interface BatchAnalysisItem {
+  index: number;
+  fileName: string;
+  status: 'succeeded' | 'failed';
+  result?: AnalysisResult;
+  image?: NormalizedImage; // Returned when the batch was not stored on a patient
+  imageId?: string; // Lesion image added to the patient when a patientId was given
+  error?: { message: string; code?: ErrorCode };
 }
 
 export interface LesionImage {
@@ -16,6 +152,10 @@ export interface LesionImage {
   pins?: Array<{ id: string; x: number; y: number; label: string }>;
   practitionerNotes?: string;
   patientNotes?: string;
+  analysisJobId?: string; // Set while a queued or running analysis job will write this image's result
+  uploadedBy?: 'practitioner' | 'patient'; // Absent on images stored before uploads were attributed
+  reviewedAt?: string; // When a practitioner marked the current result reviewed; cleared by a new result
+  analysisTranslations?: Partial<Record<Locale, AnalysisResult>>; // Copies of the result in other languages; cleared by a new result
 }
 
 export interface PatientMessage {
@@ -55,18 +195,108 @@ export interface Patient {
   careTasks?: CareTask[];
 }
 
+// How one annotated region (the bounding box or a pin) changed between the two captures
+export interface RegionComparison {
+    region: string; // e.g. "Bounding box" or "Pin 2 (irregular edge)"
+    change: string;
+}
+
 export interface ComparisonResult {
     changeSummary: string;
     keyObservations: string[];
     recommendation: string;
     updatedConditionAssessment: string;
     postComparisonCondition: string;
+    regionComparisons?: RegionComparison[]; // Empty or absent when neither capture was annotated
+    elapsedDays?: number; // Days between the captures, when both dates were known
+    urgency?: Urgency;
+    safety?: SafetyReport;
+    provenance?: ResultProvenance;
+}
+
+export type ProgressionTrajectory = 'improving' | 'stable' | 'worsening' | 'fluctuating';
+
+// Change between two consecutive captures of a series comparison
+export interface SeriesInterval {
+    fromImageId?: string;
+    toImageId?: string;
+    fromCapturedAt: string;
+    toCapturedAt: string;
+    changeSummary: string;
+    keyObservations: string[];
+}
+
+// Progression across an ordered series of captures, oldest first
+export interface SeriesComparisonResult {
+    intervals: SeriesInterval[]; // One per consecutive pair of captures
+    trajectory: ProgressionTrajectory;
+    trajectorySummary: string;
+    recommendation: string;
+    urgency?: Urgency;
+    safety?: SafetyReport;
+    provenance?: ResultProvenance;
+}
+
+// Pipeline stages reported by the streaming analysis and comparison routes, in order
+export type AnalysisStage = 'received' | 'preprocessing' | 'model' | 'validating' | 'done';
+
+// Server-Sent Events of /api/analyze/stream and /api/compare/stream; each is sent as an event named after its type
+export type AnalysisStreamEvent<T> =
+  | { type: 'stage'; stage: AnalysisStage }
+  | { type: 'partial'; text: string } // Safety-filtered description (or change summary) generated so far, in whole sentences
+  | { type: 'result'; data: T; cache: string }
+  | { type: 'error'; error: string; code: ErrorCode; status: number; requestId?: string };
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// Server-side analysis or comparison run that clients poll via /api/jobs/:id
+export interface AnalysisJob {
+  id: string;
+  kind: 'analysis' | 'comparison' | 'series';
+  status: AnalysisJobStatus;
+  patientId: string;
+  imageIds: string[]; // The analyzed image, the before/after pair, or the series in capture order
+  createdBy: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: AnalysisResult | ComparisonResult | SeriesComparisonResult;
+  error?: { message: string; code?: ErrorCode };
+  cache?: string;
+  // Live progress while the job is active, held in server memory only and never stored
+  stage?: AnalysisStage;
+  partialText?: string; // Safety-filtered description or change summary generated so far
+  requestId?: string; // Correlation id of the submitting request; the job's own log lines carry it too
+}
+
+export type AuditAction = 'view' | 'upload' | 'analyze' | 'compare' | 'message' | 'export' | 'edit';
+
+// One append-only audit log record; hash covers the entry and prevHash, so any edit or deletion breaks the chain
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actorId: string;
+  actorEmail?: string;
+  role: 'practitioner' | 'patient';
+  action: AuditAction;
+  patientId?: string;
+  detail: string;
+  request?: { method: string; path: string; status: number; ip?: string; userAgent?: string; requestId?: string }; // Absent for background job outcomes
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditIntegrity {
+  valid: boolean;
+  checked: number;
+  brokenAt?: string; // Id of the first entry whose hash or link does not match
 }
 
 export interface User {
   id: string;
   name: string;
   email: string;
-  password: string; // In a real app, this would be a hash
   role: 'practitioner' | 'patient';
+  linkedPatientId?: string; // Patient record owned by a patient account
+  locale?: Locale; // Preferred language for the UI and for AI output the user requests
 }
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { ApiError, type ClientErrorCode } from '../services/apiError';
+
+export interface ErrorGuidance {
+  title: string;
+  guidance: string; // What the user can do about it
+  retryable: boolean; // Whether trying the same action again can succeed
+}
+
+const GUIDANCE: Record<ClientErrorCode, ErrorGuidance> = {
+  VALIDATION_FAILED: { title: 'Request not accepted', guidance: 'Check the highlighted details and try again.', retryable: false },
+  UNAUTHENTICATED: { title: 'Signed out', guidance: 'Your session has expired. Reload the page and sign in again.', retryable: false },
+  FORBIDDEN: { title: 'Not permitted', guidance: 'Your account does not have access to this action.', retryable: false },
+  NOT_FOUND: { title: 'Record not found', guidance: 'It may have been deleted. Go back and reload the patient list.', retryable: false },
+  CONFLICT: { title: 'Already exists', guidance: 'A record with these details already exists.', retryable: false },
+  PAYLOAD_TOO_LARGE: { title: 'Photo too large', guidance: 'Crop the photo or export it at a lower resolution, then upload it again.', retryable: false },
+  UNSUPPORTED_MEDIA_TYPE: { title: 'Unsupported file type', guidance: 'Upload a JPEG, PNG or WebP photo.', retryable: false },
+  IMAGE_UNREADABLE: { title: 'Photo could not be read', guidance: 'The file may be damaged or incomplete. Retake or re-export the photo and upload it again.', retryable: false },
+  MODEL_NOT_CONFIGURED: { title: 'AI analysis not set up', guidance: 'The server has no valid Gemini API key. Ask your administrator to configure GEMINI_API_KEY.', retryable: false },
+  MODEL_RATE_LIMITED: { title: 'AI service busy', guidance: 'The AI usage limit was reached. Wait a minute, then retry.', retryable: true },
+  MODEL_UNAVAILABLE: { title: 'AI service unavailable', guidance: 'The AI service could not be reached. Retry in a few minutes.', retryable: true },
+  MODEL_OUTPUT_INVALID: { title: 'AI returned an unusable result', guidance: 'Retry the analysis. If it keeps failing, request a fresh analysis instead of a cached one.', retryable: true },
+  SAFETY_REJECTED: { title: 'Result withheld for safety', guidance: 'The AI output mentioned medication or treatment and was withheld. Retry with a fresh analysis, or assess the lesion clinically.', retryable: true },
+  JOB_INTERRUPTED: { title: 'Analysis interrupted', guidance: 'The server restarted before the analysis finished. Retry to run it again.', retryable: true },
+  INTERNAL_ERROR: { title: 'Server error', guidance: 'Retry. If it keeps happening, contact support and quote the error code below.', retryable: true },
+  NETWORK_ERROR: { title: 'Connection lost', guidance: 'Check your internet connection, then retry.', retryable: true },
+};
+
+/**
+ * Looks up the user-facing guidance for an error; errors without a code are treated as server errors
+ */
+export const describeError = (error: unknown): ErrorGuidance & { code: ClientErrorCode; message: string; requestId?: string } => {
+  const code = error instanceof ApiError ? error.code : 'INTERNAL_ERROR';
+  const message = error instanceof Error && error.message ? error.message : 'Something went wrong.';
+  const requestId = error instanceof ApiError ? error.requestId : undefined;
+  return { ...(GUIDANCE[code] ?? GUIDANCE.INTERNAL_ERROR), code, message, requestId };
+};
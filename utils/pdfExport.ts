@@ -145,6 +145,28 @@ export const exportPatientPDF = async (patient: Patient) => {
         addText(`Model Confidence: ${result.confidence}`, margin, 5, 9, 'bold', result.confidence.toLowerCase() === 'high' ? [16, 185, 129] : [245, 158, 11]);
         y += 2;
         addText(`Description: ${result.description}`, margin, 5, 9.5, 'normal', [51, 65, 85]);
+        if (result.clinicianSummary) {
+          addText(`Morphology: ${result.clinicianSummary.morphology}`, margin, 5, 9, 'normal', [51, 65, 85]);
+          addText(`Differential reasoning: ${result.clinicianSummary.differentialReasoning}`, margin, 5, 9, 'normal', [51, 65, 85]);
+        }
+        if (result.urgency) {
+          addText(`Urgency: ${result.urgency.tier} - ${result.urgency.reason}`, margin, 5, 9, 'bold', result.urgency.tier === 'urgent' ? [225, 29, 72] : [51, 65, 85]);
+        }
+        if (result.abcde) {
+          const { asymmetry, border, color, diameter, evolution } = result.abcde;
+          const score = (criterion: { score: number | null }) => criterion.score === null ? 'n/a' : `${criterion.score}/2`;
+          addText(`ABCDE: A ${score(asymmetry)}, B ${score(border)}, C ${score(color)}, D ${score(diameter)}, E ${score(evolution)}`, margin, 5, 9, 'normal', [51, 65, 85]);
+        }
+        if (result.differentials && result.differentials.length > 0) {
+          addText(`Differential: ${result.differentials.map(d => `${d.condition} (${Math.round(d.likelihood * 100)}%)`).join(', ')}`, margin, 5, 9, 'normal', [51, 65, 85]);
+        }
+        const provenance = result.provenance;
+        addText(
+          provenance
+            ? `Generated by ${provenance.model} (${provenance.provider}), prompt v${provenance.promptVersion}, on ${new Date(provenance.generatedAt).toLocaleString()}`
+            : 'Generated by: not recorded (result predates provenance tracking)',
+          margin, 5, 8, 'italic', [100, 116, 139]
+        );
         
         y += 2;
         addText("Clinical Recommendations & Safeguards:", margin, 5, 9.5, 'bold', [15, 23, 42]);
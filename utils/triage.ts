@@ -0,0 +1,35 @@
+import type { LesionImage, Patient, Urgency, UrgencyTier } from '../types';
+
+const TIER_RANK: Record<UrgencyTier, number> = { urgent: 3, soon: 2, routine: 1 };
+
+export interface WorklistEntry {
+  patient: Patient;
+  urgency: Urgency | null; // Highest urgency among results not yet reviewed
+  awaitingReview: LesionImage[]; // Patient-uploaded scans no practitioner has reviewed
+}
+
+const isUnreviewed = (image: LesionImage) => !image.reviewedAt;
+
+const latestCapture = (patient: Patient) =>
+  Math.max(0, ...patient.lesionImages.map(image => new Date(image.timestamp).getTime()));
+
+/**
+ * Builds the practitioner triage worklist: patients with unreviewed results or patient uploads,
+ * most urgent first, then by the number of uploads awaiting review, then by the newest capture.
+ */
+export const buildWorklist = (patients: Patient[]): WorklistEntry[] =>
+  patients
+    .map(patient => {
+      const unreviewed = patient.lesionImages.filter(isUnreviewed);
+      const urgency = unreviewed.reduce<Urgency | null>((highest, image) => {
+        const candidate = image.analysisResult?.urgency;
+        return candidate && (!highest || TIER_RANK[candidate.tier] > TIER_RANK[highest.tier]) ? candidate : highest;
+      }, null);
+      return { patient, urgency, awaitingReview: unreviewed.filter(image => image.uploadedBy === 'patient') };
+    })
+    .filter(entry => entry.urgency || entry.awaitingReview.length > 0)
+    .sort((a, b) =>
+      (b.urgency ? TIER_RANK[b.urgency.tier] : 0) - (a.urgency ? TIER_RANK[a.urgency.tier] : 0)
+      || b.awaitingReview.length - a.awaitingReview.length
+      || latestCapture(b.patient) - latestCapture(a.patient)
+    );